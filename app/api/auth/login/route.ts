@@ -0,0 +1,72 @@
+/**
+ * Login API route that checks a username and password and sets the signed session cookie.
+ *
+ * Input data sources: POST request with JSON body containing username and password, ./.agent-auth.json (users)
+ * Output destinations: JSON response to client, session cookie
+ * Dependencies: lib/auth, lib/rate-limit
+ * Key exports: POST handler for /api/auth/login endpoint
+ * Side effects: Sets the session cookie
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { AUTH_COOKIE, createAuth } from "@/lib/auth";
+import { takeRateLimit } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface LoginRequestBody {
+  username: string;
+  password: string;
+}
+
+// Failed and successful attempts per username per minute
+const LOGIN_ATTEMPTS_PER_MINUTE = 10;
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as LoginRequestBody;
+
+    if (typeof body.username !== "string" || typeof body.password !== "string" || !body.username) {
+      return new Response(
+        JSON.stringify({ error: "username and password are required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const attempts = takeRateLimit(`login:${body.username}`, LOGIN_ATTEMPTS_PER_MINUTE);
+    if (!attempts.allowed) {
+      return new Response(
+        JSON.stringify({ error: `Too many login attempts; retry in ${attempts.retryAfterSeconds}s` }),
+        {
+          status: 429,
+          headers: { "Content-Type": "application/json", "Retry-After": String(attempts.retryAfterSeconds) },
+        }
+      );
+    }
+
+    const session = createAuth().login(body.username, body.password);
+    if (!session) {
+      return new Response(
+        JSON.stringify({ error: "Wrong username or password" }),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const response = NextResponse.json({ user: body.username });
+    response.cookies.set(AUTH_COOKIE, session.cookie, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: req.nextUrl.protocol === "https:",
+      path: "/",
+      maxAge: session.maxAge,
+    });
+    return response;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
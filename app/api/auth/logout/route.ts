@@ -0,0 +1,21 @@
+/**
+ * Logout API route that clears the session cookie.
+ *
+ * Input data sources: POST request
+ * Output destinations: JSON response to client, session cookie
+ * Dependencies: lib/auth
+ * Key exports: POST handler for /api/auth/logout endpoint
+ * Side effects: Clears the session cookie
+ */
+
+import { NextResponse } from "next/server";
+import { AUTH_COOKIE } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST() {
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(AUTH_COOKIE);
+  return response;
+}
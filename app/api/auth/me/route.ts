@@ -0,0 +1,31 @@
+/**
+ * Current user API route that returns who the request is authenticated as.
+ *
+ * Input data sources: Session cookie or Authorization header (lib/auth)
+ * Output destinations: JSON response to client
+ * Dependencies: lib/auth
+ * Key exports: GET handler for /api/auth/me endpoint
+ * Side effects: Reads the auth file
+ */
+
+import { NextRequest } from "next/server";
+import { getRequestUser, isAdmin, isAuthEnabled } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = getRequestUser(req.headers);
+    return Response.json({
+      enabled: isAuthEnabled(),
+      user: user && { id: user.id, method: user.method, admin: isAdmin(user) },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
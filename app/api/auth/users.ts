@@ -0,0 +1,103 @@
+/**
+ * CLI for managing web app users and API tokens in the local auth file.
+ *
+ * Input data sources: Command-line arguments, terminal stdin (password prompt), ./.agent-auth.json
+ * Output destinations: Terminal stdout (users, new tokens), ./.agent-auth.json
+ * Dependencies: chalk, lib/auth
+ * Key exports: None (executable script)
+ * Side effects: Writes the auth file (users, password hashes, token hashes, cookie secret)
+ *
+ * Usage:
+ *   npx tsx app/api/auth/users.ts add <user> [--password <pw>] [--token-only] [--rate-limit <per minute>] [--admin | --no-admin]
+ *   npx tsx app/api/auth/users.ts remove <user>
+ *   npx tsx app/api/auth/users.ts token <user> [--label <text>]
+ *   npx tsx app/api/auth/users.ts revoke <token id>
+ *   npx tsx app/api/auth/users.ts list
+ */
+import * as readline from "readline";
+import chalk from "chalk";
+import { createAuth } from "@/lib/auth";
+
+const USAGE = `Usage:
+  users.ts add <user> [--password <pw>] [--token-only] [--rate-limit <per minute>] [--admin | --no-admin]
+  users.ts remove <user>
+  users.ts token <user> [--label <text>]
+  users.ts revoke <token id>
+  users.ts list`;
+
+const [command, name] = process.argv.slice(2);
+const auth = createAuth();
+
+// Value of --<flag> <value>
+function flag(flagName: string): string | undefined {
+  const index = process.argv.indexOf(`--${flagName}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+function fail(message: string): never {
+  console.error(chalk.red(message));
+  process.exit(1);
+}
+
+function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise((resolve) =>
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer);
+    })
+  );
+}
+
+async function main() {
+  switch (command) {
+    case "add": {
+      if (!name) fail(USAGE);
+      const rateLimit = flag("rate-limit");
+      if (rateLimit !== undefined && !(Number.isInteger(Number(rateLimit)) && Number(rateLimit) > 0)) {
+        fail("--rate-limit must be a positive integer");
+      }
+
+      const password = process.argv.includes("--token-only")
+        ? undefined
+        : (flag("password") ?? (await prompt(`Password for ${name}: `)));
+      if (password !== undefined && password.length < 8) fail("Passwords need at least 8 characters");
+
+      const admin = process.argv.includes("--admin") ? true : process.argv.includes("--no-admin") ? false : undefined;
+      auth.setUser(name, { password, rateLimitPerMinute: rateLimit === undefined ? undefined : Number(rateLimit), admin });
+      console.log(chalk.green(`Saved user ${name}`));
+      break;
+    }
+    case "remove":
+      if (!name) fail(USAGE);
+      if (!auth.removeUser(name)) fail(`Unknown user "${name}"`);
+      console.log(chalk.green(`Removed user ${name} and their tokens`));
+      break;
+    case "token": {
+      if (!name) fail(USAGE);
+      const { id, token } = auth.createToken(name, flag("label"));
+      console.log(chalk.green(`Token ${id} for ${name} (shown once, send as "Authorization: Bearer <token>"):`));
+      console.log(token);
+      break;
+    }
+    case "revoke":
+      if (!name) fail(USAGE);
+      if (!auth.revokeToken(name)) fail(`No token with id "${name}"`);
+      console.log(chalk.green(`Revoked token ${name}`));
+      break;
+    case "list":
+      for (const user of auth.listUsers()) {
+        const limit = user.rateLimitPerMinute ? `, ${user.rateLimitPerMinute} requests/min` : "";
+        const role = user.admin ? ", admin" : "";
+        console.log(chalk.bold(user.id) + chalk.gray(`${user.password ? " (password)" : " (token only)"}${limit}${role}`));
+        for (const token of user.tokens) {
+          console.log(chalk.gray(`  ${token.id}  ${token.created_at}  ${token.label}`));
+        }
+      }
+      break;
+    default:
+      fail(USAGE);
+  }
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,78 @@
+/**
+ * Budget API route that reads and replaces the budget limits and reports spend against them.
+ *
+ * Input data sources: GET ?profile=<name>&sessionId=<id> (scope of the status report), PUT request with budgets.json content,
+ *   /sessions/budgets.json, /sessions/*.jsonl (spend), caller identity (lib/auth)
+ * Output destinations: JSON response to client, /sessions/budgets.json (PUT, admins only)
+ * Dependencies: lib/budgets, lib/session-reader, lib/auth, zod
+ * Key exports: GET and PUT handlers for /api/budgets endpoint
+ * Side effects: Reads session log files, writes budgets.json
+ */
+
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createBudgetManager } from "@/lib/budgets";
+import { createSessionReader } from "@/lib/session-reader";
+import { getRequestUser, isAdmin, ownsSession } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  try {
+    const budgets = createBudgetManager();
+    const params = req.nextUrl.searchParams;
+    const sessionId = params.get("sessionId");
+
+    // Other users' sessions look the same as missing ones
+    if (sessionId) {
+      const summary = createSessionReader().getSummary(sessionId);
+      if (!summary || !ownsSession(getRequestUser(req.headers), summary.user_id)) {
+        return new Response(
+          JSON.stringify({ error: "Session not found" }),
+          { status: 404, headers: { "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    const check = budgets.check({
+      sessionId,
+      profile: params.get("profile") || "default",
+    });
+    return Response.json({ limits: budgets.getLimits(), ...check });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    // Limits apply to every user, so only admins change them
+    if (!isAdmin(getRequestUser(req.headers))) {
+      return new Response(
+        JSON.stringify({ error: "Only admins can change budget limits" }),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const limits = createBudgetManager().setLimits(await req.json());
+    return Response.json({ limits });
+  } catch (error) {
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      const errorMessage = error instanceof z.ZodError ? z.prettifyError(error) : error.message;
+      return new Response(
+        JSON.stringify({ error: `Invalid budget limits: ${errorMessage}` }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
@@ -1,32 +1,81 @@
 /**
  * Interactive CLI script for chatting with Claude Agent using streaming input mode with Braintrust tracing.
  *
- * Input data sources: Terminal stdin (user input)
- * Output destinations: Terminal stdout (Claude responses), Braintrust logging
+ * Input data sources: Terminal stdin (user input), --profile <name> argument (agent profile)
+ * Output destinations: Terminal stdout (Claude responses), Braintrust project logs (BRAINTRUST_PROJECT, default claude-agent):
+ *   a span per exchange with llm and tool child spans (lib/agent-tracer)
  * Dependencies: @anthropic-ai/claude-agent-sdk, braintrust, chalk, dotenv, ANTHROPIC_API_KEY, BRAINTRUST_API_KEY environment variables
  * Key exports: None (executable script)
- * Side effects: Makes API calls to Claude, executes agent tools, reads from stdin, logs to Braintrust
- * The traces in braintrust looks damn bad. Like they only managed to trace the system message. The responses are not traced.
+ * Side effects: Makes API calls to Claude, executes agent tools, reads from stdin, creates a per-run workspace under /workspaces, logs to Braintrust
  */
 import dotenv from "dotenv";
-import { initLogger, wrapClaudeAgentSDK } from "braintrust";
-import * as claudeSDK from "@anthropic-ai/claude-agent-sdk";
-import type { SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import { query, type SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
 import * as readline from "readline";
 import chalk from "chalk";
-import { agentOptions } from "./config";
+import { createAgentOptions, getCommandPolicy, getPathGuard, unattendedPermission } from "./config";
+import { getProfile, getWorkspaceTemplateDir, loadProfiles, type AgentProfile } from "./profiles";
+import { createWorkspaceManager } from "@/lib/workspaces";
+import { withCommandPolicy, type PolicyDecision } from "@/lib/command-policy";
+import { pathGuardHooks } from "@/lib/path-guard";
+import { createAgentTracer } from "@/lib/agent-tracer";
+import { createBraintrustExporter } from "@/lib/braintrust-exporter";
 
 // Load environment variables from .env.local
 dotenv.config({ path: ".env.local" });
 
-// Initialize Braintrust logging
-initLogger({
-  projectName: "claude-agent",
-  apiKey: process.env.BRAINTRUST_API_KEY,
+// Select agent profile with --profile <name>
+function selectProfile(): AgentProfile {
+  const profileArgIndex = process.argv.indexOf("--profile");
+  const profileName = profileArgIndex !== -1 ? process.argv[profileArgIndex + 1] : "default";
+  const selected = getProfile(profileName);
+  if (!selected) {
+    console.error(
+      chalk.red(`Unknown profile "${profileName}". Available: ${Object.keys(loadProfiles()).join(", ")}`)
+    );
+    process.exit(1);
+  }
+  return selected;
+}
+
+const profile = selectProfile();
+
+// Each CLI run gets its own workspace directory
+const workspaces = createWorkspaceManager();
+workspaces.cleanupExpired();
+const workspace = workspaces.createWorkspace(getWorkspaceTemplateDir(profile));
+
+// Spans per exchange, model turn and tool call, built from the message stream and sent to Braintrust
+const tracer = createAgentTracer({
+  exporters: [
+    createBraintrustExporter({
+      projectName: process.env.BRAINTRUST_PROJECT || "claude-agent",
+      apiKey: process.env.BRAINTRUST_API_KEY,
+    }),
+  ],
+  profile: profile.name,
+  workspace,
 });
+// Bash commands are checked against the profile's policy; commands it leaves undecided are refused (no approval UI)
+const commandPolicy = getCommandPolicy(profile, workspace);
+// File tools stay inside the workspace (and the profile's read-only directories)
+const pathGuard = getPathGuard(profile, workspace);
+const agentOptions = {
+  ...createAgentOptions(profile, workspace),
+  ...(commandPolicy && {
+    canUseTool: withCommandPolicy(commandPolicy, {
+      fallback: unattendedPermission(profile),
+      onDecision: (_command, decision) => printPolicyDecision(decision),
+    }),
+  }),
+  hooks: pathGuardHooks(pathGuard, (violation) => console.log(chalk.yellow(`\n${violation.reason}`))),
+};
 
-// Wrap the Claude SDK with Braintrust tracing
-const { query } = wrapClaudeAgentSDK(claudeSDK);
+// Show Bash policy denials (allowed commands show up in the tool_use output)
+function printPolicyDecision(decision: PolicyDecision) {
+  if (decision.decision !== "allow") {
+    console.log(chalk.yellow(`\n${decision.reason}`));
+  }
+}
 
 // Create readline interface
 const rl = readline.createInterface({
@@ -61,6 +110,7 @@ async function* generateMessages(): AsyncGenerator<
       userMessage.toLowerCase() === "quit"
     ) {
       console.log(`\n${chalk.yellow("Goodbye!")}\n`);
+      await tracer.close();
       rl.close();
       process.exit(0);
     }
@@ -70,6 +120,8 @@ async function* generateMessages(): AsyncGenerator<
       continue;
     }
 
+    tracer.logUserInput(userMessage);
+
     // Yield the message
     yield {
       type: "user" as const,
@@ -87,6 +139,8 @@ async function main() {
   console.log(chalk.green.bold("╔══════════════════════════════════════════╗"));
   console.log(chalk.green.bold("║   Claude Agent Interactive Chat          ║"));
   console.log(chalk.green.bold("╚══════════════════════════════════════════╝"));
+  console.log(chalk.dim(`Profile: ${profile.name} (${profile.model})`));
+  console.log(chalk.dim(`Workspace: ${workspace}`));
   console.log(chalk.dim("Type 'exit' or 'quit' to end the conversation\n"));
 
   try {
@@ -95,6 +149,16 @@ async function main() {
       prompt: generateMessages(),
       options: agentOptions,
     })) {
+      tracer.log(message);
+
+      // Tie the workspace to the SDK session_id
+      if (message.type === "system" && message.subtype === "init") {
+        workspaces.bindSession(message.session_id, workspace);
+      }
+
+      // Skip partial message events (the full assistant message follows)
+      if (message.type === "stream_event") continue;
+
       // Pretty print the entire message object
       console.log(chalk.cyan("\n═══════════ MESSAGE ═══════════"));
       console.log(JSON.stringify(message, null, 2));
@@ -109,6 +173,7 @@ async function main() {
     if (error instanceof Error && error.stack) {
       console.error(chalk.dim(error.stack));
     }
+    await tracer.close();
     rl.close();
     process.exit(1);
   }
@@ -117,8 +182,9 @@ async function main() {
 // Handle Ctrl+C gracefully
 process.on("SIGINT", () => {
   console.log(`\n\n${chalk.yellow("Interrupted by user. Goodbye!")}\n`);
+  tracer.markInterrupted();
   rl.close();
-  process.exit(0);
+  tracer.close().finally(() => process.exit(0));
 });
 
 // Start the interactive chat
@@ -1,17 +1,112 @@
 /**
  * Interactive CLI script for chatting with Claude Agent using streaming input mode.
  *
- * Input data sources: Terminal stdin (user input)
- * Output destinations: Terminal stdout (Claude responses), /sessions/*.jsonl (session logs)
- * Dependencies: @anthropic-ai/claude-agent-sdk, chalk, dotenv, ANTHROPIC_API_KEY environment variable
+ * Input data sources: Terminal stdin (user input), --profile <name> argument (agent profile),
+ *   --fork <session> --at <exchange> arguments (branch from a logged session), /sessions/budgets.json (budget limits)
+ * Output destinations: Terminal stdout (Claude responses, remaining budget), /sessions/*.jsonl (session logs),
+ *   trace exporters (TRACE_EXPORTERS)
+ * Dependencies: @anthropic-ai/claude-agent-sdk (via lib/agent-transport), chalk, dotenv, ANTHROPIC_API_KEY environment variable
  * Key exports: None (executable script)
- * Side effects: Makes API calls to Claude, executes agent tools, reads from stdin, creates session log files
+ * Side effects: Makes API calls to Claude, executes agent tools, reads from stdin, creates a per-run workspace under /workspaces
+ *   (a fork gets a copy of its parent's), creates session log files
  */
-import { query, type SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { Query, SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
 import * as readline from "readline";
 import chalk from "chalk";
-import { agentOptions } from "./config";
+import { createAgentOptions, getCommandPolicy, getPathGuard, unattendedPermission } from "./config";
+import { getProfile, getWorkspaceTemplateDir, loadProfiles, type AgentProfile } from "./profiles";
+import { createWorkspaceManager } from "@/lib/workspaces";
+import { withCommandPolicy, type PolicyDecision } from "@/lib/command-policy";
+import { pathGuardHooks } from "@/lib/path-guard";
 import { createSessionLogger } from "@/lib/session-logger";
+import { getQueryFn } from "@/lib/agent-transport";
+import { createAgentTracer } from "@/lib/agent-tracer";
+import { getTraceExporters } from "@/lib/trace-exporters";
+import { createSessionReader, type ForkPoint } from "@/lib/session-reader";
+import { budgetExceededMessage, createBudgetManager, formatBudgetStatus } from "@/lib/budgets";
+
+// Select agent profile with --profile <name>
+function selectProfile(): AgentProfile {
+  const profileArgIndex = process.argv.indexOf("--profile");
+  const profileName = profileArgIndex !== -1 ? process.argv[profileArgIndex + 1] : "default";
+  const selected = getProfile(profileName);
+  if (!selected) {
+    console.error(
+      chalk.red(`Unknown profile "${profileName}". Available: ${Object.keys(loadProfiles()).join(", ")}`)
+    );
+    process.exit(1);
+  }
+  return selected;
+}
+
+// Select fork point with --fork <session> --at <exchange>
+function selectForkPoint(): ForkPoint | null {
+  const forkArgIndex = process.argv.indexOf("--fork");
+  if (forkArgIndex === -1) return null;
+
+  const sessionId = process.argv[forkArgIndex + 1];
+  const atArgIndex = process.argv.indexOf("--at");
+  const exchange = atArgIndex !== -1 ? Number(process.argv[atArgIndex + 1]) : NaN;
+  if (!sessionId || !Number.isInteger(exchange) || exchange < 1) {
+    console.error(chalk.red("Usage: --fork <session_id> --at <exchange number>"));
+    process.exit(1);
+  }
+
+  const forkPoint = createSessionReader().getForkPoint(sessionId, exchange);
+  if (!forkPoint) {
+    console.error(chalk.red(`Cannot fork session ${sessionId} at exchange ${exchange} (not logged, or no assistant message)`));
+    process.exit(1);
+  }
+  return forkPoint;
+}
+
+const profile = selectProfile();
+const forkPoint = selectForkPoint();
+
+// Each CLI run gets its own workspace directory; a fork runs in a copy of its parent's
+const workspaces = createWorkspaceManager();
+workspaces.cleanupExpired();
+const workspace =
+  (forkPoint && workspaces.forkWorkspace(forkPoint.session_id)) ||
+  workspaces.createWorkspace(getWorkspaceTemplateDir(profile));
+
+// Bash commands are checked against the profile's policy; commands it leaves undecided are refused (no approval UI)
+const commandPolicy = getCommandPolicy(profile, workspace);
+// File tools stay inside the workspace (and the profile's read-only directories)
+const pathGuard = getPathGuard(profile, workspace);
+
+// The SDK's cost is cumulative for the run, so the headroom at startup caps the whole run
+const budgets = createBudgetManager();
+const startBudget = budgets.check({ sessionId: forkPoint?.session_id, profile: profile.name });
+const agentOptions = {
+  ...createAgentOptions(profile, workspace),
+  ...(commandPolicy && {
+    canUseTool: withCommandPolicy(commandPolicy, {
+      fallback: unattendedPermission(profile),
+      onDecision: (command, decision) => {
+        logger.logPolicyDecision(command, decision);
+        printPolicyDecision(decision);
+      },
+    }),
+  }),
+  hooks: pathGuardHooks(pathGuard, (violation) => {
+    logger.logPathViolation(violation);
+    console.log(chalk.yellow(`\n${violation.reason}`));
+  }),
+  ...(startBudget.remainingUsd !== null && { maxBudgetUsd: startBudget.remainingUsd }),
+  ...(forkPoint && {
+    resume: forkPoint.session_id,
+    forkSession: true,
+    resumeSessionAt: forkPoint.assistant_message_id,
+  }),
+};
+
+// Show Bash policy denials (allowed commands show up in the tool_use output)
+function printPolicyDecision(decision: PolicyDecision) {
+  if (decision.decision !== "allow") {
+    console.log(chalk.yellow(`\n${decision.reason}`));
+  }
+}
 
 // Create readline interface
 const rl = readline.createInterface({
@@ -25,6 +120,17 @@ const messageQueue: string[] = [];
 // Session logger instance (will be initialized in main)
 let logger: ReturnType<typeof createSessionLogger>;
 
+// Spans per exchange, model turn and tool call for the exporters in TRACE_EXPORTERS
+const tracer = createAgentTracer({ exporters: getTraceExporters(), profile: profile.name, workspace });
+
+// SDK session_id of this run (known after the init message)
+let sessionId: string | null = null;
+
+// Running query and turn state (for Ctrl+C interrupt handling)
+let activeQuery: Query | null = null;
+let turnInProgress = false;
+let interruptRequested = false;
+
 // Async generator for streaming input mode
 async function* generateMessages(): AsyncGenerator<
   SDKUserMessage,
@@ -50,6 +156,7 @@ async function* generateMessages(): AsyncGenerator<
     ) {
       console.log(`\n${chalk.yellow("Goodbye!")}\n`);
       logger.close();
+      await tracer.close();
       rl.close();
       process.exit(0);
     }
@@ -59,8 +166,18 @@ async function* generateMessages(): AsyncGenerator<
       continue;
     }
 
+    // Refuse new turns once a budget is used up
+    const budget = budgets.check({ sessionId: sessionId ?? forkPoint?.session_id, profile: profile.name });
+    if (budget.exceeded.length > 0) {
+      console.log(`\n${chalk.red(budgetExceededMessage(budget))}`);
+      console.log(chalk.dim("Raise the limits in sessions/budgets.json, or type 'exit' to quit"));
+      continue;
+    }
+
     // Log user input BEFORE yielding
     logger.logUserInput(userMessage);
+    tracer.logUserInput(userMessage);
+    turnInProgress = true;
 
     // Yield the message
     yield {
@@ -79,19 +196,47 @@ async function main() {
   console.log(chalk.green.bold("╔══════════════════════════════════════════╗"));
   console.log(chalk.green.bold("║   Claude Agent Interactive Chat          ║"));
   console.log(chalk.green.bold("╚══════════════════════════════════════════╝"));
-  console.log(chalk.dim("Type 'exit' or 'quit' to end the conversation\n"));
+  console.log(chalk.dim(`Profile: ${profile.name} (${profile.model})`));
+  console.log(chalk.dim(`Workspace: ${workspace}`));
+  if (forkPoint) {
+    console.log(chalk.dim(`Forked from ${forkPoint.session_id} after exchange #${forkPoint.exchange}`));
+  }
+  console.log(chalk.dim("Type 'exit' or 'quit' to end the conversation"));
+  console.log(chalk.dim("Ctrl+C interrupts a running turn, a second Ctrl+C exits\n"));
 
   // Initialize session logger
-  logger = createSessionLogger();
+  logger = createSessionLogger({
+    profile: profile.name,
+    workspace,
+    ...(forkPoint && { parentSessionId: forkPoint.session_id, forkedFromExchange: forkPoint.exchange }),
+  });
 
   try {
     // Start the streaming agent
-    for await (const message of query({
+    activeQuery = getQueryFn()({
       prompt: generateMessages(),
       options: agentOptions,
-    })) {
+    });
+
+    for await (const message of activeQuery) {
       // Log every message
       logger.log(message);
+      tracer.log(message);
+
+      // Tie the workspace to the SDK session_id
+      if (message.type === "system" && message.subtype === "init") {
+        workspaces.bindSession(message.session_id, workspace);
+        sessionId = message.session_id;
+      }
+
+      // Turn finished (normally or after an interrupt)
+      if (message.type === "result") {
+        turnInProgress = false;
+        interruptRequested = false;
+      }
+
+      // Skip partial message events (the full assistant message follows)
+      if (message.type === "stream_event") continue;
 
       // Pretty print the entire message object
       console.log(
@@ -101,6 +246,13 @@ async function main() {
       console.log(
         chalk.cyan("═══════════════════════════════════\n")
       );
+
+      // Remaining budget after each exchange (the logger has written it by now)
+      if (message.type === "result") {
+        for (const status of budgets.check({ sessionId, profile: profile.name }).statuses) {
+          console.log(chalk.dim(`Budget ${formatBudgetStatus(status)}`));
+        }
+      }
     }
   } catch (error) {
     console.error(
@@ -112,23 +264,40 @@ async function main() {
       console.error(chalk.dim(error.stack));
     }
     logger.close();
+    await tracer.close();
     rl.close();
     process.exit(1);
   } finally {
     // Always close logger
     logger.close();
+    await tracer.close();
   }
 }
 
-// Handle Ctrl+C gracefully
-process.on("SIGINT", () => {
+// Handle Ctrl+C: first press interrupts a running turn, second press (or idle) exits
+function handleSigint() {
+  if (turnInProgress && !interruptRequested && activeQuery) {
+    interruptRequested = true;
+    logger.markInterrupted();
+    tracer.markInterrupted();
+    console.log(`\n\n${chalk.yellow("Interrupting current turn... (Ctrl+C again to exit)")}\n`);
+    activeQuery.interrupt().catch((error) => {
+      console.error(chalk.red(`Interrupt failed: ${error instanceof Error ? error.message : error}`));
+    });
+    return;
+  }
+
   console.log(`\n\n${chalk.yellow("Interrupted by user. Goodbye!")}\n`);
   if (logger) {
     logger.close();
   }
   rl.close();
-  process.exit(0);
-});
+  tracer.close().finally(() => process.exit(0));
+}
+
+// readline captures Ctrl+C while waiting for input, so listen on both
+process.on("SIGINT", handleSigint);
+rl.on("SIGINT", handleSigint);
 
 // Start the interactive chat
 main();
@@ -1,17 +1,22 @@
 /**
  * Shared configuration for Claude Agent SDK query options used by both agent.ts and route.ts.
  *
- * Input data sources: None
- * Output destinations: Used by agent.ts and route.ts
- * Dependencies: @anthropic-ai/claude-agent-sdk types
- * Key exports: agentOptions
- * Side effects: None
+ * Input data sources: Agent profiles (profiles.ts), filtered environment (env-policy.ts), Bash policy (lib/command-policy)
+ * Output destinations: Used by agent.ts, agent-braintrust.ts and route.ts
+ * Dependencies: @anthropic-ai/claude-agent-sdk types, profiles.ts, env-policy.ts, lib/command-policy, lib/path-guard
+ * Key exports: createAgentOptions(), getApprovalRequiredTools(), getCommandPolicy(), getPathGuard(),
+ *   unattendedPermission(), APPROVAL_REQUIRED_TOOLS
+ * Side effects: Warns once on stderr about sensitive environment variables kept from the agent
  */
 
-import type { Options } from "@anthropic-ai/claude-agent-sdk";
+import type { CanUseTool, Options } from "@anthropic-ai/claude-agent-sdk";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
 import { release } from "os";
+import { DEFAULT_PROFILE, type AgentProfile } from "./profiles";
+import { buildAgentEnv, warnDeniedEnv } from "./env-policy";
+import { createCommandPolicy, type CommandPolicy } from "@/lib/command-policy";
+import { createPathGuard, type PathGuard } from "@/lib/path-guard";
 
 /**
  * Shared query options for Claude Agent
@@ -20,58 +25,114 @@ import { release } from "os";
 const TODAY = new Date().toISOString().split("T")[0]; // Formats as 'YYYY-MM-DD'
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
+// Shared workspace for callers that don't use per-session workspaces (lib/workspaces.ts)
 const WORKING_DIRECTORY = join(__dirname, "workspace");
 const PLATFORM = process.platform; // 'darwin', 'linux', 'win32', etc.
 const OSVERSION = release();
-const SYSTEM_PROMPT = `You are a helpful AI assistant. You can help with general questions and tasks.
-
-Here is useful information about the environment you are running in:
+const buildEnvPrompt = (cwd: string) => `Here is useful information about the environment you are running in:
 <env>
-Working directory: ${WORKING_DIRECTORY}
+Working directory: ${cwd}
 Is directory a git repo: No
 Platform: ${PLATFORM}
 OS Version: ${OSVERSION}
 Today's date: ${TODAY}
 </env>`;
 
-export const agentOptions: Options = {
-  // Maximum conversation turns before stopping
-  maxTurns: 50,
+/**
+ * Tools that modify files or run commands. The web route removes these from
+ * allowedTools so each call is routed through canUseTool for user approval.
+ */
+export const APPROVAL_REQUIRED_TOOLS = ["Write", "Edit", "Bash"];
+
+/**
+ * Tools of a profile that need user approval in the web chat
+ */
+export function getApprovalRequiredTools(profile: AgentProfile = DEFAULT_PROFILE): string[] {
+  return profile.approvalRequiredTools ?? APPROVAL_REQUIRED_TOOLS;
+}
+
+/**
+ * Bash command policy of a profile, bound to the agent's working directory and the profile's read-only directories
+ *
+ * @returns The policy, or null if the profile has no bashPolicy
+ */
+export function getCommandPolicy(profile: AgentProfile, cwd: string = WORKING_DIRECTORY): CommandPolicy | null {
+  return profile.bashPolicy ? createCommandPolicy(profile.bashPolicy, cwd, profile.readOnlyDirs) : null;
+}
+
+/**
+ * File tool sandbox of a profile: the working directory plus the profile's read-only directories
+ */
+export function getPathGuard(profile: AgentProfile, cwd: string = WORKING_DIRECTORY): PathGuard {
+  return createPathGuard(cwd, profile.readOnlyDirs);
+}
+
+/**
+ * canUseTool fallback for agents without an approval UI (the CLIs): a bypassPermissions profile
+ * allows every tool, other profiles refuse tools that would need approval
+ */
+export function unattendedPermission(profile: AgentProfile): CanUseTool {
+  return async (toolName, input) =>
+    profile.permissionMode === "bypassPermissions"
+      ? { behavior: "allow", updatedInput: input }
+      : { behavior: "deny", message: `${toolName} needs user approval, which is not available in this session` };
+}
+
+/**
+ * Build query options for an agent profile
+ *
+ * @param profile - Agent profile (default: built-in default profile)
+ * @param cwd - Working directory, e.g. a per-session workspace (default: shared workspace folder)
+ * @throws Error when a secret named by the profile is missing from the secret store
+ */
+export function createAgentOptions(
+  profile: AgentProfile = DEFAULT_PROFILE,
+  cwd: string = WORKING_DIRECTORY
+): Options {
+  const agentEnv = buildAgentEnv(profile);
+  warnDeniedEnv(agentEnv.denied);
+
+  return {
+    // Maximum conversation turns before stopping
+    maxTurns: profile.maxTurns,
 
-  // Working directory for agent operations
-  cwd: WORKING_DIRECTORY,
+    // Working directory for agent operations
+    cwd,
 
-  // Permission mode - bypass for non-interactive usage
-  permissionMode: "default",
+    // Permission mode - bypass for non-interactive usage.
+    // With a Bash policy, bypass becomes default so Bash calls reach canUseTool (see unattendedPermission)
+    permissionMode:
+      profile.bashPolicy && profile.permissionMode === "bypassPermissions" ? "default" : profile.permissionMode,
 
-  // Model selection
-  model: "haiku",
+    // Model selection
+    model: profile.model,
 
-  // Limit which tools the agent can use
-  allowedTools: ["Read", "Write", "Edit", "Grep", "Glob", "Bash"],
+    // Limit which tools the agent can use; with a Bash policy, Bash is left out so each call is checked
+    allowedTools: profile.bashPolicy ? profile.allowedTools.filter((tool) => tool !== "Bash") : profile.allowedTools,
 
-  // Custom system prompt appended to Claude Code's default
-  systemPrompt: SYSTEM_PROMPT,
-  // systemPrompt: { type: "preset", preset: "claude_code" },
+    // Custom system prompt appended to Claude Code's default
+    systemPrompt: `${profile.instructions}\n\n${buildEnvPrompt(cwd)}`,
+    // systemPrompt: { type: "preset", preset: "claude_code" },
 
-  // Load filesystem settings from project
-  settingSources: ["local"],
+    // Load filesystem settings from project
+    settingSources: ["local"],
 
-  // Pass environment explicitly for Next.js API routes (fixes spawn ENOENT)
-  env: process.env,
+    // Pass environment explicitly for Next.js API routes (fixes spawn ENOENT), filtered by the env policy
+    env: agentEnv.env,
 
-  // Optional: Disable specific tools
-  disallowedTools: ["NotebookEdit", "Skill", "SlashCommand"],
+    // Optional: Disable specific tools
+    disallowedTools: profile.disallowedTools,
 
-  // Optional: Maximum tokens for thinking process
-  // maxThinkingTokens: 10000,
+    // Optional: Maximum tokens for thinking process
+    // maxThinkingTokens: 10000,
 
-  // Optional: Include partial message events for streaming UI
-  // includePartialMessages: false,
+    // Include partial message events (stream_event) for token-level streaming UI
+    includePartialMessages: true,
 
-  // Optional: Configure MCP servers
-  // mcpServers: {},
+    // Optional: Configure MCP servers
+    // mcpServers: {},
 
-  // Optional: Define programmatic subagents
-  // agents: {},
-};
+    // Optional: Define programmatic subagents
+    // agents: {},
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Environment policy for the agent subprocess: only allowlisted variables, a profile's extra variables and its
+ * secrets from the named secret store reach the agent (and so its Bash tool).
+ *
+ * Input data sources: process.env, agent profiles (envAllow, secrets), lib/secret-store
+ * Output destinations: Used by config.ts (createAgentOptions)
+ * Dependencies: lib/secret-store, profiles.ts types
+ * Key exports: buildAgentEnv(), warnDeniedEnv(), ENV_ALLOWLIST, AgentEnv
+ * Side effects: Writes a one-time warning to stderr (warnDeniedEnv)
+ */
+
+import { createSecretStore, type SecretStore } from "@/lib/secret-store";
+import type { AgentProfile } from "./profiles";
+
+/**
+ * Variables every agent gets. A trailing "*" matches a prefix.
+ * ANTHROPIC_API_KEY is needed by the agent process itself to call Claude.
+ */
+export const ENV_ALLOWLIST = [
+  "PATH",
+  "HOME",
+  "USER",
+  "LOGNAME",
+  "SHELL",
+  "LANG",
+  "LC_*",
+  "TERM",
+  "TZ",
+  "TMPDIR",
+  "TMP",
+  "TEMP",
+  "NODE_ENV",
+  "HTTP_PROXY",
+  "HTTPS_PROXY",
+  "NO_PROXY",
+  "ANTHROPIC_API_KEY",
+  "ANTHROPIC_BASE_URL",
+  "CLAUDE_CODE_*",
+  // Windows
+  "SYSTEMROOT",
+  "COMSPEC",
+  "PATHEXT",
+  "USERPROFILE",
+  "APPDATA",
+  "LOCALAPPDATA",
+];
+
+// Names that suggest a credential; denied ones are listed in the startup warning
+const SENSITIVE_NAME = /KEY|TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIAL|AUTH|PRIVATE/i;
+
+/**
+ * Environment for one agent and the sensitive-looking variables it was denied
+ */
+export interface AgentEnv {
+  env: Record<string, string>;
+  denied: string[];
+}
+
+function matches(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => (pattern.endsWith("*") ? name.startsWith(pattern.slice(0, -1)) : name === pattern));
+}
+
+/**
+ * Build the environment passed to the agent subprocess for a profile
+ *
+ * @param profile - Agent profile (envAllow adds variables, secrets maps variable names to secret names)
+ * @param options - Source environment (default: process.env) and secret store (default: createSecretStore())
+ * @returns Filtered environment and the denied sensitive-looking variable names
+ * @throws Error when a secret named by the profile isn't in the store
+ */
+export function buildAgentEnv(
+  profile: AgentProfile,
+  options?: { source?: NodeJS.ProcessEnv; secrets?: SecretStore }
+): AgentEnv {
+  const source = options?.source ?? process.env;
+  const allowed = [...ENV_ALLOWLIST, ...profile.envAllow];
+  const env: Record<string, string> = {};
+  const denied: string[] = [];
+
+  for (const [name, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+    if (matches(name, allowed)) {
+      env[name] = value;
+    } else if (SENSITIVE_NAME.test(name)) {
+      denied.push(name);
+    }
+  }
+
+  const secretEntries = Object.entries(profile.secrets);
+  if (secretEntries.length > 0) {
+    const secrets = options?.secrets ?? createSecretStore();
+    for (const [name, secretName] of secretEntries) {
+      const value = secrets.get(secretName);
+      if (value === undefined) {
+        throw new Error(`Secret "${secretName}" for ${name} (profile "${profile.name}") is not in the secret store`);
+      }
+      env[name] = value;
+    }
+  }
+
+  return { env, denied: denied.filter((name) => !(name in env)).sort() };
+}
+
+let warned = false;
+
+/**
+ * Warn once per process about sensitive-looking variables kept from the agent (names only, never values)
+ */
+export function warnDeniedEnv(denied: string[]): void {
+  if (warned || denied.length === 0) return;
+  warned = true;
+  console.warn(
+    `[env-policy] Not passing ${denied.length} environment variable(s) to the agent: ${denied.join(", ")}. ` +
+      `Add them to a profile's "envAllow" or "secrets" to expose them.`
+  );
+}
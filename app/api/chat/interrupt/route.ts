@@ -0,0 +1,50 @@
+/**
+ * Interrupt API route that stops the agent turn currently streaming for a session.
+ *
+ * Input data sources: POST request with JSON body containing sessionId, session owners from /sessions/*.jsonl
+ * Output destinations: interrupt() of the run registered by /api/chat
+ * Dependencies: lib/run-registry, lib/auth, lib/session-reader
+ * Key exports: POST handler for /api/chat/interrupt endpoint
+ * Side effects: Interrupts a running agent turn
+ */
+
+import { NextRequest } from "next/server";
+import { interruptRun } from "@/lib/run-registry";
+import { getRequestUser, ownsSession } from "@/lib/auth";
+import { createSessionReader } from "@/lib/session-reader";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface InterruptRequestBody {
+  sessionId: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as InterruptRequestBody;
+
+    if (!body.sessionId) {
+      return new Response(
+        JSON.stringify({ error: "sessionId is required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const ownerId = createSessionReader().getSummary(body.sessionId)?.user_id;
+    if (!ownsSession(getRequestUser(req.headers), ownerId) || !(await interruptRun(body.sessionId))) {
+      return new Response(
+        JSON.stringify({ error: "No running turn for this session" }),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    return Response.json({ ok: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Permission decision API route that resumes a tool call paused by the /api/chat canUseTool bridge.
+ *
+ * Input data sources: POST request with JSON body containing requestId and decision, caller identity (lib/auth)
+ * Output destinations: Pending canUseTool promise in the streaming /api/chat request
+ * Dependencies: lib/permission-broker, lib/auth
+ * Key exports: POST handler for /api/chat/permission endpoint
+ * Side effects: Allows or denies a pending agent tool call, may remember always-allow for the session
+ */
+
+import { NextRequest } from "next/server";
+import { getPermissionOwner, resolvePermission, type PermissionDecision } from "@/lib/permission-broker";
+import { getRequestUser, ownsSession } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface PermissionRequestBody {
+  requestId: string;
+  decision: PermissionDecision;
+  message?: string;
+}
+
+const DECISIONS: PermissionDecision[] = ["allow", "deny", "always_allow"];
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as PermissionRequestBody;
+
+    if (!body.requestId || !DECISIONS.includes(body.decision)) {
+      return new Response(
+        JSON.stringify({ error: "requestId and a decision of allow, deny or always_allow are required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Requests of other users' chats look the same as missing ones
+    const owner = getPermissionOwner(body.requestId);
+    const owned = owner !== undefined && ownsSession(getRequestUser(req.headers), owner);
+    if (!owned || !resolvePermission(body.requestId, body.decision, body.message)) {
+      return new Response(
+        JSON.stringify({ error: "No pending permission request with this id" }),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    return Response.json({ ok: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Agent profile registry: named agent configurations loaded from profiles/*.json and validated with zod.
+ *
+ * Input data sources: /profiles/*.json files
+ * Output destinations: Used by config.ts (createAgentOptions), route.ts, agent CLIs and /api/profiles
+ * Dependencies: zod, Node.js fs module, path module, lib/command-policy
+ * Key exports: loadProfiles(), getProfile(), getWorkspaceTemplateDir(), DEFAULT_PROFILE, AgentProfile, agentProfileSchema
+ * Side effects: Reads profile files from disk
+ */
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { commandPolicySchema } from "@/lib/command-policy";
+
+/**
+ * Schema for a single profile file
+ */
+export const agentProfileSchema = z.object({
+  // Profile identifier used by ?profile=, --profile and the UI dropdown
+  name: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and dashes"),
+  description: z.string().default(""),
+  model: z.string().default("haiku"),
+  // Instructions placed before the <env> block of the system prompt
+  instructions: z.string().min(1),
+  allowedTools: z.array(z.string()),
+  disallowedTools: z.array(z.string()).default(["NotebookEdit", "Skill", "SlashCommand"]),
+  // Tools the web chat asks the user to approve (defaults to APPROVAL_REQUIRED_TOOLS in config.ts)
+  approvalRequiredTools: z.array(z.string()).optional(),
+  maxTurns: z.number().int().positive().default(50),
+  permissionMode: z.enum(["default", "acceptEdits", "bypassPermissions", "plan"]).default("default"),
+  // Folder (relative to the project root) copied into each new session workspace
+  workspaceTemplate: z.string().optional(),
+  // Extra environment variables passed through to the agent (on top of ENV_ALLOWLIST in env-policy.ts)
+  envAllow: z.array(z.string()).default([]),
+  // Environment variables set from the secret store: { "GITHUB_TOKEN": "<secret name>" }
+  secrets: z.record(z.string(), z.string()).default({}),
+  // Directories (absolute, or relative to the project root) file tools may read besides the workspace
+  readOnlyDirs: z.array(z.string()).default([]),
+  // Allow/deny rules for Bash commands, checked before each call (Bash then never runs unchecked)
+  bashPolicy: commandPolicySchema.optional(),
+});
+
+export type AgentProfile = z.infer<typeof agentProfileSchema>;
+
+/**
+ * Built-in profile used when no profile is selected (or profiles/ has no default.json)
+ */
+export const DEFAULT_PROFILE: AgentProfile = agentProfileSchema.parse({
+  name: "default",
+  description: "General-purpose assistant with file and shell tools",
+  instructions: "You are a helpful AI assistant. You can help with general questions and tasks.",
+  allowedTools: ["Read", "Write", "Edit", "Grep", "Glob", "Bash"],
+});
+
+const PROFILES_DIR = path.join(process.cwd(), "profiles");
+
+/**
+ * Load all profiles from the profiles directory.
+ *
+ * @param profilesDir - Directory containing *.json profile files (default: ./profiles)
+ * @returns Profiles keyed by name, always including "default"
+ * @throws Error naming the file when a profile fails validation or duplicates another name
+ */
+export function loadProfiles(profilesDir: string = PROFILES_DIR): Record<string, AgentProfile> {
+  const profiles: Record<string, AgentProfile> = { default: DEFAULT_PROFILE };
+  if (!fs.existsSync(profilesDir)) return profiles;
+
+  const seen = new Set<string>();
+  for (const file of fs.readdirSync(profilesDir).sort()) {
+    if (!file.endsWith(".json")) continue;
+
+    const raw = JSON.parse(fs.readFileSync(path.join(profilesDir, file), "utf-8"));
+    const result = agentProfileSchema.safeParse(raw);
+    if (!result.success) {
+      throw new Error(`Invalid profile ${file}:\n${z.prettifyError(result.error)}`);
+    }
+    if (seen.has(result.data.name)) {
+      throw new Error(`Duplicate profile name "${result.data.name}" in ${file}`);
+    }
+
+    seen.add(result.data.name);
+    profiles[result.data.name] = result.data;
+  }
+  return profiles;
+}
+
+/**
+ * Absolute path of a profile's workspace template folder, if it has one
+ */
+export function getWorkspaceTemplateDir(profile: AgentProfile): string | undefined {
+  return profile.workspaceTemplate ? path.resolve(process.cwd(), profile.workspaceTemplate) : undefined;
+}
+
+/**
+ * Look up a profile by name.
+ *
+ * @param name - Profile name (default: "default")
+ * @returns The profile, or null if no profile has this name
+ */
+export function getProfile(name: string = "default"): AgentProfile | null {
+  return loadProfiles()[name] ?? null;
+}
@@ -1,17 +1,35 @@
 /**
  * Streaming Claude Agent API route handler that processes chat messages using streaming input mode.
  *
- * Input data sources: POST request with JSON body containing messages
- * Output destinations: Streaming response to client, /sessions/*.jsonl (session logs)
- * Dependencies: @anthropic-ai/claude-agent-sdk, ANTHROPIC_API_KEY environment variable
+ * Input data sources: POST request with JSON body containing messages, optional profile name and optional fork point,
+ *   /sessions/*.jsonl (fork points, spend, owners), /sessions/budgets.json (budget limits), caller identity (lib/auth)
+ * Output destinations: Streaming response to client (SDK messages, delta events, permission_request events), /sessions/*.jsonl (session logs),
+ *   trace exporters (TRACE_EXPORTERS)
+ * Dependencies: @anthropic-ai/claude-agent-sdk (via lib/agent-transport), lib/permission-broker, lib/stream-events, lib/run-registry, lib/workspaces, lib/budgets,
+ *   lib/command-policy, lib/path-guard, lib/auth, lib/rate-limit, lib/agent-tracer, ANTHROPIC_API_KEY environment variable
  * Key exports: POST handler for /api/chat endpoint
- * Side effects: Makes API calls to Claude, executes agent tools, creates session log files
+ * Side effects: Makes API calls to Claude, executes agent tools, creates session log files, registers the run for /api/chat/interrupt,
+ *   creates per-session workspaces under /workspaces and deletes expired ones
  */
 
-import { query, type SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
 import { NextRequest } from "next/server";
-import { agentOptions } from "./config";
+import { createAgentOptions, getApprovalRequiredTools, getCommandPolicy, getPathGuard } from "./config";
+import { getProfile, getWorkspaceTemplateDir } from "./profiles";
 import { createSessionLogger } from "@/lib/session-logger";
+import { createPermissionBridge } from "@/lib/permission-broker";
+import { toDeltaEvent } from "@/lib/stream-events";
+import { registerRun } from "@/lib/run-registry";
+import { createWorkspaceManager } from "@/lib/workspaces";
+import { createSessionReader } from "@/lib/session-reader";
+import { budgetExceededMessage, createBudgetManager } from "@/lib/budgets";
+import { withCommandPolicy } from "@/lib/command-policy";
+import { pathGuardHooks } from "@/lib/path-guard";
+import { getRequestUser, ownsSession } from "@/lib/auth";
+import { takeRateLimit } from "@/lib/rate-limit";
+import { getQueryFn } from "@/lib/agent-transport";
+import { createAgentTracer } from "@/lib/agent-tracer";
+import { getTraceExporters } from "@/lib/trace-exporters";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -22,6 +40,12 @@ interface ChatRequestBody {
     content: string;
   }>;
   sessionId?: string;
+  profile?: string;
+  // Start a new session branched from a logged session, keeping its history up to and including this exchange
+  fork?: {
+    sessionId: string;
+    exchange: number;
+  };
 }
 
 export async function POST(req: NextRequest) {
@@ -35,12 +59,123 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Each user gets RATE_LIMIT_PER_MINUTE turns per minute (or their own limit from the auth file)
+    const user = getRequestUser(req.headers);
+    const rateLimit = takeRateLimit(user?.id ?? "anonymous", user?.rateLimitPerMinute);
+    if (!rateLimit.allowed) {
+      return new Response(
+        JSON.stringify({
+          error: `Rate limit of ${rateLimit.limit} requests per minute reached; retry in ${rateLimit.retryAfterSeconds}s`,
+        }),
+        {
+          status: 429,
+          headers: { "Content-Type": "application/json", "Retry-After": String(rateLimit.retryAfterSeconds) },
+        }
+      );
+    }
+
+    const profile = getProfile(body.profile || "default");
+    if (!profile) {
+      return new Response(
+        JSON.stringify({ error: `Unknown profile: ${body.profile}` }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (body.fork && body.sessionId) {
+      return new Response(
+        JSON.stringify({ error: "sessionId and fork cannot be combined" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Only the owner may resume or fork a session; other users' sessions look the same as missing ones
+    const reader = createSessionReader();
+    const targetSessionId = body.fork?.sessionId ?? body.sessionId;
+    if (targetSessionId && !ownsSession(user, reader.getSummary(targetSessionId)?.user_id)) {
+      return new Response(
+        JSON.stringify({ error: `Session not found: ${targetSessionId}` }),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const forkPoint = body.fork ? reader.getForkPoint(body.fork.sessionId, body.fork.exchange) : null;
+    if (body.fork && !forkPoint) {
+      return new Response(
+        JSON.stringify({ error: `Cannot fork session ${body.fork.sessionId} at exchange ${body.fork.exchange}` }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Refuse the turn when a budget is used up; the SDK stops a turn that would spend past the USD headroom
+    // A fork's session limit covers its parents' spend too (its first turn has no session of its own yet)
+    const budget = createBudgetManager().check({
+      sessionId: body.sessionId ?? forkPoint?.session_id,
+      profile: profile.name,
+    });
+    if (budget.exceeded.length > 0) {
+      const event = { type: "error", code: "budget_exceeded", error: budgetExceededMessage(budget), budgets: budget.exceeded };
+      return new Response(JSON.stringify(event) + "\n", {
+        headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" },
+      });
+    }
+
+    // Each session runs in its own workspace; resume lands in the session's existing one.
+    // A fork runs in a copy of its parent's workspace, so the parent's files stay as they were.
+    const workspaces = createWorkspaceManager();
+    workspaces.cleanupExpired();
+    const workspace =
+      (forkPoint && workspaces.forkWorkspace(forkPoint.session_id)) ||
+      workspaces.resolveWorkspace({ sessionId: body.sessionId, templateDir: getWorkspaceTemplateDir(profile) });
+
+    const agentOptions = createAgentOptions(profile, workspace);
+    const commandPolicy = getCommandPolicy(profile, workspace);
+    const pathGuard = getPathGuard(profile, workspace);
+    const approvalRequiredTools = getApprovalRequiredTools(profile);
+
+    // Aborted when the client disconnects or the stream is cancelled
+    const abortController = new AbortController();
+
     // Create a streaming response
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
       async start(controller) {
         // Initialize session logger
-        const logger = createSessionLogger();
+        const logger = createSessionLogger({
+          profile: profile.name,
+          workspace,
+          ...(user && { userId: user.id }),
+          ...(forkPoint && { parentSessionId: forkPoint.session_id, forkedFromExchange: forkPoint.exchange }),
+        });
+        // Spans per exchange, model turn and tool call for the exporters in TRACE_EXPORTERS
+        const tracer = createAgentTracer({
+          exporters: getTraceExporters(),
+          profile: profile.name,
+          workspace,
+          ...(user && { userId: user.id }),
+        });
+
+        // Enqueue one NDJSON line (ignored once the client has disconnected)
+        const send = (data: unknown) => {
+          if (abortController.signal.aborted) return;
+          controller.enqueue(encoder.encode(JSON.stringify(data) + "\n"));
+        };
+
+        // Bridge tool permission prompts to the client (answered via /api/chat/permission)
+        const permissions = createPermissionBridge({ emit: send, userId: user?.id ?? null });
+        if (body.sessionId) {
+          permissions.setSessionId(body.sessionId);
+        }
+
+        // A closed HTTP connection stops the query loop
+        const onClientAbort = () => {
+          logger.markInterrupted();
+          tracer.markInterrupted();
+          abortController.abort();
+        };
+        req.signal.addEventListener("abort", onClientAbort, { once: true });
+
+        let unregisterRun = () => {};
 
         try {
           // Async generator for streaming input mode
@@ -50,6 +185,7 @@ export async function POST(req: NextRequest) {
               if (msg.role === "user") {
                 // Log user input BEFORE yielding
                 logger.logUserInput(msg.content);
+                tracer.logUserInput(msg.content);
 
                 yield {
                   type: "user" as const,
@@ -64,23 +200,68 @@ export async function POST(req: NextRequest) {
             }
           }
 
-          // Build options with optional session resume
+          // Build options with optional session resume (or fork).
+          // Approval-required tools are left out of allowedTools so they go through canUseTool.
+          // Bash commands are checked against the profile's policy first; only undecided ones prompt the user.
           const options = {
             ...agentOptions,
+            allowedTools: agentOptions.allowedTools?.filter(
+              (tool) => !approvalRequiredTools.includes(tool)
+            ),
+            canUseTool: withCommandPolicy(commandPolicy, {
+              fallback: permissions.canUseTool,
+              onDecision: logger.logPolicyDecision,
+            }),
+            // File tools stay inside the workspace (and the profile's read-only directories)
+            hooks: pathGuardHooks(pathGuard, logger.logPathViolation),
+            abortController,
+            ...(budget.remainingUsd !== null && { maxBudgetUsd: budget.remainingUsd }),
             ...(body.sessionId && { resume: body.sessionId }),
+            ...(forkPoint && {
+              resume: forkPoint.session_id,
+              forkSession: true,
+              resumeSessionAt: forkPoint.assistant_message_id,
+            }),
           };
 
-          // Stream Claude Agent responses
-          for await (const message of query({
+          const run = getQueryFn()({
             prompt: generateMessages(),
             options,
-          })) {
+          });
+
+          // Interrupt via /api/chat/interrupt: the SDK ends the turn with a result message
+          const interrupt = async () => {
+            logger.markInterrupted();
+            tracer.markInterrupted();
+            permissions.cancelPending();
+            await run.interrupt();
+          };
+
+          // Stream Claude Agent responses
+          for await (const message of run) {
             // Log every message
             logger.log(message);
+            tracer.log(message);
+
+            // Key always-allow decisions and interrupts by the SDK session_id
+            if (message.type === "system" && message.subtype === "init") {
+              workspaces.bindSession(message.session_id, workspace);
+              permissions.setSessionId(message.session_id);
+              unregisterRun();
+              unregisterRun = registerRun(message.session_id, { interrupt });
+            }
+
+            // Forward partial messages as compact delta events (or drop them)
+            if (message.type === "stream_event") {
+              const delta = toDeltaEvent(message);
+              if (delta) {
+                send(delta);
+              }
+              continue;
+            }
 
             // Stream different message types back to client
-            const chunk = JSON.stringify(message) + "\n";
-            controller.enqueue(encoder.encode(chunk));
+            send(message);
 
             // Complete on result message
             if (message.type === "result") {
@@ -89,24 +270,32 @@ export async function POST(req: NextRequest) {
           }
 
           // Close logger
+          permissions.cancelPending();
           logger.close();
-          controller.close();
+          void tracer.close();
         } catch (error) {
           // Always close logger on error
+          permissions.cancelPending();
           logger.close();
+          void tracer.close();
 
           const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-          controller.enqueue(
-            encoder.encode(
-              JSON.stringify({
-                type: "error",
-                error: errorMessage,
-              }) + "\n"
-            )
-          );
-          controller.close();
+          send({
+            type: "error",
+            error: errorMessage,
+          });
+        } finally {
+          unregisterRun();
+          req.signal.removeEventListener("abort", onClientAbort);
+          if (!abortController.signal.aborted) {
+            controller.close();
+          }
         }
       },
+      cancel() {
+        // Reader cancelled (client went away): stop the agent
+        abortController.abort();
+      },
     });
 
     return new Response(stream, {
@@ -0,0 +1,32 @@
+/**
+ * Profile list API route that returns the available agent profiles for the chat UI dropdown.
+ *
+ * Input data sources: /profiles/*.json (via app/api/chat/profiles)
+ * Output destinations: JSON response to client
+ * Dependencies: app/api/chat/profiles
+ * Key exports: GET handler for /api/profiles endpoint
+ * Side effects: Reads profile files
+ */
+
+import { loadProfiles } from "@/app/api/chat/profiles";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const profiles = Object.values(loadProfiles()).map((profile) => ({
+      name: profile.name,
+      description: profile.description,
+      model: profile.model,
+      allowedTools: profile.allowedTools,
+    }));
+    return Response.json({ profiles });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Session detail API route that returns one logged session with its exchanges arranged as a timeline.
+ *
+ * Input data sources: /sessions/*.jsonl (session logs), session_id from URL, caller identity (lib/auth)
+ * Output destinations: JSON response to client
+ * Dependencies: lib/session-reader, lib/auth
+ * Key exports: GET handler for /api/sessions/[id] endpoint
+ * Side effects: Reads session log files
+ */
+
+import { NextRequest } from "next/server";
+import { createSessionReader } from "@/lib/session-reader";
+import { getRequestUser, ownsSession } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = createSessionReader().getSession(id);
+
+    // Other users' sessions look the same as missing ones
+    if (!session || !ownsSession(getRequestUser(req.headers), session.user_id)) {
+      return new Response(
+        JSON.stringify({ error: "Session not found" }),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    return Response.json({ session });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
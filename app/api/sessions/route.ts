@@ -0,0 +1,30 @@
+/**
+ * Session list API route that returns summaries of the logged agent sessions owned by the caller.
+ *
+ * Input data sources: /sessions/*.jsonl (session logs), caller identity (lib/auth)
+ * Output destinations: JSON response to client
+ * Dependencies: lib/session-reader, lib/auth
+ * Key exports: GET handler for /api/sessions endpoint
+ * Side effects: Reads session log files
+ */
+
+import { NextRequest } from "next/server";
+import { createSessionReader } from "@/lib/session-reader";
+import { getRequestUser, ownsSession } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  try {
+    const reader = createSessionReader();
+    const user = getRequestUser(req.headers);
+    return Response.json({ sessions: reader.listSessions().filter((session) => ownsSession(user, session.user_id)) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
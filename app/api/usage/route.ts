@@ -0,0 +1,32 @@
+/**
+ * Usage report API route that aggregates cost, tokens, per-model usage and per-tool counts across the caller's
+ * session logs (every session log for admins).
+ *
+ * Input data sources: /sessions/*.jsonl (session logs), caller identity (lib/auth)
+ * Output destinations: JSON response to client
+ * Dependencies: lib/session-reader, lib/auth
+ * Key exports: GET handler for /api/usage endpoint
+ * Side effects: Reads session log files
+ */
+
+import { NextRequest } from "next/server";
+import { createSessionReader } from "@/lib/session-reader";
+import { getRequestUser, isAdmin } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  try {
+    const reader = createSessionReader();
+    const user = getRequestUser(req.headers);
+    // Non-admins only see their own sessions (sessions logged without a user_id count for admins only)
+    return Response.json(reader.getUsageReport(isAdmin(user) ? undefined : { userId: user?.id ?? "" }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
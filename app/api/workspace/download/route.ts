@@ -0,0 +1,49 @@
+/**
+ * Workspace download API route that streams one file from a session's agent workspace as an attachment.
+ *
+ * Input data sources: sessionId and path query parameters, session workspace directory
+ * Output destinations: File download response to client
+ * Dependencies: lib/workspace-files, lib/auth
+ * Key exports: GET handler for /api/workspace/download endpoint
+ * Side effects: Reads a workspace file
+ */
+
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { NextRequest } from "next/server";
+import { openSessionWorkspace } from "@/lib/workspace-files";
+import { getRequestUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  try {
+    const files = openSessionWorkspace(req.nextUrl.searchParams.get("sessionId"), getRequestUser(req.headers));
+    const filePath = req.nextUrl.searchParams.get("path");
+    const absolute = files && filePath ? files.resolvePath(filePath) : null;
+
+    if (!absolute || !fs.existsSync(absolute) || !fs.statSync(absolute).isFile()) {
+      return new Response(
+        JSON.stringify({ error: "File not found in workspace" }),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const stream = Readable.toWeb(fs.createReadStream(absolute)) as ReadableStream;
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Length": String(fs.statSync(absolute).size),
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(path.basename(absolute))}`,
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
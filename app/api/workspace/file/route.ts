@@ -0,0 +1,46 @@
+/**
+ * Workspace file API route that returns a text preview of one file in a session's agent workspace.
+ *
+ * Input data sources: sessionId and path query parameters, session workspace directory
+ * Output destinations: JSON response to client
+ * Dependencies: lib/workspace-files, lib/auth
+ * Key exports: GET handler for /api/workspace/file endpoint
+ * Side effects: Reads a workspace file
+ */
+
+import { NextRequest } from "next/server";
+import { openSessionWorkspace } from "@/lib/workspace-files";
+import { getRequestUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  try {
+    const files = openSessionWorkspace(req.nextUrl.searchParams.get("sessionId"), getRequestUser(req.headers));
+    const filePath = req.nextUrl.searchParams.get("path");
+
+    if (!files || !filePath) {
+      return new Response(
+        JSON.stringify({ error: "sessionId with a workspace and path are required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const file = files.readFile(filePath);
+    if (!file) {
+      return new Response(
+        JSON.stringify({ error: "File not found in workspace" }),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    return Response.json({ file });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Workspace tree API route that lists the files in a session's agent workspace.
+ *
+ * Input data sources: sessionId query parameter, session workspace directory
+ * Output destinations: JSON response to client
+ * Dependencies: lib/workspace-files, lib/auth
+ * Key exports: GET handler for /api/workspace/tree endpoint
+ * Side effects: Reads the workspace directory
+ */
+
+import { NextRequest } from "next/server";
+import { openSessionWorkspace } from "@/lib/workspace-files";
+import { getRequestUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  try {
+    const files = openSessionWorkspace(req.nextUrl.searchParams.get("sessionId"), getRequestUser(req.headers));
+    if (!files) {
+      return new Response(
+        JSON.stringify({ error: "No workspace for this session" }),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    return Response.json({ root: files.root, ...files.listTree() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Workspace upload API route that saves files into a session's agent workspace.
+ *
+ * Input data sources: multipart/form-data POST with sessionId, optional dir, and one or more file fields
+ * Output destinations: Files in the session workspace directory, JSON response to client
+ * Dependencies: lib/workspace-files, lib/auth
+ * Key exports: POST handler for /api/workspace/upload endpoint
+ * Side effects: Writes files into the workspace
+ */
+
+import { NextRequest } from "next/server";
+import { openSessionWorkspace } from "@/lib/workspace-files";
+import { getRequestUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export async function POST(req: NextRequest) {
+  try {
+    const form = await req.formData();
+    const files = openSessionWorkspace(form.get("sessionId") as string | null, getRequestUser(req.headers));
+    const dir = (form.get("dir") as string | null) || "";
+    const uploads = form.getAll("file").filter((value): value is File => value instanceof File);
+
+    if (!files || uploads.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "sessionId with a workspace and at least one file are required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const written: string[] = [];
+    for (const upload of uploads) {
+      if (upload.size > MAX_UPLOAD_BYTES) {
+        return new Response(
+          JSON.stringify({ error: `${upload.name} exceeds the ${MAX_UPLOAD_BYTES / 1024 / 1024} MB limit` }),
+          { status: 413, headers: { "Content-Type": "application/json" } }
+        );
+      }
+
+      const target = files.writeFile(dir, upload.name, Buffer.from(await upload.arrayBuffer()));
+      if (!target) {
+        return new Response(
+          JSON.stringify({ error: `Invalid upload path for ${upload.name}` }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      written.push(target);
+    }
+
+    return Response.json({ written });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
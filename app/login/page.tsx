@@ -0,0 +1,21 @@
+/**
+ * Login page where users sign in with their username and password before using the chat.
+ *
+ * Input data sources: next query parameter (page to return to, set by proxy.ts)
+ * Output destinations: Browser UI
+ * Dependencies: LoginForm component, Next.js App Router
+ * Key exports: Default login page component
+ * Side effects: None (delegated to LoginForm)
+ */
+
+import { LoginForm } from "@/components/login-form";
+
+export default async function LoginPage({ searchParams }: { searchParams: Promise<{ next?: string }> }) {
+  const { next } = await searchParams;
+
+  return (
+    <main className="h-screen flex items-center justify-center p-4 bg-gradient-to-br from-blue-50 to-purple-50 dark:from-gray-900 dark:to-gray-800">
+      <LoginForm next={next} />
+    </main>
+  );
+}
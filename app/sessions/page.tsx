@@ -0,0 +1,19 @@
+/**
+ * Sessions page that renders the session browser and replay viewer for logged agent sessions.
+ *
+ * Input data sources: User interaction via SessionBrowser component
+ * Output destinations: Browser UI
+ * Dependencies: SessionBrowser component, Next.js App Router
+ * Key exports: Default sessions page component
+ * Side effects: None (delegated to SessionBrowser)
+ */
+
+import { SessionBrowser } from "@/components/session-browser";
+
+export default function SessionsPage() {
+  return (
+    <main className="h-screen flex p-4 bg-gradient-to-br from-blue-50 to-purple-50 dark:from-gray-900 dark:to-gray-800">
+      <SessionBrowser />
+    </main>
+  );
+}
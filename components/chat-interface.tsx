@@ -1,26 +1,70 @@
 /**
  * Main chat interface component with NDJSON streaming support for Claude Agent SDK.
  *
- * Input data sources: User text input from form
- * Output destinations: /api/chat endpoint via POST, rendered messages in UI
- * Dependencies: /api/chat route, shadcn/ui components
+ * Input data sources: User text input from form, agent profiles from /api/profiles, logged sessions from /api/sessions/[id],
+ *   ?fork=<session>&at=<exchange> URL parameters (branch links from the session browser), signed-in user from /api/auth/me
+ * Output destinations: /api/chat, /api/chat/permission, /api/chat/interrupt and /api/auth/logout endpoints via POST,
+ *   rendered messages in UI
+ * Dependencies: /api/chat routes, lib/chat-model reducer, shadcn/ui components, ChatMessage, PermissionDialog,
+ *   SessionSidebar, UsageMeter and WorkspacePanel components
  * Key exports: ChatInterface component
- * Side effects: Makes streaming API calls to /api/chat
+ * Side effects: Makes streaming API calls to /api/chat, answers tool permission prompts, interrupts running turns,
+ *   stores the open session_id in localStorage
  */
 
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useReducer } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ChatMessage } from "@/components/chat-message";
-import { Send, Bug } from "lucide-react";
+import { PermissionDialog } from "@/components/permission-dialog";
+import { SessionSidebar } from "@/components/session-sidebar";
+import { WorkspacePanel } from "@/components/workspace-panel";
+import { UsageMeter } from "@/components/usage-meter";
+import { chatReducer, initialChatState, type ChatAction } from "@/lib/chat-model";
+import { isFileEditTool } from "@/lib/diff";
+import { readNdjson } from "@/lib/ndjson";
+import type { PermissionDecision, PermissionRequestEvent } from "@/lib/permission-broker";
+import type { SessionDetail } from "@/lib/session-reader";
+import { Send, Bug, Square, FolderTree, GitBranch, LogOut } from "lucide-react";
 
-interface Message {
-  role: "user" | "assistant";
-  content: string;
+// Token-level event types sent by /api/chat (see lib/stream-events)
+const DELTA_EVENT_TYPES = ["text_delta", "thinking_delta", "tool_use_start", "tool_input_delta"];
+
+// localStorage key holding the session_id to reopen after a page refresh
+const ACTIVE_SESSION_KEY = "claude-agent-chat:active-session";
+
+/**
+ * Fetch a logged session (exchanges rebuilt from ./sessions) to reopen in the chat
+ */
+async function fetchSession(sessionId: string): Promise<SessionDetail> {
+  const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}`);
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  const data = await response.json();
+  return data.session;
+}
+
+/**
+ * Reducer action that opens a logged session, including exchanges inherited from the session it was forked from
+ */
+function loadAction(session: SessionDetail): ChatAction {
+  return {
+    type: "load",
+    sessionId: session.session_id,
+    cwd: session.workspace ?? session.cwd,
+    exchanges: [...session.inherited_exchanges, ...session.exchanges],
+  };
+}
+
+interface ProfileOption {
+  name: string;
+  description: string;
+  model: string;
 }
 
 interface DebugMessage {
@@ -29,17 +73,86 @@ interface DebugMessage {
 }
 
 export function ChatInterface() {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [chat, dispatch] = useReducer(chatReducer, initialChatState);
   const [input, setInput] = useState("");
   const [isStreaming, setIsStreaming] = useState(false);
-  const [streamingContent, setStreamingContent] = useState("");
   const [showDebug, setShowDebug] = useState(false);
   const [debugMessages, setDebugMessages] = useState<DebugMessage[]>([]);
   const [sentMessages, setSentMessages] = useState<string>("");
-  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [permissionRequests, setPermissionRequests] = useState<PermissionRequestEvent[]>([]);
+  const [isAnsweringPermission, setIsAnsweringPermission] = useState(false);
+  const [profiles, setProfiles] = useState<ProfileOption[]>([]);
+  const [profile, setProfile] = useState("default");
+  const [userId, setUserId] = useState<string | null>(null);
+  const [showFiles, setShowFiles] = useState(false);
+  const [filesRefreshKey, setFilesRefreshKey] = useState(0);
+  const [openFileRequest, setOpenFileRequest] = useState<{ path: string; key: number } | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const stopRequestedRef = useRef(false);
   const debugScrollRef = useRef<HTMLDivElement>(null);
 
+  const { messages, sessionId, cwd } = chat;
+
+  // Files written by the latest exchange, highlighted in the workspace panel
+  const lastMessage = messages[messages.length - 1];
+  const touchedFiles =
+    lastMessage?.role === "assistant"
+      ? lastMessage.blocks.flatMap((block) =>
+          block.kind === "tool_use" && isFileEditTool(block.name) && block.input.file_path
+            ? [String(block.input.file_path)]
+            : []
+        )
+      : [];
+
+  // Load available agent profiles for the dropdown
+  useEffect(() => {
+    fetch("/api/profiles")
+      .then((response) => (response.ok ? response.json() : { profiles: [] }))
+      .then((data) => setProfiles(data.profiles))
+      .catch((error) => console.error("Failed to load profiles:", error));
+  }, []);
+
+  // Show who is signed in (nobody when auth is disabled)
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((response) => (response.ok ? response.json() : { user: null }))
+      .then((data) => setUserId(data.user?.id ?? null))
+      .catch((error) => console.error("Failed to load user:", error));
+  }, []);
+
+  const handleLogout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    window.location.href = "/login";
+  };
+
+  // Open a branch requested via ?fork=&at=, else reopen the session that was open before a page refresh
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const forkId = params.get("fork");
+    const forkAt = Number(params.get("at"));
+    const storedId = forkId ?? localStorage.getItem(ACTIVE_SESSION_KEY);
+    if (!storedId) return;
+
+    fetchSession(storedId)
+      .then((session) => {
+        dispatch(loadAction(session));
+        if (forkId && Number.isInteger(forkAt) && forkAt > 0) {
+          dispatch({ type: "fork", exchange: forkAt });
+        }
+        if (session.profile) setProfile(session.profile);
+      })
+      .catch((error) => {
+        console.error("Failed to restore session:", error);
+        if (!forkId) localStorage.removeItem(ACTIVE_SESSION_KEY);
+      });
+  }, []);
+
+  // Remember the open session
+  useEffect(() => {
+    if (sessionId) localStorage.setItem(ACTIVE_SESSION_KEY, sessionId);
+  }, [sessionId]);
+
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     if (scrollRef.current) {
@@ -49,7 +162,7 @@ export function ChatInterface() {
         viewport.scrollTop = viewport.scrollHeight;
       }
     }
-  }, [messages, streamingContent]);
+  }, [messages]);
 
   // Auto-scroll debug view
   useEffect(() => {
@@ -62,6 +175,85 @@ export function ChatInterface() {
     }
   }, [debugMessages]);
 
+  // Answer the oldest pending tool permission request
+  const handlePermissionDecision = async (decision: PermissionDecision) => {
+    const request = permissionRequests[0];
+    if (!request) return;
+
+    setIsAnsweringPermission(true);
+    try {
+      const response = await fetch("/api/chat/permission", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ requestId: request.request_id, decision }),
+      });
+      if (!response.ok) {
+        console.error("Permission answer failed:", response.status);
+      }
+    } catch (error) {
+      console.error("Permission answer error:", error);
+    } finally {
+      setPermissionRequests((prev) => prev.filter((r) => r.request_id !== request.request_id));
+      setIsAnsweringPermission(false);
+    }
+  };
+
+  // Reopen a logged session; the next message continues it via its stored sessionId
+  const handleSelectSession = async (selectedId: string) => {
+    if (isStreaming || selectedId === sessionId) return;
+    try {
+      const session = await fetchSession(selectedId);
+      dispatch(loadAction(session));
+      if (session.profile) setProfile(session.profile);
+      setDebugMessages([]);
+      setSentMessages("");
+      setOpenFileRequest(null);
+    } catch (error) {
+      console.error("Failed to open session:", error);
+    }
+  };
+
+  const handleNewChat = () => {
+    dispatch({ type: "reset" });
+    localStorage.removeItem(ACTIVE_SESSION_KEY);
+    setDebugMessages([]);
+    setSentMessages("");
+    setOpenFileRequest(null);
+  };
+
+  // Branch after an exchange: the transcript is cut there and the next message starts a forked session
+  const handleBranch = (exchange: number) => {
+    dispatch({ type: "fork", exchange });
+    setOpenFileRequest(null);
+  };
+
+  // Show a file linked from an assistant message in the workspace panel
+  const handleOpenFile = (relativePath: string) => {
+    setShowFiles(true);
+    setOpenFileRequest({ path: relativePath, key: Date.now() });
+  };
+
+  // Stop the running turn: interrupt via the session if known, else drop the connection
+  const handleStop = async () => {
+    stopRequestedRef.current = true;
+
+    if (sessionId) {
+      try {
+        const response = await fetch("/api/chat/interrupt", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ sessionId }),
+        });
+        // The turn ends with a normal result message
+        if (response.ok) return;
+      } catch (error) {
+        console.error("Interrupt error:", error);
+      }
+    }
+
+    abortRef.current?.abort();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isStreaming) return;
@@ -69,19 +261,23 @@ export function ChatInterface() {
     const userMessage = input.trim();
     setInput("");
 
-    // Add user message to chat
-    const newMessages = [...messages, { role: "user" as const, content: userMessage }];
-    setMessages(newMessages);
+    // Add user message and an empty assistant message to stream into
+    dispatch({ type: "submit", text: userMessage });
     setIsStreaming(true);
-    setStreamingContent("");
     setDebugMessages([]); // Clear previous debug messages
 
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    stopRequestedRef.current = false;
+    let streamError: string | undefined;
+
     try {
       // Send only the latest user message to API
-      // Include sessionId if we have one (for session continuity)
+      // Include sessionId if we have one (for session continuity), or the fork point when branching
       const requestBody = {
         messages: [{ role: "user" as const, content: userMessage }],
-        ...(sessionId && { sessionId }),
+        profile,
+        ...(chat.fork ? { fork: chat.fork } : sessionId && { sessionId }),
       };
       setSentMessages(JSON.stringify(requestBody, null, 2));
 
@@ -89,99 +285,65 @@ export function ChatInterface() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(requestBody),
+        signal: abortController.signal,
       });
 
+      // Session cookie expired: sign in again and come back
+      if (response.status === 401) {
+        window.location.href = `/login?next=${encodeURIComponent("/chat")}`;
+        return;
+      }
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        const detail = await response.json().catch(() => null);
+        throw new Error(detail?.error || `HTTP error! status: ${response.status}`);
       }
+      if (!response.body) throw new Error("No response body");
 
       // Parse NDJSON stream
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error("No response body");
-
-      const decoder = new TextDecoder();
-      let buffer = "";
-      let assistantContent = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || ""; // Keep incomplete line in buffer
-
-        for (const line of lines) {
-          if (!line.trim()) continue;
+      await readNdjson(
+        response.body,
+        (message) => {
+          dispatch({ type: "event", event: message, receivedAt: Date.now() });
 
-          try {
-            const message = JSON.parse(line);
+          // Token-level deltas are kept out of the debug view to avoid one entry per token
+          if (DELTA_EVENT_TYPES.includes(String(message.type))) return;
+          setDebugMessages((prev) => [...prev, { timestamp: new Date().toISOString(), data: message }]);
 
-            // Add to debug view
-            setDebugMessages(prev => [...prev, { timestamp: new Date().toISOString(), data: message }]);
-
-            // Extract session ID from first system message
-            if (message.type === "system" && message.subtype === "init" && !sessionId) {
-              setSessionId(message.session_id);
-            }
-
-            // Handle different message types from SDK
-            if (message.type === "assistant") {
-              // Extract text content from assistant messages
-              if (message.message?.content) {
-                const content = message.message.content;
-                if (Array.isArray(content)) {
-                  // Handle content blocks
-                  for (const block of content) {
-                    if (block.type === "text" && block.text) {
-                      assistantContent += block.text;
-                      setStreamingContent(assistantContent);
-                    } else if (block.type === "tool_use") {
-                      // Show tool usage indicator
-                      assistantContent += `\n[Using tool: ${block.name}]\n`;
-                      setStreamingContent(assistantContent);
-                    }
-                  }
-                } else if (typeof content === "string") {
-                  assistantContent += content;
-                  setStreamingContent(assistantContent);
-                }
-              }
-            } else if (message.type === "result") {
-              // Stream completed
-              if (assistantContent) {
-                setMessages([...newMessages, { role: "assistant", content: assistantContent }]);
-              } else if (message.content) {
-                // Fallback to result content if no assistant content
-                setMessages([...newMessages, { role: "assistant", content: message.content }]);
-              }
-              setStreamingContent("");
-              break;
-            } else if (message.type === "error") {
-              throw new Error(message.error || "Unknown error occurred");
-            }
-          } catch (parseError) {
-            console.error("Failed to parse message:", line, parseError);
+          if (message.type === "permission_request") {
+            // Tool call is paused until the user answers
+            setPermissionRequests((prev) => [...prev, message as unknown as PermissionRequestEvent]);
           }
-        }
-      }
-    } catch (error) {
-      console.error("Chat error:", error);
-      setMessages([
-        ...newMessages,
-        {
-          role: "assistant",
-          content: `Error: ${error instanceof Error ? error.message : "Failed to get response"}`,
+          // Stream is complete after the result message
+          return message.type !== "result";
         },
-      ]);
+        (line, parseError) => console.error("Failed to parse message:", line, parseError)
+      );
+    } catch (error) {
+      // Connection dropped by Stop: keep what was streamed so far
+      if (!stopRequestedRef.current) {
+        console.error("Chat error:", error);
+        streamError = error instanceof Error ? error.message : "Failed to get response";
+      }
     } finally {
+      dispatch({ type: "stream_end", interrupted: stopRequestedRef.current, error: streamError });
       setIsStreaming(false);
-      setStreamingContent("");
+      setFilesRefreshKey((key) => key + 1);
+      setPermissionRequests([]);
+      abortRef.current = null;
     }
   };
 
   return (
     <div className="flex gap-4 w-full max-w-7xl mx-auto h-full">
+      {/* Session Sidebar */}
+      <SessionSidebar
+        activeSessionId={sessionId}
+        refreshKey={filesRefreshKey}
+        disabled={isStreaming}
+        onSelect={handleSelectSession}
+        onNewChat={handleNewChat}
+      />
+
       <Card className="flex flex-col h-full flex-1 overflow-hidden">
         {/* Header */}
         <div className="border-b p-4 flex items-center justify-between shrink-0">
@@ -189,14 +351,45 @@ export function ChatInterface() {
             <h2 className="text-xl font-semibold">Claude Agent Chat</h2>
             <p className="text-sm text-gray-500">Powered by Claude Agent SDK</p>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setShowDebug(!showDebug)}
-          >
-            <Bug className="h-4 w-4 mr-2" />
-            {showDebug ? "Hide" : "Show"} Debug
-          </Button>
+          <div className="flex items-center gap-2">
+            <UsageMeter messages={messages} contextTokens={chat.contextTokens} />
+            <select
+              value={profile}
+              onChange={(e) => setProfile(e.target.value)}
+              disabled={isStreaming || profiles.length === 0}
+              title={profiles.find((p) => p.name === profile)?.description}
+              className="h-8 rounded-md border bg-background px-2 text-sm"
+            >
+              {profiles.length === 0 && <option value="default">default</option>}
+              {profiles.map((p) => (
+                <option key={p.name} value={p.name}>
+                  {p.name} ({p.model})
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowFiles(!showFiles)}
+            >
+              <FolderTree className="h-4 w-4 mr-2" />
+              Files
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowDebug(!showDebug)}
+            >
+              <Bug className="h-4 w-4 mr-2" />
+              {showDebug ? "Hide" : "Show"} Debug
+            </Button>
+            {userId && (
+              <Button variant="outline" size="sm" onClick={handleLogout} title={`Signed in as ${userId}`}>
+                <LogOut className="h-4 w-4 mr-2" />
+                {userId}
+              </Button>
+            )}
+          </div>
         </div>
 
       {/* Messages */}
@@ -208,36 +401,31 @@ export function ChatInterface() {
           </div>
         )}
 
-        {messages.map((message, index) => (
+        {messages.map((message) => (
           <ChatMessage
-            key={index}
-            role={message.role}
-            content={message.content}
+            key={message.id}
+            message={message}
+            cwd={cwd}
+            onOpenFile={handleOpenFile}
+            onBranch={
+              message.role === "assistant" && message.exchange && sessionId && !isStreaming
+                ? () => handleBranch(message.exchange!)
+                : undefined
+            }
           />
         ))}
-
-        {/* Streaming message */}
-        {isStreaming && streamingContent && (
-          <ChatMessage
-            role="assistant"
-            content={streamingContent}
-            isStreaming={true}
-          />
-        )}
-
-        {/* Loading indicator when streaming starts */}
-        {isStreaming && !streamingContent && (
-          <ChatMessage
-            role="assistant"
-            content=""
-            isStreaming={true}
-          />
-        )}
         </div>
       </ScrollArea>
 
       {/* Input */}
       <div className="border-t p-4 shrink-0">
+        {chat.fork && (
+          <div className="flex items-center gap-1 text-xs text-gray-500 mb-2">
+            <GitBranch className="h-3 w-3" />
+            Branching from exchange #{chat.fork.exchange} of {chat.fork.sessionId.substring(0, 8)}: the next message
+            starts a new session
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="flex gap-2">
           <Input
             value={input}
@@ -246,13 +434,39 @@ export function ChatInterface() {
             disabled={isStreaming}
             className="flex-1"
           />
-          <Button type="submit" disabled={isStreaming || !input.trim()}>
-            <Send className="h-4 w-4" />
-          </Button>
+          {isStreaming ? (
+            <Button type="button" variant="destructive" onClick={handleStop}>
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button type="submit" disabled={!input.trim()}>
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </form>
       </div>
     </Card>
 
+      {/* Tool permission prompt */}
+      {permissionRequests.length > 0 && (
+        <PermissionDialog
+          request={permissionRequests[0]}
+          pendingCount={permissionRequests.length}
+          isSubmitting={isAnsweringPermission}
+          onDecision={handlePermissionDecision}
+        />
+      )}
+
+      {/* Workspace Panel */}
+      {showFiles && (
+        <WorkspacePanel
+          sessionId={sessionId}
+          touchedPaths={touchedFiles}
+          refreshKey={filesRefreshKey}
+          openRequest={openFileRequest}
+        />
+      )}
+
       {/* Debug Panel */}
       {showDebug && (
         <Card className="flex flex-col h-full w-[500px] overflow-hidden">
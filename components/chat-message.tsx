@@ -1,25 +1,191 @@
 /**
- * Chat message component that displays individual messages in the chat interface.
+ * Chat message component that renders a structured message as per-block views (text, thinking, tool calls, notices, errors).
  *
- * Input data sources: Message objects with role, content, and optional metadata
- * Output destinations: Rendered message bubbles in chat UI
- * Dependencies: shadcn/ui components (Avatar, Card)
+ * Input data sources: ChatMessageModel objects from lib/chat-model (live chat reducer or session replay)
+ * Output destinations: Rendered message bubbles and tool call cards in chat UI and session replay
+ * Dependencies: shadcn/ui components (Avatar, Card), Markdown and ToolCallDiff components, lucide-react icons
  * Key exports: ChatMessage component
  * Side effects: None
  */
 
+"use client";
+
+import { useState } from "react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Card } from "@/components/ui/card";
+import { Markdown } from "@/components/markdown";
+import { ToolCallDiff } from "@/components/tool-diff";
+import { isFileEditTool } from "@/lib/diff";
 import { cn } from "@/lib/utils";
+import type { ChatBlock, ChatMessageModel, ToolUseBlock } from "@/lib/chat-model";
+import type { ExchangeStats } from "@/lib/session-logger";
+import {
+  AlertCircle,
+  Brain,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  GitBranch,
+  Info,
+  Loader2,
+  MinusCircle,
+  Wrench,
+  XCircle,
+} from "lucide-react";
 
 interface ChatMessageProps {
-  role: "user" | "assistant";
-  content: string;
-  isStreaming?: boolean;
+  message: ChatMessageModel;
+  cwd?: string | null; // Agent working directory, for file links in assistant text
+  onOpenFile?: (relativePath: string) => void; // Opens a cwd-relative path in the workspace viewer
+  onBranch?: () => void; // Shows a "Branch from here" action under a finished assistant message
+}
+
+type FileLinkProps = Pick<ChatMessageProps, "cwd" | "onOpenFile">;
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function TextBlock({ text, isUser, cwd, onOpenFile }: { text: string; isUser: boolean } & FileLinkProps) {
+  return (
+    <Card
+      className={cn(
+        "max-w-[80%] px-4 py-3 gap-0",
+        isUser ? "bg-blue-500 text-white" : "bg-gray-100 dark:bg-gray-800"
+      )}
+    >
+      {isUser ? (
+        <div className="whitespace-pre-wrap break-words text-sm">{text}</div>
+      ) : (
+        <Markdown content={text} cwd={cwd} onOpenFile={onOpenFile} />
+      )}
+    </Card>
+  );
+}
+
+function ThinkingBlock({ text }: { text: string }) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="max-w-[80%] text-xs text-gray-500">
+      <button type="button" className="flex items-center gap-1" onClick={() => setExpanded(!expanded)}>
+        {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Brain className="h-3 w-3" />
+        <span className="italic">Thinking</span>
+      </button>
+      {expanded && <div className="mt-1 pl-4 border-l whitespace-pre-wrap break-words italic">{text}</div>}
+    </div>
+  );
+}
+
+const STATUS_ICONS: Record<ToolUseBlock["status"], React.ReactNode> = {
+  running: <Loader2 className="h-3 w-3 animate-spin text-gray-500" />,
+  success: <CheckCircle2 className="h-3 w-3 text-green-600" />,
+  error: <XCircle className="h-3 w-3 text-red-600" />,
+  incomplete: <MinusCircle className="h-3 w-3 text-gray-400" />,
+};
+
+function ToolUseView({ block }: { block: ToolUseBlock }) {
+  const [expanded, setExpanded] = useState(false);
+  const isFileEdit = isFileEditTool(block.name) && block.partialInput === undefined;
+
+  return (
+    <Card
+      className={cn(
+        "w-full max-w-[80%] gap-2 py-2 px-3 text-xs",
+        block.status === "error" ? "border-red-300 bg-red-50 dark:bg-red-950" : "bg-amber-50 dark:bg-amber-950"
+      )}
+    >
+      <button type="button" className="flex items-center gap-2 text-left font-mono" onClick={() => setExpanded(!expanded)}>
+        {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Wrench className="h-3 w-3" />
+        <span className="font-semibold">{block.name}</span>
+        {STATUS_ICONS[block.status]}
+        {block.status === "incomplete" && <span className="text-gray-500">(no result)</span>}
+        {block.durationMs !== undefined && <span className="text-gray-500">{formatDuration(block.durationMs)}</span>}
+      </button>
+
+      {/* File edits are always shown as diffs */}
+      {isFileEdit && (
+        <ToolCallDiff name={block.name} input={block.input} previousContent={block.previousContent} className="bg-background" />
+      )}
+
+      {expanded && (
+        <div className="space-y-2">
+          {!isFileEdit && (
+            <div>
+              <div className="font-semibold text-gray-500 mb-1">Input</div>
+              <pre className="overflow-x-auto whitespace-pre-wrap break-all">
+                {block.partialInput !== undefined ? block.partialInput : JSON.stringify(block.input, null, 2)}
+              </pre>
+            </div>
+          )}
+          {block.output !== undefined && (
+            <div>
+              <div className={cn("font-semibold mb-1", block.status === "error" ? "text-red-600" : "text-gray-500")}>
+                {block.status === "error" ? "Error" : "Output"}
+              </div>
+              <pre className="overflow-x-auto whitespace-pre-wrap break-all max-h-80 overflow-y-auto">{block.output}</pre>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function NoticeBlock({ text }: { text: string }) {
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-500">
+      <Info className="h-3 w-3" />
+      {text}
+    </div>
+  );
+}
+
+function ErrorBlock({ message }: { message: string }) {
+  return (
+    <Card className="max-w-[80%] px-4 py-2 border-red-300 bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300">
+      <div className="flex items-center gap-2 text-sm">
+        <AlertCircle className="h-4 w-4 shrink-0" />
+        <span className="whitespace-pre-wrap break-words">{message}</span>
+      </div>
+    </Card>
+  );
 }
 
-export function ChatMessage({ role, content, isStreaming }: ChatMessageProps) {
-  const isUser = role === "user";
+function StatsLine({ stats }: { stats: ExchangeStats }) {
+  return (
+    <div className="text-xs text-gray-500 font-mono">
+      {stats.num_turns} turns • {(stats.duration_ms / 1000).toFixed(1)}s •{" "}
+      {stats.tokens_in} in / {stats.tokens_out} out • cache {stats.cache_creation} created /{" "}
+      {stats.cache_read} read • ${stats.cost_usd.toFixed(4)}
+    </div>
+  );
+}
+
+function BlockView({ block, isUser, cwd, onOpenFile }: { block: ChatBlock; isUser: boolean } & FileLinkProps) {
+  switch (block.kind) {
+    case "text":
+      return <TextBlock text={block.text} isUser={isUser} cwd={cwd} onOpenFile={onOpenFile} />;
+    case "thinking":
+      return <ThinkingBlock text={block.text} />;
+    case "tool_use":
+      return <ToolUseView block={block} />;
+    case "notice":
+      return <NoticeBlock text={block.text} />;
+    case "error":
+      return <ErrorBlock message={block.message} />;
+  }
+}
+
+export function ChatMessage({ message, cwd, onOpenFile, onBranch }: ChatMessageProps) {
+  const isUser = message.role === "user";
+  const streamingBlocks = Object.keys(message.streamingBlocks)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map((index) => message.streamingBlocks[index]);
+  const blocks = [...message.blocks, ...streamingBlocks];
 
   return (
     <div
@@ -36,19 +202,41 @@ export function ChatMessage({ role, content, isStreaming }: ChatMessageProps) {
         </Avatar>
       )}
 
-      <Card
-        className={cn(
-          "max-w-[80%] px-4 py-3",
-          isUser
-            ? "bg-blue-500 text-white"
-            : "bg-gray-100 dark:bg-gray-800",
-          isStreaming && "animate-pulse"
+      <div className={cn("flex flex-col gap-2 flex-1 min-w-0", isUser ? "items-end" : "items-start")}>
+        {blocks.map((block, index) => (
+          <BlockView
+            key={block.kind === "tool_use" ? block.id : index}
+            block={block}
+            isUser={isUser}
+            cwd={cwd}
+            onOpenFile={onOpenFile}
+          />
+        ))}
+
+        {/* Loading indicator until the first block arrives */}
+        {message.isStreaming && blocks.length === 0 && (
+          <Card className="px-4 py-3 bg-gray-100 dark:bg-gray-800 animate-pulse">
+            <div className="text-sm">Thinking...</div>
+          </Card>
         )}
-      >
-        <div className="whitespace-pre-wrap break-words text-sm">
-          {content || (isStreaming ? "Thinking..." : "")}
-        </div>
-      </Card>
+
+        {(message.stats || onBranch) && (
+          <div className="flex items-center gap-3">
+            {message.stats && <StatsLine stats={message.stats} />}
+            {onBranch && !message.isStreaming && (
+              <button
+                type="button"
+                onClick={onBranch}
+                className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+                title="Start a new session that keeps the conversation up to here"
+              >
+                <GitBranch className="h-3 w-3" />
+                Branch from here
+              </button>
+            )}
+          </div>
+        )}
+      </div>
 
       {isUser && (
         <Avatar className="h-8 w-8">
@@ -0,0 +1,94 @@
+/**
+ * Login form component that posts credentials and returns to the page that required a login.
+ *
+ * Input data sources: Username and password typed by the user
+ * Output destinations: /api/auth/login endpoint via POST, browser navigation
+ * Dependencies: /api/auth/login route, shadcn/ui components
+ * Key exports: LoginForm component
+ * Side effects: Makes API calls to /api/auth/login (which sets the session cookie), navigates on success
+ */
+
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+
+interface LoginFormProps {
+  next?: string; // Path to open after login (default: /chat)
+}
+
+/**
+ * Path, query and hash of next if it stays on this origin, so the link can't send users elsewhere
+ * (browsers read /\evil.com like //evil.com)
+ */
+function sameOriginPath(next: string | undefined): string | null {
+  if (!next?.startsWith("/") || next.includes("\\")) return null;
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? url.pathname + url.search + url.hash : null;
+  } catch {
+    return null;
+  }
+}
+
+export function LoginForm({ next }: LoginFormProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `HTTP error! status: ${response.status}`);
+      }
+      window.location.href = sameOriginPath(next) ?? "/chat";
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Login failed");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle>Sign in</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+          <Input
+            placeholder="Username"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            required
+          />
+          <Input
+            type="password"
+            placeholder="Password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Signing in..." : "Sign in"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * Markdown renderer for assistant text: GitHub-flavored Markdown with highlighted code blocks, copy buttons
+ * and workspace file links. Raw HTML in the text is not rendered.
+ *
+ * Input data sources: Assistant text blocks, agent working directory (cwd) from the init message
+ * Output destinations: Rendered Markdown in chat messages; onOpenFile callback for file-path links
+ * Dependencies: react-markdown, remark-gfm, rehype-highlight, lucide-react icons
+ * Key exports: Markdown component
+ * Side effects: Writes to the clipboard when a copy button is clicked
+ */
+
+"use client";
+
+import { useState, type ReactNode } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeHighlight from "rehype-highlight";
+import { Check, Copy } from "lucide-react";
+
+interface MarkdownProps {
+  content: string;
+  cwd?: string | null; // Agent working directory; paths inside it become file links
+  onOpenFile?: (relativePath: string) => void; // Called with the cwd-relative path of a clicked file link
+}
+
+/**
+ * Minimal hast node shape needed to extract text
+ */
+interface HastNode {
+  type: string;
+  value?: string;
+  children?: HastNode[];
+}
+
+/**
+ * Plain text of a hast node (code block contents before highlighting spans)
+ */
+function nodeText(node: HastNode | undefined): string {
+  if (!node) return "";
+  if (node.type === "text") return node.value ?? "";
+  return (node.children ?? []).map(nodeText).join("");
+}
+
+/**
+ * Resolve a path mentioned by the agent to a path relative to cwd.
+ * Accepts absolute paths inside cwd and relative paths that look like files (no URL scheme, no `..`).
+ *
+ * @returns Relative "/"-separated path, or null if it isn't a file path inside cwd
+ */
+function toWorkspacePath(candidate: string, cwd: string): string | null {
+  const value = candidate.trim().replace(/:\d+(:\d+)?$/, ""); // Drop :line[:col] suffixes
+  if (!value || /\s/.test(value) || /^[a-z][a-z0-9+.-]*:/i.test(value)) return null;
+
+  const root = cwd.replace(/\/+$/, "");
+  let relative: string;
+  if (value.startsWith("/")) {
+    if (!value.startsWith(root + "/")) return null;
+    relative = value.substring(root.length + 1);
+  } else {
+    // Bare words are identifiers, not files: require a directory or an extension
+    if (!value.includes("/") && !/\.[a-z0-9]+$/i.test(value)) return null;
+    relative = value.replace(/^\.\//, "");
+  }
+
+  if (!relative || relative.split("/").includes("..")) return null;
+  return relative;
+}
+
+function safeDecode(href: string): string {
+  try {
+    return decodeURI(href);
+  } catch {
+    return href;
+  }
+}
+
+function CopyButton({ text }: { text: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Copy failed:", error);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      title="Copy"
+      className="absolute top-1.5 right-1.5 rounded border bg-background/80 p-1 text-gray-500 opacity-0 group-hover:opacity-100 hover:text-gray-900 dark:hover:text-gray-100"
+    >
+      {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+    </button>
+  );
+}
+
+function FileLink({ path, onOpenFile, children }: { path: string; onOpenFile: (path: string) => void; children: ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={() => onOpenFile(path)}
+      title={`Open ${path} in the workspace viewer`}
+      className="text-blue-600 underline decoration-dotted underline-offset-2 hover:decoration-solid dark:text-blue-400"
+    >
+      {children}
+    </button>
+  );
+}
+
+export function Markdown({ content, cwd, onOpenFile }: MarkdownProps) {
+  const resolveFile = (candidate: string) => (cwd && onOpenFile ? toWorkspacePath(candidate, cwd) : null);
+
+  const components: Components = {
+    // Fenced code: highlighted by rehype-highlight, copy button over the raw text
+    pre: ({ node, children }) => (
+      <div className="group relative my-2">
+        <pre className="overflow-x-auto rounded-md border bg-white p-3 text-xs dark:bg-gray-950">{children}</pre>
+        <CopyButton text={nodeText(node as HastNode | undefined).replace(/\n$/, "")} />
+      </div>
+    ),
+    code: ({ node, className, children }) => {
+      // Fenced code has a language class or ends with a newline; inline code never does
+      const text = nodeText(node as HastNode | undefined);
+      if (className || text.endsWith("\n")) return <code className={className}>{children}</code>;
+
+      const code = (
+        <code className="rounded bg-gray-200 px-1 py-0.5 font-mono text-[0.85em] dark:bg-gray-700">{children}</code>
+      );
+      const filePath = resolveFile(text);
+      return filePath && onOpenFile ? (
+        <FileLink path={filePath} onOpenFile={onOpenFile}>
+          {code}
+        </FileLink>
+      ) : (
+        code
+      );
+    },
+    a: ({ href, children }) => {
+      const filePath = href ? resolveFile(safeDecode(href)) : null;
+      if (filePath && onOpenFile) {
+        return (
+          <FileLink path={filePath} onOpenFile={onOpenFile}>
+            {children}
+          </FileLink>
+        );
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline dark:text-blue-400">
+          {children}
+        </a>
+      );
+    },
+    h1: ({ children }) => <h1 className="mt-3 mb-2 text-lg font-semibold">{children}</h1>,
+    h2: ({ children }) => <h2 className="mt-3 mb-2 text-base font-semibold">{children}</h2>,
+    h3: ({ children }) => <h3 className="mt-2 mb-1 font-semibold">{children}</h3>,
+    p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+    ul: ({ children }) => <ul className="my-2 list-disc pl-5">{children}</ul>,
+    ol: ({ children }) => <ol className="my-2 list-decimal pl-5">{children}</ol>,
+    blockquote: ({ children }) => <blockquote className="my-2 border-l-2 pl-3 text-gray-600 dark:text-gray-400">{children}</blockquote>,
+    table: ({ children }) => (
+      <div className="my-2 overflow-x-auto">
+        <table className="border-collapse text-xs">{children}</table>
+      </div>
+    ),
+    th: ({ children, style }) => <th style={style} className="border px-2 py-1 text-left font-semibold">{children}</th>,
+    td: ({ children, style }) => <td style={style} className="border px-2 py-1">{children}</td>,
+    hr: () => <hr className="my-3" />,
+  };
+
+  return (
+    <div className="text-sm break-words">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeHighlight]}
+        components={components}
+        skipHtml
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
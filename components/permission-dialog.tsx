@@ -0,0 +1,59 @@
+/**
+ * Permission dialog component that asks the user to approve a paused agent tool call.
+ *
+ * Input data sources: permission_request events from the /api/chat NDJSON stream
+ * Output destinations: User decision via onDecision callback
+ * Dependencies: shadcn/ui components (Button, Card), lucide-react icons
+ * Key exports: PermissionDialog component
+ * Side effects: None
+ */
+
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import type { PermissionDecision, PermissionRequestEvent } from "@/lib/permission-broker";
+import { ShieldAlert } from "lucide-react";
+
+interface PermissionDialogProps {
+  request: PermissionRequestEvent;
+  pendingCount: number;
+  isSubmitting: boolean;
+  onDecision: (decision: PermissionDecision) => void;
+}
+
+export function PermissionDialog({ request, pendingCount, isSubmitting, onDecision }: PermissionDialogProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <Card className="w-full max-w-lg gap-4 px-6">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-amber-500" />
+          <h3 className="font-semibold">
+            Allow <span className="font-mono">{request.tool_name}</span>?
+          </h3>
+          {pendingCount > 1 && (
+            <span className="ml-auto text-xs text-gray-500">{pendingCount - 1} more waiting</span>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-500">The agent wants to run this tool with the following input:</p>
+
+        <pre className="text-xs border rounded p-2 bg-gray-50 dark:bg-gray-900 max-h-80 overflow-auto whitespace-pre-wrap break-all">
+          {JSON.stringify(request.input, null, 2)}
+        </pre>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" disabled={isSubmitting} onClick={() => onDecision("deny")}>
+            Deny
+          </Button>
+          <Button variant="secondary" disabled={isSubmitting} onClick={() => onDecision("always_allow")}>
+            Always allow for this session
+          </Button>
+          <Button disabled={isSubmitting} onClick={() => onDecision("allow")}>
+            Allow
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * Session browser component that lists logged agent sessions and replays a selected session's exchanges.
+ *
+ * Input data sources: /api/sessions and /api/sessions/[id] endpoints via GET
+ * Output destinations: Rendered session list (with fork lineage) and replay timeline in UI, branch links to /chat
+ * Dependencies: /api/sessions routes, SessionTimeline component, shadcn/ui components
+ * Key exports: SessionBrowser component
+ * Side effects: Makes API calls to /api/sessions
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { SessionTimeline } from "@/components/session-timeline";
+import { cn } from "@/lib/utils";
+import type { SessionDetail, SessionSummary } from "@/lib/session-reader";
+import { RefreshCw } from "lucide-react";
+
+export function SessionBrowser() {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<SessionDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadSessions = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/sessions");
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data = await response.json();
+      setSessions(data.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load sessions");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Load session list on mount
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  // Load detail when selection changes
+  useEffect(() => {
+    if (!selectedId) return;
+
+    let cancelled = false;
+    fetch(`/api/sessions/${encodeURIComponent(selectedId)}`)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        return response.json();
+      })
+      .then((data) => {
+        if (!cancelled) setDetail(data.session);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load session");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  return (
+    <div className="flex gap-4 w-full max-w-7xl mx-auto h-full">
+      {/* Session list */}
+      <Card className="flex flex-col h-full w-[380px] overflow-hidden gap-0 py-0">
+        <div className="border-b p-4 flex items-center justify-between shrink-0">
+          <div>
+            <h2 className="text-xl font-semibold">Sessions</h2>
+            <p className="text-sm text-gray-500">{sessions.length} logged</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadSessions} disabled={isLoading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+        <ScrollArea className="flex-1 overflow-hidden">
+          <div className="p-2 space-y-1">
+            {sessions.length === 0 && !isLoading && (
+              <div className="text-sm text-gray-400 p-2">No sessions found in ./sessions</div>
+            )}
+            {sessions.map((session) => (
+              <button
+                key={session.file}
+                type="button"
+                onClick={() => setSelectedId(session.session_id)}
+                className={cn(
+                  "w-full text-left rounded-md p-3 text-sm hover:bg-gray-100 dark:hover:bg-gray-800",
+                  selectedId === session.session_id && "bg-gray-100 dark:bg-gray-800"
+                )}
+              >
+                <div className="font-medium truncate">
+                  {session.first_user_input || "(no exchanges)"}
+                </div>
+                <div className="text-xs text-gray-500 font-mono mt-1">
+                  {new Date(session.started_at).toLocaleString()} • {session.model}
+                  {session.profile && ` • ${session.profile}`}
+                </div>
+                {session.parent_session_id && (
+                  <div className="text-xs text-gray-500 font-mono">
+                    fork of {session.parent_session_id.substring(0, 8)} @ #{session.forked_from_exchange}
+                  </div>
+                )}
+                <div className="text-xs text-gray-500 font-mono">
+                  {session.total_exchanges} exchanges • ${session.total_cost_usd.toFixed(4)}
+                </div>
+                {Object.keys(session.tools_used).length > 0 && (
+                  <div className="text-xs text-gray-500 font-mono truncate">
+                    {Object.entries(session.tools_used)
+                      .map(([name, count]) => `${name}×${count}`)
+                      .join(" ")}
+                  </div>
+                )}
+              </button>
+            ))}
+          </div>
+        </ScrollArea>
+      </Card>
+
+      {/* Replay viewer */}
+      <Card className="flex flex-col h-full flex-1 overflow-hidden gap-0 py-0">
+        <div className="border-b p-4 shrink-0">
+          <h2 className="text-xl font-semibold">Replay</h2>
+          {detail ? (
+            <>
+              <p className="text-xs text-gray-500 font-mono">
+                {detail.session_id} • {detail.model} • {detail.cwd}
+              </p>
+              {detail.parent_session_id && (
+                <p className="text-xs text-gray-500">
+                  Forked from{" "}
+                  <button
+                    type="button"
+                    className="font-mono underline"
+                    onClick={() => setSelectedId(detail.parent_session_id)}
+                  >
+                    {detail.parent_session_id.substring(0, 8)}
+                  </button>{" "}
+                  after exchange #{detail.forked_from_exchange} ({detail.inherited_exchanges.length} inherited)
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">Select a session to view its exchanges</p>
+          )}
+        </div>
+        <ScrollArea className="flex-1 overflow-hidden">
+          <div className="p-4">
+            {error && <div className="text-sm text-red-600 mb-4">Error: {error}</div>}
+            {detail && (
+              <SessionTimeline
+                exchanges={detail.exchanges}
+                branchHref={(exchange) =>
+                  `/chat?fork=${encodeURIComponent(detail.session_id)}&at=${exchange}`
+                }
+              />
+            )}
+          </div>
+        </ScrollArea>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Session sidebar component that lists logged sessions so the chat can reopen and continue one.
+ *
+ * Input data sources: /api/sessions endpoint via GET
+ * Output destinations: onSelect / onNewChat callbacks to ChatInterface
+ * Dependencies: /api/sessions route, shadcn/ui components (Button, Card, ScrollArea), lucide-react icons
+ * Key exports: SessionSidebar component
+ * Side effects: Makes API calls to /api/sessions
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import type { SessionSummary } from "@/lib/session-reader";
+import { Plus, RefreshCw } from "lucide-react";
+
+interface SessionSidebarProps {
+  activeSessionId: string | null;
+  refreshKey: number; // Changes when the list should be reloaded (e.g. after each exchange)
+  disabled: boolean; // True while a response is streaming
+  onSelect: (sessionId: string) => void;
+  onNewChat: () => void;
+}
+
+export function SessionSidebar({ activeSessionId, refreshKey, disabled, onSelect, onNewChat }: SessionSidebarProps) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Load the list on mount, after each exchange, or on manual refresh
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/sessions")
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        return response.json();
+      })
+      .then((data) => {
+        if (!cancelled) {
+          setSessions(data.sessions);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load sessions");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, reloadCount]);
+
+  return (
+    <Card className="flex flex-col h-full w-[260px] overflow-hidden gap-0 py-0">
+      <div className="border-b p-4 flex items-center justify-between shrink-0">
+        <h3 className="font-semibold">Sessions</h3>
+        <div className="flex gap-1">
+          <Button variant="outline" size="icon-sm" onClick={onNewChat} disabled={disabled} title="New chat">
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon-sm" onClick={() => setReloadCount((count) => count + 1)} title="Refresh">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 overflow-hidden">
+        <div className="p-2 space-y-1">
+          {error && <div className="text-xs text-red-600 p-2">Error: {error}</div>}
+          {sessions.length === 0 && !error && <div className="text-xs text-gray-400 p-2">No sessions yet</div>}
+          {sessions.map((session) => (
+            <button
+              key={session.file}
+              type="button"
+              disabled={disabled}
+              onClick={() => onSelect(session.session_id)}
+              className={cn(
+                "w-full text-left rounded-md p-2 text-sm hover:bg-gray-100 disabled:opacity-60 dark:hover:bg-gray-800",
+                activeSessionId === session.session_id && "bg-gray-100 dark:bg-gray-800"
+              )}
+            >
+              <div className="truncate">{session.first_user_input || "(no exchanges)"}</div>
+              <div className="text-xs text-gray-500 font-mono">
+                {new Date(session.started_at).toLocaleDateString()} • {session.total_exchanges} exchanges
+                {session.profile && ` • ${session.profile}`}
+              </div>
+            </button>
+          ))}
+        </div>
+      </ScrollArea>
+    </Card>
+  );
+}
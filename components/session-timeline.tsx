@@ -0,0 +1,59 @@
+/**
+ * Session timeline component that renders logged exchanges (user input, assistant text, tool calls with results, stats).
+ *
+ * Input data sources: SessionExchange objects from /api/sessions/[id]
+ * Output destinations: Rendered exchange timeline in session replay viewer
+ * Dependencies: ChatMessage component, lib/chat-model
+ * Key exports: SessionTimeline component
+ * Side effects: None
+ */
+
+"use client";
+
+import { ChatMessage } from "@/components/chat-message";
+import { exchangesToMessages } from "@/lib/chat-model";
+import type { SessionExchange } from "@/lib/session-reader";
+import { GitBranch } from "lucide-react";
+
+interface SessionTimelineProps {
+  exchanges: SessionExchange[];
+  branchHref?: (exchange: number) => string; // Link for "Branch from here" on each exchange
+}
+
+export function SessionTimeline({ exchanges, branchHref }: SessionTimelineProps) {
+  if (exchanges.length === 0) {
+    return <div className="text-sm text-gray-400">No exchanges logged</div>;
+  }
+
+  // Two messages (user, assistant) per exchange, with file contents tracked in session order
+  const messages = exchangesToMessages(exchanges);
+
+  return (
+    <div className="space-y-6">
+      {exchanges.map((exchange, index) => (
+        <div key={exchange.exchange}>
+          <div className="flex items-center text-xs font-semibold text-gray-500 mb-2">
+            <span>
+              Exchange #{exchange.exchange} •{" "}
+              {exchange.ts_start && new Date(exchange.ts_start).toLocaleString()}
+              {exchange.interrupted && <span className="ml-2 text-red-600">interrupted</span>}
+            </span>
+            {branchHref && exchange.assistant_message_id && (
+              <a
+                href={branchHref(exchange.exchange)}
+                className="ml-auto flex items-center gap-1 font-normal hover:text-gray-900 dark:hover:text-gray-100"
+                title="Continue in the chat with a new session that keeps the conversation up to here"
+              >
+                <GitBranch className="h-3 w-3" />
+                Branch from here
+              </a>
+            )}
+          </div>
+
+          <ChatMessage message={messages[index * 2]} />
+          <ChatMessage message={messages[index * 2 + 1]} />
+        </div>
+      ))}
+    </div>
+  );
+}
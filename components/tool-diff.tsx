@@ -0,0 +1,99 @@
+/**
+ * Diff view component for file-editing tool calls: Edit/MultiEdit as unified diffs, Write as a new-file preview
+ * (or a diff against the previous contents when known).
+ *
+ * Input data sources: Tool call name and input (file_path, old_string, new_string, edits, content)
+ * Output destinations: Rendered collapsible diff in chat transcript and session replay
+ * Dependencies: lib/diff, shadcn/ui components (Card), lucide-react icons
+ * Key exports: ToolCallDiff component
+ * Side effects: None
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { diffLines, toHunks, type DiffHunk, type EditPair } from "@/lib/diff";
+import { ChevronDown, ChevronRight, FilePen, FilePlus } from "lucide-react";
+
+interface ToolCallDiffProps {
+  name: string;
+  input: Record<string, unknown>;
+  previousContent?: string; // Earlier contents of the file for Write, if known
+  defaultExpanded?: boolean;
+  className?: string;
+}
+
+/**
+ * Build hunks for the tool call's input
+ */
+function buildHunks(name: string, input: Record<string, unknown>, previousContent?: string): DiffHunk[] {
+  if (name === "Write") {
+    return toHunks(diffLines(previousContent ?? "", String(input.content ?? "")));
+  }
+
+  const edits: EditPair[] =
+    name === "MultiEdit" && Array.isArray(input.edits)
+      ? (input.edits as EditPair[])
+      : [{ old_string: String(input.old_string ?? ""), new_string: String(input.new_string ?? "") }];
+
+  return edits.flatMap((edit) => toHunks(diffLines(edit.old_string, edit.new_string)));
+}
+
+export function ToolCallDiff({ name, input, previousContent, defaultExpanded = true, className }: ToolCallDiffProps) {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+  const hunks = buildHunks(name, input, previousContent);
+  const isNewFile = name === "Write" && previousContent === undefined;
+
+  const added = hunks.reduce((sum, h) => sum + h.lines.filter((l) => l.type === "add").length, 0);
+  const removed = hunks.reduce((sum, h) => sum + h.lines.filter((l) => l.type === "remove").length, 0);
+  const Icon = isNewFile ? FilePlus : FilePen;
+
+  return (
+    <Card className={cn("gap-0 py-0 overflow-hidden text-xs", className)}>
+      <button
+        type="button"
+        className="flex items-center gap-2 px-3 py-2 text-left font-mono bg-gray-50 dark:bg-gray-900"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Icon className="h-3 w-3" />
+        <span className="font-semibold">{name}</span>
+        <span className="truncate">{String(input.file_path ?? "")}</span>
+        {Boolean(input.replace_all) && <span className="text-gray-500">(replace all)</span>}
+        <span className="ml-auto shrink-0">
+          <span className="text-green-600">+{added}</span> <span className="text-red-600">-{removed}</span>
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto border-t">
+          {hunks.length === 0 && <div className="px-3 py-2 text-gray-500">No changes</div>}
+          {hunks.map((hunk, hunkIdx) => (
+            <div key={hunkIdx} className="font-mono">
+              {!isNewFile && (
+                <div className="px-3 py-0.5 bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300">
+                  @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                </div>
+              )}
+              {hunk.lines.map((line, lineIdx) => (
+                <div
+                  key={lineIdx}
+                  className={cn(
+                    "px-3 whitespace-pre",
+                    line.type === "add" && "bg-green-50 text-green-800 dark:bg-green-950 dark:text-green-300",
+                    line.type === "remove" && "bg-red-50 text-red-800 dark:bg-red-950 dark:text-red-300"
+                  )}
+                >
+                  {line.type === "add" ? "+" : line.type === "remove" ? "-" : " "}
+                  {line.text}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
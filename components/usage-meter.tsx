@@ -0,0 +1,110 @@
+/**
+ * Usage meter for the chat header: session cost, context size against the model's window, and turns and latency of
+ * the last exchange, with a hover breakdown of cache writes and reads.
+ *
+ * Input data sources: ChatMessageModel stats (from result messages or logged exchanges), live context size from the chat reducer
+ * Output destinations: Rendered meter in the ChatInterface header
+ * Dependencies: lib/chat-model types, lucide-react icons
+ * Key exports: UsageMeter component
+ * Side effects: None
+ */
+
+"use client";
+
+import type { ChatMessageModel } from "@/lib/chat-model";
+import type { ExchangeStats } from "@/lib/session-logger";
+import { cn } from "@/lib/utils";
+import { Clock, Coins, Gauge, Repeat } from "lucide-react";
+
+interface UsageMeterProps {
+  messages: ChatMessageModel[];
+  contextTokens: number | null; // Prompt size of the latest API call
+}
+
+function formatTokens(tokens: number): string {
+  return tokens < 1000 ? String(tokens) : `${(tokens / 1000).toFixed(1)}k`;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Largest context window among the models of an exchange (0 when the SDK didn't report one)
+ */
+function contextWindow(stats: ExchangeStats): number {
+  return Math.max(0, ...Object.values(stats.model_usage ?? {}).map((usage) => usage.context_window));
+}
+
+export function UsageMeter({ messages, contextTokens }: UsageMeterProps) {
+  const exchanges = messages.flatMap((message) => (message.stats ? [message.stats] : []));
+  const last = exchanges[exchanges.length - 1];
+  if (!last && contextTokens === null) return null;
+
+  const costUsd = exchanges.reduce((sum, stats) => sum + stats.cost_usd, 0);
+  const cacheCreation = exchanges.reduce((sum, stats) => sum + stats.cache_creation, 0);
+  const cacheRead = exchanges.reduce((sum, stats) => sum + stats.cache_read, 0);
+  const windowTokens = exchanges.reduce((latest, stats) => contextWindow(stats) || latest, 0);
+  const contextPercent =
+    contextTokens !== null && windowTokens > 0 ? Math.round((contextTokens / windowTokens) * 100) : null;
+
+  return (
+    <div className="group relative flex items-center gap-3 rounded-md border px-2 h-8 text-xs text-gray-600 font-mono dark:text-gray-300">
+      <span className="flex items-center gap-1" title="Session cost">
+        <Coins className="h-3 w-3" />${costUsd.toFixed(4)}
+      </span>
+      {contextTokens !== null && (
+        <span className="flex items-center gap-1" title="Context size of the latest API call">
+          <Gauge className="h-3 w-3" />
+          {formatTokens(contextTokens)}
+          {windowTokens > 0 && ` / ${formatTokens(windowTokens)}`}
+          {contextPercent !== null && (
+            <span className={cn(contextPercent >= 80 ? "text-red-600" : contextPercent >= 50 && "text-amber-600")}>
+              ({contextPercent}%)
+            </span>
+          )}
+        </span>
+      )}
+      {last && (
+        <>
+          <span className="flex items-center gap-1" title="Turns in the last exchange">
+            <Repeat className="h-3 w-3" />
+            {last.num_turns}
+          </span>
+          <span className="flex items-center gap-1" title="Latency of the last exchange">
+            <Clock className="h-3 w-3" />
+            {formatDuration(last.duration_ms)}
+          </span>
+        </>
+      )}
+
+      {/* Cache breakdown on hover */}
+      <div className="absolute right-0 top-full z-10 mt-1 hidden w-64 rounded-md border bg-background p-2 shadow-md group-hover:block">
+        <table className="w-full">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal">Cache tokens</th>
+              <th className="text-right font-normal">Last</th>
+              <th className="text-right font-normal">Session</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td>Created</td>
+              <td className="text-right">{formatTokens(last?.cache_creation ?? 0)}</td>
+              <td className="text-right">{formatTokens(cacheCreation)}</td>
+            </tr>
+            <tr>
+              <td>Read</td>
+              <td className="text-right">{formatTokens(last?.cache_read ?? 0)}</td>
+              <td className="text-right">{formatTokens(cacheRead)}</td>
+            </tr>
+          </tbody>
+        </table>
+        {last?.duration_api_ms !== undefined && (
+          <div className="mt-1 text-gray-500">API time (last): {formatDuration(last.duration_api_ms)}</div>
+        )}
+      </div>
+    </div>
+  );
+}
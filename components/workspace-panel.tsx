@@ -0,0 +1,241 @@
+/**
+ * Workspace panel component that lists the files in the session's agent workspace with preview, upload and download.
+ *
+ * Input data sources: /api/workspace/tree and /api/workspace/file endpoints via GET, file paths touched by Write/Edit,
+ *   file links clicked in chat messages
+ * Output destinations: Rendered file tree and preview in UI, /api/workspace/upload via POST
+ * Dependencies: /api/workspace routes, shadcn/ui components (Button, Card, ScrollArea), lucide-react icons
+ * Key exports: WorkspacePanel component
+ * Side effects: Makes API calls to /api/workspace, uploads files into the workspace
+ */
+
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import type { WorkspaceFileContent, WorkspaceTreeEntry } from "@/lib/workspace-files";
+import { Download, File, Folder, RefreshCw, Upload } from "lucide-react";
+
+interface WorkspacePanelProps {
+  sessionId: string | null;
+  touchedPaths: string[]; // Absolute file_path inputs of Write/Edit calls in the current exchange
+  refreshKey: number; // Changes when the tree should be reloaded (e.g. after each exchange)
+  openRequest?: { path: string; key: number } | null; // Workspace-relative file to preview; key changes per request
+}
+
+interface WorkspaceTree {
+  root: string;
+  entries: WorkspaceTreeEntry[];
+  truncated: boolean;
+}
+
+/**
+ * Fetch a file preview from the workspace API
+ */
+async function fetchFile(sessionId: string, filePath: string): Promise<WorkspaceFileContent> {
+  const response = await fetch(
+    `/api/workspace/file?sessionId=${encodeURIComponent(sessionId)}&path=${encodeURIComponent(filePath)}`
+  );
+  if (!response.ok) {
+    throw new Error(response.status === 404 ? `File not found: ${filePath}` : `HTTP error! status: ${response.status}`);
+  }
+  const data = await response.json();
+  return data.file;
+}
+
+export function WorkspacePanel({ sessionId, touchedPaths, refreshKey, openRequest }: WorkspacePanelProps) {
+  const [tree, setTree] = useState<WorkspaceTree | null>(null);
+  const [preview, setPreview] = useState<WorkspaceFileContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const uploadRef = useRef<HTMLInputElement>(null);
+
+  // Load the tree when the session changes, after each exchange, or on manual refresh
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let cancelled = false;
+    fetch(`/api/workspace/tree?sessionId=${encodeURIComponent(sessionId)}`)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        return response.json();
+      })
+      .then((data) => {
+        if (!cancelled) {
+          setTree(data);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load workspace");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, refreshKey, reloadCount]);
+
+  // Preview files opened from links in the chat
+  useEffect(() => {
+    if (!sessionId || !openRequest) return;
+
+    let cancelled = false;
+    fetchFile(sessionId, openRequest.path)
+      .then((file) => {
+        if (!cancelled) setPreview(file);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load file");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, openRequest]);
+
+  // Workspace-relative paths of files touched in the current exchange
+  const touched = new Set(
+    tree
+      ? touchedPaths
+          .filter((p) => p.startsWith(tree.root + "/"))
+          .map((p) => p.substring(tree.root.length + 1))
+      : []
+  );
+
+  const openFile = async (filePath: string) => {
+    if (!sessionId) return;
+    try {
+      setPreview(await fetchFile(sessionId, filePath));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load file");
+    }
+  };
+
+  const handleUpload = async (fileList: FileList | null) => {
+    if (!sessionId || !fileList || fileList.length === 0) return;
+
+    const form = new FormData();
+    form.append("sessionId", sessionId);
+    for (const file of Array.from(fileList)) {
+      form.append("file", file);
+    }
+
+    try {
+      const response = await fetch("/api/workspace/upload", { method: "POST", body: form });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setReloadCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      if (uploadRef.current) uploadRef.current.value = "";
+    }
+  };
+
+  return (
+    <Card className="flex flex-col h-full w-[360px] overflow-hidden gap-0 py-0">
+      <div className="border-b p-4 flex items-center justify-between shrink-0">
+        <div>
+          <h3 className="font-semibold">Workspace</h3>
+          <p className="text-xs text-gray-500">
+            {sessionId ? `${tree?.entries.length ?? 0} entries` : "Starts with the first message"}
+          </p>
+        </div>
+        <div className="flex gap-1">
+          <input
+            ref={uploadRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => handleUpload(e.target.files)}
+          />
+          <Button
+            variant="outline"
+            size="icon-sm"
+            disabled={!sessionId}
+            onClick={() => uploadRef.current?.click()}
+            title="Upload files"
+          >
+            <Upload className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon-sm"
+            disabled={!sessionId}
+            onClick={() => setReloadCount((count) => count + 1)}
+            title="Refresh"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 overflow-hidden">
+        <div className="p-2 text-sm">
+          {error && <div className="text-xs text-red-600 p-2">Error: {error}</div>}
+          {tree?.entries.length === 0 && <div className="text-xs text-gray-400 p-2">Workspace is empty</div>}
+          {tree?.entries.map((entry) => {
+            const depth = entry.path.split("/").length - 1;
+            const name = entry.path.split("/").pop();
+            return (
+              <div
+                key={entry.path}
+                className={cn(
+                  "group flex items-center gap-1 rounded px-1 py-0.5 font-mono text-xs",
+                  entry.type === "file" && "cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800",
+                  touched.has(entry.path) && "bg-amber-100 dark:bg-amber-900",
+                  preview?.path === entry.path && "ring-1 ring-blue-400"
+                )}
+                style={{ paddingLeft: `${depth * 12 + 4}px` }}
+                onClick={() => entry.type === "file" && openFile(entry.path)}
+              >
+                {entry.type === "dir" ? (
+                  <Folder className="h-3 w-3 shrink-0" />
+                ) : (
+                  <File className="h-3 w-3 shrink-0" />
+                )}
+                <span className="truncate">{name}</span>
+                {entry.type === "file" && sessionId && (
+                  <a
+                    href={`/api/workspace/download?sessionId=${encodeURIComponent(sessionId)}&path=${encodeURIComponent(entry.path)}`}
+                    className="ml-auto hidden group-hover:block"
+                    onClick={(e) => e.stopPropagation()}
+                    title="Download"
+                  >
+                    <Download className="h-3 w-3" />
+                  </a>
+                )}
+              </div>
+            );
+          })}
+          {tree?.truncated && <div className="text-xs text-gray-400 p-2">Listing truncated</div>}
+        </div>
+      </ScrollArea>
+
+      {/* File preview */}
+      {preview && (
+        <div className="border-t h-[40%] flex flex-col shrink-0">
+          <div className="px-4 py-2 text-xs font-mono text-gray-500 flex justify-between">
+            <span className="truncate">{preview.path}</span>
+            <button type="button" onClick={() => setPreview(null)}>
+              ✕
+            </button>
+          </div>
+          <ScrollArea className="flex-1 overflow-hidden">
+            <pre className="px-4 pb-4 text-xs whitespace-pre-wrap break-all">
+              {preview.binary ? "(binary file)" : preview.content}
+              {preview.truncated && "\n… (truncated)"}
+            </pre>
+          </ScrollArea>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * CLI for offline evals of the Claude agent: runs a dataset, prints a line per task and writes a JSON/HTML report,
+ * optionally uploading the results to Braintrust.
+ *
+ * Input data sources: Dataset file argument, --task <id,...>, --out <dir>, --no-judge and --braintrust <project> arguments,
+ *   .env.local (ANTHROPIC_API_KEY, BRAINTRUST_API_KEY)
+ * Output destinations: Terminal stdout (progress, summary), <out>/report.json, <out>/report.html, Braintrust (optional)
+ * Dependencies: chalk, dotenv, eval-test/dataset.ts, eval-test/runner.ts, eval-test/judge.ts, eval-test/report.ts,
+ *   eval-test/braintrust-sink.ts
+ * Key exports: None (executable script)
+ * Side effects: Makes API calls to Claude (agent and judge), executes agent tools and check commands, writes the
+ *   output directory (default eval-test/results/<dataset>_<timestamp>/); exits with code 1 when a task fails
+ *
+ * Usage: npx tsx eval-test/agent-eval.ts eval-test/datasets/smoke.json [--task <id,...>] [--no-judge] [--out <dir>]
+ *   [--braintrust <project>]
+ */
+import path from "path";
+import chalk from "chalk";
+import dotenv from "dotenv";
+import { loadEvalDataset } from "./dataset";
+import { createEvalRunner } from "./runner";
+import { createLlmJudge } from "./judge";
+import { writeEvalReport } from "./report";
+import { uploadToBraintrust } from "./braintrust-sink";
+
+dotenv.config({ path: ".env.local" });
+
+// Value of --<flag> <value>
+function flag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const datasetFile = process.argv[2];
+  if (!datasetFile || datasetFile.startsWith("--")) {
+    console.error(chalk.red("Usage: eval-test/agent-eval.ts <dataset.json> [--task <id,...>] [--no-judge] [--out <dir>] [--braintrust <project>]"));
+    process.exit(1);
+  }
+
+  const dataset = loadEvalDataset(datasetFile);
+  const timestamp = new Date().toISOString().replace(/[-:]/g, "").replace("T", "_").substring(0, 15);
+  const outputDir = path.resolve(flag("out") ?? path.join("eval-test", "results", `${dataset.name}_${timestamp}`));
+
+  const usesJudge = dataset.tasks.some((task) => task.checks.some((check) => check.type === "judge"));
+  const judge = usesJudge && !process.argv.includes("--no-judge") ? createLlmJudge({ model: dataset.judgeModel }) : null;
+
+  console.log(chalk.bold(`Eval ${dataset.name}: ${dataset.tasks.length} task(s), judge ${judge ? dataset.judgeModel : "off"}`));
+  console.log(chalk.dim(`Output: ${outputDir}\n`));
+
+  const runner = createEvalRunner({ outputDir, judge });
+  const report = await runner.runDataset(dataset, {
+    only: flag("task")?.split(","),
+    onTaskEnd: (result) => {
+      const status = result.passed ? chalk.green("PASS") : chalk.red("FAIL");
+      const cost = result.run ? `$${result.run.cost_usd.toFixed(4)}` : "–";
+      console.log(`${status} ${result.task_id} ${chalk.dim(`score ${result.score.toFixed(2)} · ${cost} · ${(result.duration_ms / 1000).toFixed(1)}s`)}`);
+      if (result.error) console.log(chalk.red(`     ${result.error}`));
+      for (const check of result.checks.filter((check) => check.passed === false)) {
+        console.log(chalk.yellow(`     ✗ ${check.label}: ${check.detail}`));
+      }
+    },
+  });
+
+  const files = writeEvalReport(report, outputDir);
+  const { summary } = report;
+  console.log(
+    chalk.bold(`\n${summary.passed}/${summary.tasks} passed · mean score ${summary.mean_score.toFixed(2)} · $${summary.total_cost_usd.toFixed(4)}`)
+  );
+  console.log(chalk.dim(`Report: ${files.html}\n        ${files.json}`));
+
+  const project = flag("braintrust");
+  if (project) {
+    const url = await uploadToBraintrust(report, project);
+    console.log(chalk.dim(`Braintrust: ${url ?? project}`));
+  }
+
+  process.exit(summary.passed === summary.tasks ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+  process.exit(1);
+});
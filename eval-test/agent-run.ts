@@ -0,0 +1,122 @@
+/**
+ * Unattended agent run shared by evals and session replays: sends prompts one exchange at a time through query()
+ * with a profile's options, logs the session and records each exchange.
+ *
+ * Input data sources: Agent profile, prompts, Claude Agent SDK message stream
+ * Output destinations: Recorded exchanges (lib/run-recorder), session log in the given sessions directory
+ * Dependencies: @anthropic-ai/claude-agent-sdk (via lib/agent-transport), app/api/chat config, lib/session-logger,
+ *   lib/run-recorder, lib/command-policy, lib/path-guard
+ * Key exports: runUnattended(), AgentRunParams, AgentRunOutcome
+ * Side effects: Makes API calls to Claude, executes agent tools in the workspace, writes a session log
+ */
+
+import type { query, SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import { createAgentOptions, getCommandPolicy, getPathGuard, unattendedPermission } from "@/app/api/chat/config";
+import type { AgentProfile } from "@/app/api/chat/profiles";
+import { createSessionLogger } from "@/lib/session-logger";
+import { createRunRecorder, type ExchangeRecord } from "@/lib/run-recorder";
+import { withCommandPolicy } from "@/lib/command-policy";
+import { pathGuardHooks } from "@/lib/path-guard";
+import { getQueryFn } from "@/lib/agent-transport";
+
+/**
+ * What to run
+ */
+export interface AgentRunParams {
+  profile: AgentProfile;
+  workspace: string;
+  prompts: string[]; // One exchange per prompt, in order
+  sessionsDir: string; // Receives the session log
+  timeoutMs: number; // The whole run is aborted after this long
+  maxTurns?: number; // Overrides the profile's maxTurns
+  model?: string; // Overrides the profile's model
+  queryFn?: typeof query; // Default: getQueryFn() (the SDK's query(), or AGENT_MOCK_SCRIPT)
+}
+
+/**
+ * What happened
+ */
+export interface AgentRunOutcome {
+  sessionId: string | null;
+  exchanges: ExchangeRecord[]; // Fewer than the prompts when the run failed
+  error: string | null;
+}
+
+/**
+ * Run prompts as one session, unattended like the CLI: the profile's Bash policy decides, tools needing approval
+ * are refused, and file tools stay in the workspace. Errors are reported in the outcome, not thrown.
+ */
+export async function runUnattended(params: AgentRunParams): Promise<AgentRunOutcome> {
+  const { profile, workspace, prompts } = params;
+  const logger = createSessionLogger({ sessionsDir: params.sessionsDir, profile: profile.name, workspace });
+  const recorder = createRunRecorder({ cwd: workspace });
+  const abortController = new AbortController();
+  const timeout = setTimeout(() => abortController.abort(), params.timeoutMs);
+
+  const options = {
+    ...createAgentOptions(profile, workspace),
+    includePartialMessages: false,
+    ...(params.maxTurns && { maxTurns: params.maxTurns }),
+    ...(params.model && { model: params.model }),
+    canUseTool: withCommandPolicy(getCommandPolicy(profile, workspace), {
+      fallback: unattendedPermission(profile),
+      onDecision: logger.logPolicyDecision,
+    }),
+    hooks: pathGuardHooks(getPathGuard(profile, workspace), logger.logPathViolation),
+    abortController,
+  };
+
+  // Each prompt after the first waits for the previous exchange's result
+  let completed = 0;
+  let onResult = () => {};
+  const resultCount = (count: number) =>
+    new Promise<void>((resolve) => {
+      onResult = () => {
+        if (completed >= count) resolve();
+      };
+      onResult();
+    });
+
+  // Streaming input mode (required for canUseTool)
+  async function* generateMessages(): AsyncGenerator<SDKUserMessage, void, unknown> {
+    for (const [index, prompt] of prompts.entries()) {
+      await resultCount(index);
+      logger.logUserInput(prompt);
+      yield {
+        type: "user" as const,
+        session_id: "",
+        message: { role: "user" as const, content: prompt },
+        parent_tool_use_id: null,
+      };
+    }
+  }
+
+  let error: string | null = null;
+  try {
+    for await (const message of (params.queryFn ?? getQueryFn())({ prompt: generateMessages(), options })) {
+      logger.log(message);
+      recorder.record(message);
+      if (message.type === "result") {
+        completed++;
+        onResult();
+        if (completed === prompts.length) break;
+      }
+    }
+  } catch (runError) {
+    error = abortController.signal.aborted
+      ? `Timed out after ${params.timeoutMs}ms`
+      : runError instanceof Error
+        ? runError.message
+        : String(runError);
+  } finally {
+    clearTimeout(timeout);
+    logger.close();
+  }
+
+  const exchanges = recorder.exchanges();
+  return {
+    sessionId: recorder.getSessionId(),
+    exchanges,
+    error: error ?? (exchanges.length < prompts.length ? "The run ended before every prompt got a result" : null),
+  };
+}
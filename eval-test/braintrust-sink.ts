@@ -0,0 +1,65 @@
+/**
+ * Optional Braintrust sink for eval reports: logs each task as an experiment row with its scores.
+ *
+ * Input data sources: Eval report from eval-test/runner.ts, BRAINTRUST_API_KEY environment variable
+ * Output destinations: Braintrust experiment in the given project
+ * Dependencies: braintrust (loaded only when the sink is used)
+ * Key exports: uploadToBraintrust()
+ * Side effects: Makes API calls to Braintrust
+ */
+
+import type { EvalReport } from "./runner";
+
+/**
+ * Upload a report as a Braintrust experiment. Scores are the task score, pass/fail, and the mean score of each
+ * check type, so experiments of the same dataset compare by name.
+ *
+ * @param report - Eval report
+ * @param project - Braintrust project name
+ * @returns Link to the experiment, when Braintrust returns one
+ */
+export async function uploadToBraintrust(report: EvalReport, project: string): Promise<string | undefined> {
+  const { init } = await import("braintrust");
+  const experiment = init(project, {
+    experiment: `${report.dataset}-${report.started_at.replace(/[-:]/g, "").substring(0, 15)}`,
+    metadata: { dataset: report.dataset, judge: report.judge },
+  });
+
+  for (const task of report.tasks) {
+    const byType = new Map<string, number[]>();
+    for (const check of task.checks) {
+      if (check.score === null) continue;
+      byType.set(check.type, [...(byType.get(check.type) ?? []), check.score]);
+    }
+
+    experiment.log({
+      input: task.prompt,
+      output: task.run?.final_text ?? null,
+      expected: task.checks.map((check) => check.label),
+      error: task.error ?? undefined,
+      scores: {
+        score: task.score,
+        passed: task.passed ? 1 : 0,
+        ...Object.fromEntries(
+          [...byType].map(([type, scores]) => [type, scores.reduce((sum, score) => sum + score, 0) / scores.length])
+        ),
+      },
+      metadata: {
+        task_id: task.task_id,
+        profile: task.profile,
+        session_id: task.session_id,
+        checks: task.checks,
+        tool_calls: task.run?.tool_calls.map((call) => call.name) ?? [],
+        files_touched: task.run?.files_touched ?? [],
+      },
+      metrics: {
+        cost_usd: task.run?.cost_usd ?? 0,
+        num_turns: task.run?.num_turns ?? 0,
+        duration_ms: task.duration_ms,
+      },
+    });
+  }
+
+  const summary = await experiment.summarize();
+  return summary.experimentUrl;
+}
@@ -0,0 +1,161 @@
+/**
+ * Scorers for eval tasks: deterministic checks on the workspace, commands, final answer and tool calls,
+ * plus optional LLM-judge checks.
+ *
+ * Input data sources: Task checks (eval-test/dataset.ts), recorded exchange (lib/run-recorder), task workspace
+ * Output destinations: Check results used by eval-test/runner.ts
+ * Dependencies: Node.js fs, path and child_process modules, eval-test/judge.ts
+ * Key exports: runChecks(), describeCheck(), CheckResult
+ * Side effects: Reads workspace files, runs check commands in the workspace, calls the judge model
+ */
+
+import fs from "fs";
+import path from "path";
+import { spawnSync } from "child_process";
+import type { ExchangeRecord } from "@/lib/run-recorder";
+import type { EvalCheck } from "./dataset";
+import type { LlmJudge } from "./judge";
+
+/**
+ * Outcome of one check
+ */
+export interface CheckResult {
+  type: EvalCheck["type"];
+  label: string;
+  passed: boolean | null; // null when skipped (judge checks without a judge)
+  score: number | null; // 0 to 1; null when skipped
+  detail: string;
+}
+
+// Check commands and tool outputs are cut to this length in details
+const MAX_DETAIL_CHARS = 300;
+
+/**
+ * Short human-readable name of a check, e.g. `file_contains hello.txt /Hello/`
+ */
+export function describeCheck(check: EvalCheck): string {
+  switch (check.type) {
+    case "file_exists":
+      return `file_exists ${check.path}${check.exists ? "" : " (absent)"}`;
+    case "file_contains":
+      return `file_contains ${check.path} ${check.pattern !== undefined ? `/${check.pattern}/${check.flags}` : JSON.stringify(check.text)}`;
+    case "command":
+      return `command ${check.command} → ${check.exitCode}`;
+    case "final_text":
+      return `final_text ${check.negate ? "!" : ""}/${check.pattern}/${check.flags}`;
+    case "tool_calls":
+      return `tool_calls${check.required.length ? ` required ${check.required.join(",")}` : ""}${
+        check.forbidden.length ? ` forbidden ${check.forbidden.join(",")}` : ""
+      }${check.maxCalls !== undefined ? ` max ${check.maxCalls}` : ""}${check.noErrors ? " no errors" : ""}`;
+    case "judge":
+      return `judge ${check.criteria.slice(0, 60)}`;
+  }
+}
+
+/**
+ * Files in the workspace, relative and "/"-separated (for the judge)
+ */
+function listFiles(root: string, dir = root): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.name === ".git" || entry.name === "node_modules") return [];
+    const absolute = path.join(dir, entry.name);
+    return entry.isDirectory()
+      ? listFiles(root, absolute)
+      : [path.relative(root, absolute).split(path.sep).join("/")];
+  });
+}
+
+function result(check: EvalCheck, passed: boolean, detail: string): CheckResult {
+  return { type: check.type, label: describeCheck(check), passed, score: passed ? 1 : 0, detail };
+}
+
+/**
+ * Run one deterministic check
+ */
+function runDeterministic(check: Exclude<EvalCheck, { type: "judge" }>, run: ExchangeRecord, workspace: string) {
+  switch (check.type) {
+    case "file_exists": {
+      const exists = fs.existsSync(path.join(workspace, check.path));
+      return result(check, exists === check.exists, exists ? "File exists" : "File not found");
+    }
+    case "file_contains": {
+      const file = path.join(workspace, check.path);
+      if (!fs.existsSync(file)) return result(check, false, "File not found");
+      const content = fs.readFileSync(file, "utf-8");
+      const found =
+        check.pattern !== undefined ? new RegExp(check.pattern, check.flags).test(content) : content.includes(check.text!);
+      return result(check, found, found ? "Match found" : `No match in ${content.length} characters`);
+    }
+    case "command": {
+      const output = spawnSync(check.command, { cwd: workspace, shell: true, encoding: "utf-8", timeout: check.timeoutMs });
+      if (output.error) return result(check, false, output.error.message);
+      const stdout = output.stdout ?? "";
+      const exitOk = output.status === check.exitCode;
+      const stdoutOk = check.stdout === undefined || new RegExp(check.stdout).test(stdout);
+      const tail = (stdout + (output.stderr ?? "")).trim().slice(-MAX_DETAIL_CHARS);
+      return result(check, exitOk && stdoutOk, `Exit code ${output.status}${stdoutOk ? "" : ", output doesn't match"}: ${tail}`);
+    }
+    case "final_text": {
+      const matches = new RegExp(check.pattern, check.flags).test(run.final_text);
+      return result(check, matches !== check.negate, matches ? "Answer matches" : "Answer doesn't match");
+    }
+    case "tool_calls": {
+      const names = run.tool_calls.map((call) => call.name);
+      const problems = [
+        ...check.required.filter((name) => !names.includes(name)).map((name) => `${name} not called`),
+        ...check.forbidden.filter((name) => names.includes(name)).map((name) => `${name} called`),
+        ...(check.maxCalls !== undefined && names.length > check.maxCalls
+          ? [`${names.length} calls (max ${check.maxCalls})`]
+          : []),
+        ...(check.noErrors
+          ? run.tool_calls.filter((call) => call.is_error).map((call) => `${call.name} returned an error`)
+          : []),
+      ];
+      return result(check, problems.length === 0, problems.join("; ") || `${names.length} calls: ${names.join(", ")}`);
+    }
+  }
+}
+
+/**
+ * Score a task run with its checks. A check that throws fails with the error as its detail.
+ *
+ * @param checks - Checks of the task
+ * @param context - Task prompt, recorded exchange, workspace, and the judge (null skips judge checks)
+ * @returns One result per check, in order
+ */
+export async function runChecks(
+  checks: EvalCheck[],
+  context: { prompt: string; run: ExchangeRecord; workspace: string; judge: LlmJudge | null }
+): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+
+  for (const check of checks) {
+    try {
+      if (check.type !== "judge") {
+        results.push(runDeterministic(check, context.run, context.workspace));
+        continue;
+      }
+
+      if (!context.judge) {
+        results.push({ type: check.type, label: describeCheck(check), passed: null, score: null, detail: "Skipped (no judge)" });
+        continue;
+      }
+      const verdict = await context.judge.grade({
+        prompt: context.prompt,
+        criteria: check.criteria,
+        run: context.run,
+        files: listFiles(context.workspace),
+      });
+      results.push({
+        type: check.type,
+        label: describeCheck(check),
+        passed: verdict.score >= check.threshold,
+        score: verdict.score,
+        detail: verdict.reasoning,
+      });
+    } catch (error) {
+      results.push(result(check, false, `Check failed: ${error instanceof Error ? error.message : error}`));
+    }
+  }
+  return results;
+}
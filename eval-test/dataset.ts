@@ -0,0 +1,130 @@
+/**
+ * Eval dataset format for the Claude agent: tasks with a prompt, seed workspace files and the checks that score
+ * the outcome.
+ *
+ * Input data sources: Dataset JSON files (e.g. eval-test/datasets/*.json)
+ * Output destinations: Used by eval-test/runner.ts and eval-test/agent-eval.ts
+ * Dependencies: zod, Node.js fs module, path module
+ * Key exports: loadEvalDataset(), evalDatasetSchema, evalCheckSchema, EvalDataset, EvalTask, EvalCheck
+ * Side effects: Reads the dataset file
+ */
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+
+// Paths relative to the task workspace, never leaving it
+const workspacePath = z
+  .string()
+  .min(1)
+  .refine((value) => !path.isAbsolute(value) && !value.split(/[\\/]/).includes(".."), {
+    message: "Use a path relative to the workspace, without ..",
+  });
+
+const regexFlags = z.string().regex(/^[imsu]*$/, "Only i, m, s and u flags are allowed").default("");
+
+/**
+ * Schema for one check. Deterministic checks score 0 or 1; a judge check scores 0 to 1.
+ */
+export const evalCheckSchema = z.discriminatedUnion("type", [
+  // A file exists (or, with exists: false, doesn't) after the run
+  z.object({ type: z.literal("file_exists"), path: workspacePath, exists: z.boolean().default(true) }).strict(),
+  // A file contains a string or matches a regex
+  z
+    .object({
+      type: z.literal("file_contains"),
+      path: workspacePath,
+      text: z.string().optional(),
+      pattern: z.string().optional(),
+      flags: regexFlags,
+    })
+    .strict()
+    .refine((check) => (check.text === undefined) !== (check.pattern === undefined), {
+      message: "Set exactly one of text or pattern",
+    }),
+  // A shell command run in the workspace after the agent finishes exits with this code (and optionally prints a match)
+  z
+    .object({
+      type: z.literal("command"),
+      command: z.string().min(1),
+      exitCode: z.number().int().default(0),
+      stdout: z.string().optional(), // Regex the output must match
+      timeoutMs: z.number().int().positive().default(60_000),
+    })
+    .strict(),
+  // The final answer matches a regex (or, with negate, doesn't)
+  z
+    .object({
+      type: z.literal("final_text"),
+      pattern: z.string().min(1),
+      flags: regexFlags,
+      negate: z.boolean().default(false),
+    })
+    .strict(),
+  // Constraints on the tools the agent called
+  z
+    .object({
+      type: z.literal("tool_calls"),
+      required: z.array(z.string()).default([]), // Each must be called at least once
+      forbidden: z.array(z.string()).default([]), // None may be called
+      maxCalls: z.number().int().nonnegative().optional(),
+      noErrors: z.boolean().default(false), // No tool call may return an error
+    })
+    .strict(),
+  // LLM judge grading the outcome against criteria (skipped with --no-judge)
+  z
+    .object({
+      type: z.literal("judge"),
+      criteria: z.string().min(1),
+      threshold: z.number().min(0).max(1).default(0.7), // Minimum score to pass
+    })
+    .strict(),
+]);
+
+/**
+ * Schema for one task
+ */
+export const evalTaskSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9_-]+$/, "Use lowercase letters, digits, dashes and underscores"),
+    prompt: z.string().min(1),
+    profile: z.string().optional(), // Overrides the dataset's profile
+    files: z.record(workspacePath, z.string()).default({}), // Seed files written into the fresh workspace
+    checks: z.array(evalCheckSchema).min(1),
+    maxTurns: z.number().int().positive().optional(), // Overrides the profile's maxTurns
+    timeoutMs: z.number().int().positive().default(600_000), // The run is aborted after this long
+  })
+  .strict();
+
+/**
+ * Schema for a dataset file
+ */
+export const evalDatasetSchema = z
+  .object({
+    name: z.string().regex(/^[a-z0-9_-]+$/, "Use lowercase letters, digits, dashes and underscores"),
+    description: z.string().default(""),
+    profile: z.string().default("default"), // Agent profile the tasks run with
+    judgeModel: z.string().default("claude-haiku-4-5"), // Anthropic model for judge checks
+    tasks: z.array(evalTaskSchema).min(1),
+  })
+  .strict()
+  .refine((dataset) => new Set(dataset.tasks.map((task) => task.id)).size === dataset.tasks.length, {
+    message: "Task ids must be unique",
+  });
+
+export type EvalDataset = z.infer<typeof evalDatasetSchema>;
+export type EvalTask = z.infer<typeof evalTaskSchema>;
+export type EvalCheck = z.infer<typeof evalCheckSchema>;
+
+/**
+ * Load and validate a dataset file
+ *
+ * @throws Error naming the file when it is missing or fails validation
+ */
+export function loadEvalDataset(file: string): EvalDataset {
+  const result = evalDatasetSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf-8")));
+  if (!result.success) {
+    throw new Error(`Invalid dataset ${file}:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,97 @@
+/**
+ * LLM judge for eval tasks: asks a Claude model to grade an agent's outcome against written criteria.
+ *
+ * Input data sources: Task prompt, recorded exchange (final answer, tool calls), workspace file list, judge criteria
+ * Output destinations: Used by eval-test/checks.ts (judge checks)
+ * Dependencies: @anthropic-ai/sdk, lib/run-recorder types, ANTHROPIC_API_KEY environment variable
+ * Key exports: createLlmJudge(), JudgeVerdict, LlmJudge
+ * Side effects: Makes API calls to Claude
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type { ExchangeRecord } from "@/lib/run-recorder";
+
+/**
+ * Grade from the judge
+ */
+export interface JudgeVerdict {
+  score: number; // 0 to 1
+  reasoning: string;
+}
+
+/**
+ * What the judge sees of a task run
+ */
+interface JudgeInput {
+  prompt: string;
+  criteria: string;
+  run: ExchangeRecord;
+  files: string[]; // Workspace file paths after the run
+}
+
+// Tool outputs can be long; the judge sees the start of each
+const MAX_OUTPUT_CHARS = 500;
+
+function describeRun({ prompt, run, files }: Omit<JudgeInput, "criteria">): string {
+  const toolCalls = run.tool_calls
+    .map(
+      (call, index) =>
+        `${index + 1}. ${call.name} ${JSON.stringify(call.input)}${call.is_error ? " (error)" : ""}\n` +
+        `   → ${(call.output ?? "").slice(0, MAX_OUTPUT_CHARS)}`
+    )
+    .join("\n");
+
+  return [
+    `<task>\n${prompt}\n</task>`,
+    `<tool_calls>\n${toolCalls || "(none)"}\n</tool_calls>`,
+    `<workspace_files>\n${files.join("\n") || "(empty)"}\n</workspace_files>`,
+    `<final_answer>\n${run.final_text}\n</final_answer>`,
+    `<ended>${run.result_subtype}</ended>`,
+  ].join("\n\n");
+}
+
+/**
+ * Create an LLM judge.
+ *
+ * @param options - Anthropic model id and client (default: new client using ANTHROPIC_API_KEY)
+ * @returns Judge object with a method to grade a run
+ */
+export function createLlmJudge(options: { model: string; client?: Anthropic }) {
+  const client = options.client ?? new Anthropic();
+
+  /**
+   * Public API: Grade a run against criteria
+   *
+   * @throws Error when the judge's answer has no score
+   */
+  async function grade(input: JudgeInput): Promise<JudgeVerdict> {
+    const response = await client.messages.create({
+      model: options.model,
+      max_tokens: 1024,
+      system:
+        "You grade the work of an AI coding agent. Judge only against the criteria. " +
+        'Answer with a single JSON object: {"reasoning": "<one short paragraph>", "score": <number from 0 to 1>}.',
+      messages: [
+        {
+          role: "user",
+          content: `${describeRun(input)}\n\n<criteria>\n${input.criteria}\n</criteria>`,
+        },
+      ],
+    });
+
+    const text = response.content.map((block) => (block.type === "text" ? block.text : "")).join("");
+    const json = text.match(/\{[\s\S]*\}/);
+    const parsed = json ? (JSON.parse(json[0]) as Partial<JudgeVerdict>) : {};
+    if (typeof parsed.score !== "number") {
+      throw new Error(`Judge answer has no score: ${text.slice(0, 200)}`);
+    }
+    return { score: Math.min(1, Math.max(0, parsed.score)), reasoning: String(parsed.reasoning ?? "") };
+  }
+
+  // Return public API
+  return {
+    grade,
+  };
+}
+
+export type LlmJudge = ReturnType<typeof createLlmJudge>;
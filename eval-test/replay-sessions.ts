@@ -0,0 +1,120 @@
+/**
+ * CLI for replay-based regression testing: records a logged session as a fixture, or replays fixtures against the
+ * current profile config and prints the drift of each exchange.
+ *
+ * Input data sources: record <session_id> [--name <name>] [--seed <dir>] [--sessions <dir>];
+ *   run <fixture.json...> [--profile <name>] [--model <model>] [--out <dir>] [--fail-on-drift];
+ *   .env.local (ANTHROPIC_API_KEY)
+ * Output destinations: Terminal stdout, eval-test/fixtures/<name>.json (record), <out>/replay.json (run)
+ * Dependencies: chalk, dotenv, Node.js fs module, path module, eval-test/replay.ts
+ * Key exports: None (executable script)
+ * Side effects: record writes a fixture file; run makes API calls to Claude, executes agent tools and writes the
+ *   output directory (default eval-test/results/replay_<timestamp>/); with --fail-on-drift, exits with code 1
+ *   when an exchange drifted or a replay failed
+ *
+ * Usage: npx tsx eval-test/replay-sessions.ts record <session_id> [--name <name>] [--seed <dir>]
+ *        npx tsx eval-test/replay-sessions.ts run eval-test/fixtures/*.json [--profile <name>] [--fail-on-drift]
+ */
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import dotenv from "dotenv";
+import { createFixture, createReplayRunner, loadFixture, type FixtureReplay } from "./replay";
+
+dotenv.config({ path: ".env.local" });
+
+const FIXTURES_DIR = path.join("eval-test", "fixtures");
+const VALUE_FLAGS = ["name", "seed", "sessions", "profile", "model", "out"];
+
+// Value of --<flag> <value>
+function flag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+// Positional arguments after the command, skipping flags and their values
+function positionals(): string[] {
+  const args = process.argv.slice(3);
+  return args.filter(
+    (arg, index) => !arg.startsWith("--") && !(index > 0 && VALUE_FLAGS.includes(args[index - 1].replace(/^--/, "")))
+  );
+}
+
+function usage(): never {
+  console.error(chalk.red("Usage: eval-test/replay-sessions.ts record <session_id> [--name <name>] [--seed <dir>] [--sessions <dir>]"));
+  console.error(chalk.red("       eval-test/replay-sessions.ts run <fixture.json...> [--profile <name>] [--model <model>] [--out <dir>] [--fail-on-drift]"));
+  process.exit(1);
+}
+
+function record() {
+  const [sessionId] = positionals();
+  if (!sessionId) usage();
+
+  const name = flag("name") ?? sessionId.toLowerCase().replace(/[^a-z0-9_-]/g, "-");
+  const fixture = createFixture(sessionId, { name, seedDir: flag("seed"), sessionsDir: flag("sessions") });
+  const file = path.join(FIXTURES_DIR, `${fixture.name}.json`);
+  fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + "\n");
+
+  console.log(chalk.green(`Fixture written: ${file}`));
+  console.log(
+    chalk.dim(`${fixture.exchanges.length} exchange(s) · profile ${fixture.profile} · ${Object.keys(fixture.files).length} seed file(s)`)
+  );
+}
+
+function printReplay(replay: FixtureReplay) {
+  const status =
+    replay.status === "match" ? chalk.green("MATCH") : replay.status === "drift" ? chalk.yellow("DRIFT") : chalk.red("ERROR");
+  const cost = `$${replay.cost_usd.actual.toFixed(4)} (recorded $${replay.cost_usd.expected.toFixed(4)})`;
+  console.log(`${status} ${replay.fixture} ${chalk.dim(`${replay.profile} · ${replay.model} · ${cost}`)}`);
+  if (replay.error) console.log(chalk.red(`     ${replay.error}`));
+
+  for (const exchange of replay.exchanges) {
+    if (exchange.status === "match") continue;
+    const label = `     #${exchange.exchange} ${exchange.status}`;
+    if (exchange.drifts.length === 0) console.log(chalk.dim(label));
+    for (const drift of exchange.drifts) console.log(chalk.yellow(`${label}: ${drift}`));
+  }
+}
+
+async function run() {
+  const files = positionals();
+  if (files.length === 0) usage();
+
+  const fixtures = files.map(loadFixture);
+  const timestamp = new Date().toISOString().replace(/[-:]/g, "").replace("T", "_").substring(0, 15);
+  const outputDir = path.resolve(flag("out") ?? path.join("eval-test", "results", `replay_${timestamp}`));
+
+  console.log(chalk.bold(`Replaying ${fixtures.length} fixture(s)`));
+  console.log(chalk.dim(`Output: ${outputDir}\n`));
+
+  const runner = createReplayRunner({ outputDir });
+  const replays: FixtureReplay[] = [];
+  for (const fixture of fixtures) {
+    const replay = await runner.replayFixture(fixture, { profile: flag("profile"), model: flag("model") });
+    replays.push(replay);
+    printReplay(replay);
+  }
+
+  const file = path.join(outputDir, "replay.json");
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify({ created_at: new Date().toISOString(), replays }, null, 2) + "\n");
+
+  const matched = replays.filter((replay) => replay.status === "match").length;
+  console.log(chalk.bold(`\n${matched}/${replays.length} matched the recording`));
+  console.log(chalk.dim(`Report: ${file}`));
+
+  process.exit(process.argv.includes("--fail-on-drift") && matched < replays.length ? 1 : 0);
+}
+
+async function main() {
+  const command = process.argv[2];
+  if (command === "record") record();
+  else if (command === "run") await run();
+  else usage();
+}
+
+main().catch((error) => {
+  console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+  process.exit(1);
+});
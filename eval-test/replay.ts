@@ -0,0 +1,343 @@
+/**
+ * Replay-based regression testing: turns a logged session into a fixture (its user inputs plus what each exchange
+ * did), replays the inputs against the current profile config and reports drift in tool calls, files touched,
+ * final answer and cost.
+ *
+ * Input data sources: /sessions/*.jsonl (via lib/session-reader), fixture files (eval-test/fixtures/*.json),
+ *   optional seed directory, agent profiles
+ * Output destinations: Fixtures, drift reports, <outputDir>/workspaces and <outputDir>/sessions of the replays
+ * Dependencies: zod, Node.js fs module, path module, lib/session-reader, lib/run-recorder, lib/workspaces,
+ *   app/api/chat/profiles, eval-test/agent-run.ts
+ * Key exports: createFixture(), loadFixture(), compareExchange(), createReplayRunner(), replayFixtureSchema,
+ *   DEFAULT_TOLERANCES, ReplayFixture, ExchangeDrift, FixtureReplay, DriftTolerances
+ * Side effects: Reads session logs and seed files; replays make API calls to Claude, execute agent tools and create
+ *   workspaces and session logs under the output directory
+ */
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type { query } from "@anthropic-ai/claude-agent-sdk";
+import { getProfile, getWorkspaceTemplateDir } from "@/app/api/chat/profiles";
+import { createSessionReader } from "@/lib/session-reader";
+import { filesTouched, type ExchangeRecord } from "@/lib/run-recorder";
+import { createWorkspaceManager } from "@/lib/workspaces";
+import { runUnattended } from "./agent-run";
+
+/**
+ * Schema for a fixture file
+ */
+export const replayFixtureSchema = z
+  .object({
+    name: z.string().regex(/^[a-z0-9_-]+$/, "Use lowercase letters, digits, dashes and underscores"),
+    source: z.object({
+      session_id: z.string(),
+      started_at: z.string(),
+      model: z.string(),
+    }),
+    profile: z.string(),
+    files: z.record(z.string(), z.string()).default({}), // Seed files written into the replay workspace
+    exchanges: z
+      .array(
+        z.object({
+          user_input: z.string(),
+          interrupted: z.boolean().default(false), // Replayed, but not compared
+          expected: z.object({
+            tool_calls: z.array(z.string()), // Tool names in call order
+            files_touched: z.array(z.string()),
+            final_text: z.string(),
+            cost_usd: z.number(),
+            num_turns: z.number(),
+          }),
+        })
+      )
+      .min(1),
+  })
+  .strict();
+
+export type ReplayFixture = z.infer<typeof replayFixtureSchema>;
+
+/**
+ * Limits beyond which a difference counts as drift
+ */
+export interface DriftTolerances {
+  toolSimilarity: number; // Minimum similarity of the tool-call sequences (0 to 1)
+  textSimilarity: number; // Minimum word overlap of the final answers (0 to 1)
+  costRatio: number; // Maximum replay cost as a multiple of the recorded cost
+}
+
+export const DEFAULT_TOLERANCES: DriftTolerances = {
+  toolSimilarity: 0.8,
+  textSimilarity: 0.5,
+  costRatio: 1.5,
+};
+
+/**
+ * Comparison of one replayed exchange with its recording
+ */
+export interface ExchangeDrift {
+  exchange: number; // 1-based position in the fixture
+  status: "match" | "drift" | "skipped" | "missing";
+  drifts: string[]; // Human-readable differences beyond tolerance
+  tool_calls: { expected: string[]; actual: string[]; similarity: number };
+  files: { missing: string[]; extra: string[] };
+  final_text: { expected: string; actual: string; similarity: number };
+  cost_usd: { expected: number; actual: number };
+}
+
+/**
+ * Result of replaying one fixture
+ */
+export interface FixtureReplay {
+  fixture: string;
+  profile: string;
+  model: string;
+  session_id: string | null;
+  workspace: string | null;
+  status: "match" | "drift" | "error";
+  error: string | null;
+  exchanges: ExchangeDrift[];
+  cost_usd: { expected: number; actual: number };
+}
+
+// Seed directories larger than this per file are not copied into fixtures
+const MAX_SEED_FILE_BYTES = 256 * 1024;
+
+/**
+ * Similarity of two sequences: 2 × longest common subsequence / total length (1 when both are empty)
+ */
+function sequenceSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      lengths[i][j] = a[i - 1] === b[j - 1] ? lengths[i - 1][j - 1] + 1 : Math.max(lengths[i - 1][j], lengths[i][j - 1]);
+    }
+  }
+  return (2 * lengths[a.length][b.length]) / (a.length + b.length);
+}
+
+/**
+ * Word overlap of two texts (Jaccard index of their lowercase words; 1 when both are empty)
+ */
+function textSimilarity(a: string, b: string): number {
+  const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []);
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 && right.size === 0) return 1;
+  const shared = [...left].filter((word) => right.has(word)).length;
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Text files under a directory, keyed by "/"-separated relative path
+ */
+function readSeedFiles(dir: string): Record<string, string> {
+  const files: Record<string, string> = {};
+  const walk = (current: string) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      if (entry.name === ".git" || entry.name === "node_modules") continue;
+      const absolute = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        walk(absolute);
+      } else if (entry.isFile() && fs.statSync(absolute).size <= MAX_SEED_FILE_BYTES) {
+        const content = fs.readFileSync(absolute);
+        if (content.includes(0)) continue; // Binary
+        files[path.relative(dir, absolute).split(path.sep).join("/")] = content.toString("utf-8");
+      }
+    }
+  };
+  walk(dir);
+  return files;
+}
+
+/**
+ * Build a fixture from a logged session (a fork includes the exchanges it inherited)
+ *
+ * @param sessionId - Logged session to turn into a fixture
+ * @param options - Fixture name, directory of seed files, sessions directory (default: ./sessions)
+ * @throws Error when the session isn't logged or has no exchanges
+ */
+export function createFixture(
+  sessionId: string,
+  options: { name: string; seedDir?: string; sessionsDir?: string }
+): ReplayFixture {
+  const session = createSessionReader({ sessionsDir: options.sessionsDir }).getSession(sessionId);
+  if (!session) throw new Error(`Session not found: ${sessionId}`);
+
+  const exchanges = [...session.inherited_exchanges, ...session.exchanges];
+  if (exchanges.length === 0) throw new Error(`Session ${sessionId} has no exchanges`);
+
+  return replayFixtureSchema.parse({
+    name: options.name,
+    source: { session_id: session.session_id, started_at: session.started_at, model: session.model },
+    profile: session.profile ?? "default",
+    files: options.seedDir ? readSeedFiles(options.seedDir) : {},
+    exchanges: exchanges.map((exchange) => {
+      const toolCalls = exchange.items.flatMap((item) =>
+        item.kind === "tool" ? [{ name: item.name, input: item.input, is_error: item.result?.is_error ?? false }] : []
+      );
+      const texts = exchange.items.flatMap((item) => (item.kind === "text" ? [item.text] : []));
+      return {
+        user_input: exchange.user_input,
+        interrupted: exchange.interrupted,
+        expected: {
+          tool_calls: toolCalls.map((call) => call.name),
+          files_touched: filesTouched(toolCalls, session.workspace ?? undefined),
+          final_text: texts[texts.length - 1] ?? "",
+          cost_usd: exchange.stats?.cost_usd ?? 0,
+          num_turns: exchange.stats?.num_turns ?? 0,
+        },
+      };
+    }),
+  });
+}
+
+/**
+ * Load and validate a fixture file
+ *
+ * @throws Error naming the file when it fails validation
+ */
+export function loadFixture(file: string): ReplayFixture {
+  const result = replayFixtureSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf-8")));
+  if (!result.success) {
+    throw new Error(`Invalid fixture ${file}:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Compare a replayed exchange with its recording
+ *
+ * @param index - 0-based position in the fixture
+ * @param expected - Recorded exchange
+ * @param actual - Replayed exchange, or null if the replay stopped before it
+ */
+export function compareExchange(
+  index: number,
+  expected: ReplayFixture["exchanges"][number],
+  actual: ExchangeRecord | null,
+  tolerances: DriftTolerances = DEFAULT_TOLERANCES
+): ExchangeDrift {
+  const actualTools = actual?.tool_calls.map((call) => call.name) ?? [];
+  const actualFiles = actual?.files_touched ?? [];
+  const drift: ExchangeDrift = {
+    exchange: index + 1,
+    status: "match",
+    drifts: [],
+    tool_calls: {
+      expected: expected.expected.tool_calls,
+      actual: actualTools,
+      similarity: sequenceSimilarity(expected.expected.tool_calls, actualTools),
+    },
+    files: {
+      missing: expected.expected.files_touched.filter((file) => !actualFiles.includes(file)),
+      extra: actualFiles.filter((file) => !expected.expected.files_touched.includes(file)),
+    },
+    final_text: {
+      expected: expected.expected.final_text,
+      actual: actual?.final_text ?? "",
+      similarity: textSimilarity(expected.expected.final_text, actual?.final_text ?? ""),
+    },
+    cost_usd: { expected: expected.expected.cost_usd, actual: actual?.cost_usd ?? 0 },
+  };
+
+  if (!actual) return { ...drift, status: "missing", drifts: ["Not replayed"] };
+  if (expected.interrupted) return { ...drift, status: "skipped", drifts: [] };
+
+  if (actual.is_error) drift.drifts.push(`Ended with ${actual.result_subtype}`);
+  if (drift.tool_calls.similarity < tolerances.toolSimilarity) {
+    drift.drifts.push(
+      `Tool calls ${drift.tool_calls.similarity.toFixed(2)} similar: ` +
+        `[${drift.tool_calls.expected.join(", ")}] → [${drift.tool_calls.actual.join(", ")}]`
+    );
+  }
+  if (drift.files.missing.length > 0) drift.drifts.push(`Files no longer touched: ${drift.files.missing.join(", ")}`);
+  if (drift.files.extra.length > 0) drift.drifts.push(`Files newly touched: ${drift.files.extra.join(", ")}`);
+  if (drift.final_text.similarity < tolerances.textSimilarity) {
+    drift.drifts.push(`Final answer ${drift.final_text.similarity.toFixed(2)} similar`);
+  }
+  if (expected.expected.cost_usd > 0 && actual.cost_usd > expected.expected.cost_usd * tolerances.costRatio) {
+    drift.drifts.push(`Cost $${actual.cost_usd.toFixed(4)} vs recorded $${expected.expected.cost_usd.toFixed(4)}`);
+  }
+
+  return { ...drift, status: drift.drifts.length > 0 ? "drift" : "match" };
+}
+
+/**
+ * Create a replay runner instance.
+ *
+ * @param options - Output directory for replay workspaces and session logs, query() replacement
+ * @returns Runner object with a method to replay a fixture
+ */
+export function createReplayRunner(options: { outputDir: string; queryFn?: typeof query }) {
+  const outputDir = path.resolve(options.outputDir);
+  const workspaces = createWorkspaceManager({ rootDir: path.join(outputDir, "workspaces") });
+
+  /**
+   * Public API: Replay a fixture's user inputs as one session and compare each exchange with the recording
+   *
+   * @param replayOptions - Profile and model overrides (default: the fixture's profile and that profile's model),
+   *   drift tolerances, timeout for the whole session
+   */
+  async function replayFixture(
+    fixture: ReplayFixture,
+    replayOptions?: { profile?: string; model?: string; tolerances?: DriftTolerances; timeoutMs?: number }
+  ): Promise<FixtureReplay> {
+    const profileName = replayOptions?.profile ?? fixture.profile;
+    const profile = getProfile(profileName);
+    const expectedCost = fixture.exchanges.reduce((sum, exchange) => sum + exchange.expected.cost_usd, 0);
+    const base = { fixture: fixture.name, profile: profileName, model: replayOptions?.model ?? profile?.model ?? "" };
+
+    if (!profile) {
+      return {
+        ...base,
+        session_id: null,
+        workspace: null,
+        status: "error",
+        error: `Unknown profile: ${profileName}`,
+        exchanges: [],
+        cost_usd: { expected: expectedCost, actual: 0 },
+      };
+    }
+
+    const workspace = workspaces.createWorkspace(getWorkspaceTemplateDir(profile));
+    for (const [relative, content] of Object.entries(fixture.files)) {
+      const file = path.join(workspace, relative);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, content);
+    }
+
+    const outcome = await runUnattended({
+      profile,
+      workspace,
+      prompts: fixture.exchanges.map((exchange) => exchange.user_input),
+      sessionsDir: path.join(outputDir, "sessions"),
+      timeoutMs: replayOptions?.timeoutMs ?? 30 * 60 * 1000,
+      model: replayOptions?.model,
+      queryFn: options.queryFn,
+    });
+
+    const exchanges = fixture.exchanges.map((expected, index) =>
+      compareExchange(index, expected, outcome.exchanges[index] ?? null, replayOptions?.tolerances)
+    );
+
+    return {
+      ...base,
+      session_id: outcome.sessionId,
+      workspace,
+      status: outcome.error ? "error" : exchanges.some((exchange) => exchange.status === "drift") ? "drift" : "match",
+      error: outcome.error,
+      exchanges,
+      cost_usd: {
+        expected: expectedCost,
+        actual: outcome.exchanges.reduce((sum, exchange) => sum + exchange.cost_usd, 0),
+      },
+    };
+  }
+
+  // Return public API
+  return {
+    replayFixture,
+  };
+}
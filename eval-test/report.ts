@@ -0,0 +1,94 @@
+/**
+ * Eval report writers: the full results as JSON and a self-contained HTML page with a row per task and its checks.
+ *
+ * Input data sources: Eval report from eval-test/runner.ts
+ * Output destinations: <dir>/report.json, <dir>/report.html
+ * Dependencies: Node.js fs module, path module
+ * Key exports: writeEvalReport(), renderEvalReportHtml()
+ * Side effects: Writes the report files
+ */
+
+import fs from "fs";
+import path from "path";
+import type { EvalReport } from "./runner";
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? "–" : score.toFixed(2);
+}
+
+/**
+ * Render the report as a standalone HTML page
+ */
+export function renderEvalReportHtml(report: EvalReport): string {
+  const rows = report.tasks
+    .map((task) => {
+      const checks = task.checks
+        .map(
+          (check) =>
+            `<tr class="check"><td></td><td class="${check.passed === null ? "skip" : check.passed ? "pass" : "fail"}">` +
+            `${check.passed === null ? "skip" : check.passed ? "pass" : "fail"}</td>` +
+            `<td>${formatScore(check.score)}</td><td colspan="3"><code>${escapeHtml(check.label)}</code>` +
+            `<div class="detail">${escapeHtml(check.detail)}</div></td></tr>`
+        )
+        .join("");
+      const run = task.run;
+      return (
+        `<tr class="task"><td><strong>${escapeHtml(task.task_id)}</strong><div class="detail">${escapeHtml(task.profile)}</div></td>` +
+        `<td class="${task.passed ? "pass" : "fail"}">${task.passed ? "pass" : "fail"}</td>` +
+        `<td>${formatScore(task.score)}</td>` +
+        `<td>${run ? `$${run.cost_usd.toFixed(4)}` : "–"}</td>` +
+        `<td>${run ? `${run.num_turns} turns, ${run.tool_calls.length} tools` : "–"}</td>` +
+        `<td>${(task.duration_ms / 1000).toFixed(1)}s${task.error ? `<div class="fail">${escapeHtml(task.error)}</div>` : ""}</td></tr>` +
+        checks
+      );
+    })
+    .join("\n");
+
+  const { summary } = report;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Eval ${escapeHtml(report.dataset)} – ${escapeHtml(report.started_at)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  td, th { padding: 6px 10px; border-bottom: 1px solid #e5e7eb; text-align: left; vertical-align: top; }
+  tr.task td { background: #f9fafb; }
+  .pass { color: #15803d; } .fail { color: #b91c1c; } .skip { color: #6b7280; }
+  .detail { color: #6b7280; font-size: 12px; white-space: pre-wrap; max-width: 60rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.dataset)}</h1>
+<p>${escapeHtml(report.description)}</p>
+<p>${summary.passed}/${summary.tasks} tasks passed · mean score ${summary.mean_score.toFixed(2)} · cost $${summary.total_cost_usd.toFixed(4)} ·
+judge ${report.judge ? "on" : "off"} · ${escapeHtml(report.started_at)} → ${escapeHtml(report.ended_at)}</p>
+<table>
+<thead><tr><th>Task</th><th>Result</th><th>Score</th><th>Cost</th><th>Run</th><th>Time</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write report.json and report.html into a directory
+ *
+ * @returns Paths of the written files
+ */
+export function writeEvalReport(report: EvalReport, dir: string): { json: string; html: string } {
+  fs.mkdirSync(dir, { recursive: true });
+  const json = path.join(dir, "report.json");
+  const html = path.join(dir, "report.html");
+  fs.writeFileSync(json, JSON.stringify(report, null, 2) + "\n");
+  fs.writeFileSync(html, renderEvalReportHtml(report));
+  return { json, html };
+}
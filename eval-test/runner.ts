@@ -0,0 +1,187 @@
+/**
+ * Eval runner for the Claude agent: runs each dataset task through query() in a fresh, seeded workspace with the
+ * task's profile, records the outcome and scores it with the task's checks.
+ *
+ * Input data sources: Eval dataset (eval-test/dataset.ts), agent profiles, Claude Agent SDK message stream
+ * Output destinations: Task results and the eval report, <outputDir>/workspaces (task workspaces),
+ *   <outputDir>/sessions (session logs of the runs)
+ * Dependencies: app/api/chat/profiles, lib/workspaces, eval-test/agent-run.ts, eval-test/checks.ts
+ * Key exports: createEvalRunner(), TaskResult, EvalReport
+ * Side effects: Makes API calls to Claude, executes agent tools and check commands, creates workspaces and
+ *   session logs under the output directory
+ */
+
+import fs from "fs";
+import path from "path";
+import type { query } from "@anthropic-ai/claude-agent-sdk";
+import { getProfile, getWorkspaceTemplateDir } from "@/app/api/chat/profiles";
+import { createWorkspaceManager } from "@/lib/workspaces";
+import type { ExchangeRecord } from "@/lib/run-recorder";
+import { runUnattended } from "./agent-run";
+import { runChecks, type CheckResult } from "./checks";
+import type { EvalDataset, EvalTask } from "./dataset";
+import type { LlmJudge } from "./judge";
+
+/**
+ * Options for configuring the eval runner
+ */
+interface EvalRunnerOptions {
+  outputDir: string; // Receives task workspaces and session logs
+  judge?: LlmJudge | null; // Default: null (judge checks are skipped)
+  queryFn?: typeof query; // Default: the SDK's query()
+}
+
+/**
+ * Result of one task
+ */
+export interface TaskResult {
+  task_id: string;
+  prompt: string;
+  profile: string;
+  workspace: string | null;
+  session_id: string | null;
+  run: ExchangeRecord | null; // null when the run failed before a result message
+  checks: CheckResult[];
+  score: number; // Mean score of the checks that ran
+  passed: boolean; // The run completed and every check that ran passed
+  error: string | null;
+  duration_ms: number;
+}
+
+/**
+ * Results of a dataset run
+ */
+export interface EvalReport {
+  dataset: string;
+  description: string;
+  started_at: string;
+  ended_at: string;
+  output_dir: string;
+  judge: boolean;
+  summary: {
+    tasks: number;
+    passed: number;
+    mean_score: number;
+    total_cost_usd: number;
+  };
+  tasks: TaskResult[];
+}
+
+/**
+ * Create an eval runner instance.
+ *
+ * @param options - Configuration options
+ * @returns Runner object with methods to run one task or a whole dataset
+ */
+export function createEvalRunner(options: EvalRunnerOptions) {
+  const outputDir = path.resolve(options.outputDir);
+  const judge = options.judge ?? null;
+  const queryFn = options.queryFn;
+  const workspaces = createWorkspaceManager({ rootDir: path.join(outputDir, "workspaces") });
+
+  /**
+   * Create the task workspace from the profile's template and write the task's seed files
+   */
+  function prepareWorkspace(task: EvalTask, templateDir: string | undefined): string {
+    const workspace = workspaces.createWorkspace(templateDir);
+    for (const [relative, content] of Object.entries(task.files)) {
+      const file = path.join(workspace, relative);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, content);
+    }
+    return workspace;
+  }
+
+  /**
+   * Public API: Run and score one task. Run errors are reported in the result, not thrown.
+   */
+  async function runTask(task: EvalTask, dataset: EvalDataset): Promise<TaskResult> {
+    const started = Date.now();
+    const profileName = task.profile ?? dataset.profile;
+    const base = { task_id: task.id, prompt: task.prompt, profile: profileName };
+
+    const profile = getProfile(profileName);
+    if (!profile) {
+      return {
+        ...base,
+        workspace: null,
+        session_id: null,
+        run: null,
+        checks: [],
+        score: 0,
+        passed: false,
+        error: `Unknown profile: ${profileName}`,
+        duration_ms: 0,
+      };
+    }
+
+    const workspace = prepareWorkspace(task, getWorkspaceTemplateDir(profile));
+    const outcome = await runUnattended({
+      profile,
+      workspace,
+      prompts: [task.prompt],
+      sessionsDir: path.join(outputDir, "sessions"),
+      timeoutMs: task.timeoutMs,
+      maxTurns: task.maxTurns,
+      queryFn,
+    });
+
+    const run = outcome.exchanges[0] ?? null;
+    const checks = run ? await runChecks(task.checks, { prompt: task.prompt, run, workspace, judge }) : [];
+    const scored = checks.filter((check) => check.score !== null);
+
+    return {
+      ...base,
+      workspace,
+      session_id: outcome.sessionId,
+      run,
+      checks,
+      score: scored.length > 0 ? scored.reduce((sum, check) => sum + check.score!, 0) / scored.length : 0,
+      passed: run !== null && !outcome.error && scored.every((check) => check.passed),
+      error: outcome.error,
+      duration_ms: Date.now() - started,
+    };
+  }
+
+  /**
+   * Public API: Run every task of a dataset, one after another
+   *
+   * @param runOptions - Task ids to run (default: all) and a callback after each task (e.g. progress output)
+   */
+  async function runDataset(
+    dataset: EvalDataset,
+    runOptions?: { only?: string[]; onTaskEnd?: (result: TaskResult) => void }
+  ): Promise<EvalReport> {
+    const startedAt = new Date().toISOString();
+    const tasks = runOptions?.only ? dataset.tasks.filter((task) => runOptions.only!.includes(task.id)) : dataset.tasks;
+    const results: TaskResult[] = [];
+
+    for (const task of tasks) {
+      const result = await runTask(task, dataset);
+      results.push(result);
+      runOptions?.onTaskEnd?.(result);
+    }
+
+    return {
+      dataset: dataset.name,
+      description: dataset.description,
+      started_at: startedAt,
+      ended_at: new Date().toISOString(),
+      output_dir: outputDir,
+      judge: judge !== null,
+      summary: {
+        tasks: results.length,
+        passed: results.filter((result) => result.passed).length,
+        mean_score: results.length > 0 ? results.reduce((sum, result) => sum + result.score, 0) / results.length : 0,
+        total_cost_usd: results.reduce((sum, result) => sum + (result.run?.cost_usd ?? 0), 0),
+      },
+      tasks: results,
+    };
+  }
+
+  // Return public API
+  return {
+    runTask,
+    runDataset,
+  };
+}
@@ -0,0 +1,374 @@
+/**
+ * Agent tracing fed by the SDK message stream: builds one span tree per exchange (a root exchange span with a child
+ * per model turn and per tool call; a subagent's turns and tools nest under its Task call) and hands each finished
+ * tree to the configured exporters.
+ *
+ * Input data sources: Claude Agent SDK messages and user inputs (the same calls the session logger gets),
+ *   /sessions/redaction.json
+ * Output destinations: Trace exporters (lib/braintrust-exporter, ...), with secrets and emails masked
+ * Dependencies: Node.js crypto module, lib/redaction, lib/tool-result
+ * Key exports: createAgentTracer(), AgentSpan, ExchangeTrace, TraceExporter, AgentTracer
+ * Side effects: None (exporters send the spans)
+ */
+
+import { randomBytes } from "crypto";
+import { createRedactor, loadRedactionConfig, type Redactor } from "@/lib/redaction";
+import { toolResultText } from "@/lib/tool-result";
+
+/**
+ * One finished span
+ */
+export interface AgentSpan {
+  span_id: string; // 16 hex characters
+  parent_id: string | null; // null for the exchange span
+  kind: "exchange" | "llm" | "tool";
+  name: string; // "exchange", the model, or the tool name
+  start_ms: number; // Epoch ms
+  end_ms: number;
+  input: unknown;
+  output: unknown;
+  error: string | null;
+  attributes: Record<string, string | number | boolean>;
+  metrics: Record<string, number>; // tokens_in, tokens_out, cache_read, cache_creation, cost_usd, num_turns, ...
+}
+
+/**
+ * Spans of one exchange, the exchange span first and every parent before its children
+ */
+export interface ExchangeTrace {
+  trace_id: string; // 32 hex characters
+  session_id: string;
+  spans: AgentSpan[];
+}
+
+/**
+ * Destination for finished exchange traces
+ */
+export interface TraceExporter {
+  name: string;
+  export(trace: ExchangeTrace): void; // Must not throw; sending may happen in the background
+  flush(): Promise<void>; // Resolves when everything exported so far is sent
+}
+
+/**
+ * Options for configuring the tracer
+ */
+interface AgentTracerOptions {
+  exporters: TraceExporter[]; // No exporters: every method is a no-op
+  sessionsDir?: string; // Location of redaction.json (default: "./sessions")
+  profile?: string;
+  workspace?: string;
+  userId?: string;
+  redactor?: Redactor; // Default: built-in detectors plus <sessionsDir>/redaction.json
+}
+
+/**
+ * API token usage of a model turn or a result
+ */
+interface TracedUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+/**
+ * Content block of an assistant or user message (the fields the tracer reads)
+ */
+interface TracedContentBlock {
+  type: string;
+  id?: string; // tool_use
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string; // tool_result
+  content?: unknown;
+  is_error?: boolean;
+}
+
+/**
+ * SDK message: only the fields the tracer reads; which ones are set depends on type
+ */
+interface TracedMessage {
+  type?: string;
+  subtype?: string;
+  parent_tool_use_id?: string | null;
+  // system init
+  session_id?: string;
+  model?: string;
+  // assistant and user messages
+  message?: { id?: string; model?: string; content?: string | TracedContentBlock[]; usage?: TracedUsage };
+  // result
+  result?: string;
+  errors?: string[];
+  is_error?: boolean;
+  usage?: TracedUsage;
+  total_cost_usd?: number;
+  num_turns?: number;
+  duration_ms?: number;
+  duration_api_ms?: number;
+}
+
+/**
+ * Exchange being traced
+ */
+interface OpenExchange {
+  traceId: string;
+  root: AgentSpan;
+  spans: AgentSpan[];
+  turns: Map<string, AgentSpan>; // By message.id (the SDK splits one API response into several assistant messages)
+  tools: Map<string, AgentSpan>; // By tool_use_id, until the result arrives
+  lastEventMs: number; // A model turn starts when the previous event of the exchange ended
+  pendingInput: unknown; // What the next model turn reads: the user input, then tool results
+  interrupted: boolean;
+}
+
+const newId = (bytes: number) => randomBytes(bytes).toString("hex");
+
+/**
+ * Create an agent tracer instance.
+ *
+ * @param options - Exporters and session context recorded on every exchange span
+ * @returns Tracer with the session logger's logging methods, plus an async close() that flushes the exporters
+ */
+export function createAgentTracer(options: AgentTracerOptions) {
+  const enabled = options.exporters.length > 0;
+  const sessionsDir = options.sessionsDir || "./sessions";
+  const redactor = enabled ? (options.redactor ?? createRedactor(loadRedactionConfig(sessionsDir))) : null;
+
+  let sessionId = "";
+  let model = "";
+  let current: OpenExchange | null = null;
+
+  // The SDK reports cost and API time cumulatively for the query process
+  let queryCostUsd = 0;
+  let queryDurationApiMs = 0;
+
+  function startSpan(kind: AgentSpan["kind"], name: string, parentId: string | null, startMs: number): AgentSpan {
+    return {
+      span_id: newId(8),
+      parent_id: parentId,
+      kind,
+      name,
+      start_ms: startMs,
+      end_ms: startMs,
+      input: null,
+      output: null,
+      error: null,
+      attributes: {},
+      metrics: {},
+    };
+  }
+
+  // Subagent messages nest under the Task call that started them
+  function parentOf(exchange: OpenExchange, message: TracedMessage): string {
+    const parent = message.parent_tool_use_id && exchange.spans.find(
+      (span) => span.kind === "tool" && span.attributes.tool_use_id === message.parent_tool_use_id
+    );
+    return parent ? parent.span_id : exchange.root.span_id;
+  }
+
+  function usageMetrics(usage: TracedUsage | undefined): Record<string, number> {
+    return {
+      tokens_in: usage?.input_tokens || 0,
+      tokens_out: usage?.output_tokens || 0,
+      cache_creation: usage?.cache_creation_input_tokens || 0,
+      cache_read: usage?.cache_read_input_tokens || 0,
+    };
+  }
+
+  /**
+   * Handle assistant message: a model turn, plus a tool span per tool_use block
+   */
+  function handleAssistantMessage(exchange: OpenExchange, message: TracedMessage, now: number) {
+    const content = Array.isArray(message.message?.content) ? message.message.content : [];
+    const parentId = parentOf(exchange, message);
+    const messageId: string = message.message?.id || newId(8);
+
+    let turn = exchange.turns.get(messageId);
+    if (!turn) {
+      turn = startSpan("llm", message.message?.model || model || "model", parentId, exchange.lastEventMs);
+      turn.input = exchange.pendingInput;
+      turn.output = [];
+      turn.attributes = { message_id: messageId, model: message.message?.model || model };
+      exchange.turns.set(messageId, turn);
+      exchange.spans.push(turn);
+    }
+    turn.end_ms = now;
+    turn.output = [...(turn.output as unknown[]), ...content];
+    if (message.message?.usage) turn.metrics = usageMetrics(message.message.usage);
+
+    for (const block of content) {
+      if (block.type !== "tool_use" || !block.id || !block.name) continue;
+      const tool = startSpan("tool", block.name, parentId, now);
+      tool.input = block.input ?? {};
+      tool.attributes = { tool_use_id: block.id, tool_name: block.name };
+      exchange.tools.set(block.id, tool);
+      exchange.spans.push(tool);
+    }
+
+    exchange.lastEventMs = now;
+    exchange.pendingInput = null;
+  }
+
+  /**
+   * Handle user message: tool results end their tool spans
+   */
+  function handleUserMessage(exchange: OpenExchange, message: TracedMessage, now: number) {
+    const content = Array.isArray(message.message?.content) ? message.message.content : [];
+    const results: unknown[] = [];
+
+    for (const block of content) {
+      if (block.type !== "tool_result" || !block.tool_use_id) continue;
+      const output = toolResultText(block.content);
+      results.push({ tool_use_id: block.tool_use_id, output, is_error: Boolean(block.is_error) });
+
+      const tool = exchange.tools.get(block.tool_use_id);
+      if (!tool) continue;
+      exchange.tools.delete(block.tool_use_id);
+      tool.end_ms = now;
+      tool.output = output;
+      tool.attributes.is_error = Boolean(block.is_error);
+      tool.metrics = { duration_ms: now - tool.start_ms };
+      if (block.is_error) tool.error = output;
+    }
+
+    if (results.length > 0 && !message.parent_tool_use_id) {
+      exchange.pendingInput = results;
+      exchange.lastEventMs = now;
+    }
+  }
+
+  /**
+   * Close the exchange span and send the tree to the exporters
+   */
+  function finishExchange(result: TracedMessage | null, now: number) {
+    const exchange = current;
+    if (!exchange) return;
+    current = null;
+
+    for (const tool of exchange.tools.values()) {
+      tool.end_ms = now;
+      tool.error = "The exchange ended before the tool returned";
+      tool.metrics = { duration_ms: now - tool.start_ms };
+    }
+
+    const root = exchange.root;
+    root.end_ms = now;
+    root.attributes = {
+      ...root.attributes,
+      session_id: sessionId,
+      model,
+      ...(exchange.interrupted && { interrupted: true }),
+    };
+
+    if (result) {
+      if (result.subtype) root.attributes.result_subtype = result.subtype;
+      root.output = result.subtype === "success" ? result.result : (result.errors ?? []);
+      if (result.is_error || result.subtype !== "success") {
+        root.error = [result.subtype, ...(result.errors ?? [])].join(": ");
+      }
+      root.metrics = {
+        ...usageMetrics(result.usage),
+        cost_usd: (result.total_cost_usd || 0) - queryCostUsd,
+        num_turns: result.num_turns || 0,
+        duration_ms: result.duration_ms || 0,
+        duration_api_ms: (result.duration_api_ms || 0) - queryDurationApiMs,
+      };
+      queryCostUsd = result.total_cost_usd || 0;
+      queryDurationApiMs = result.duration_api_ms || 0;
+    } else {
+      root.error = exchange.interrupted ? "Interrupted" : "The exchange ended without a result";
+    }
+
+    const spans = exchange.spans.map((span) => {
+      const fields = redactor!.redactValue({ input: span.input, output: span.output, error: span.error });
+      return fields.count === 0 ? span : { ...span, ...fields.value };
+    });
+    const trace: ExchangeTrace = { trace_id: exchange.traceId, session_id: sessionId, spans };
+
+    for (const exporter of options.exporters) {
+      try {
+        exporter.export(trace);
+      } catch (error) {
+        console.error(`[tracing] ${exporter.name} export failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Public API: Log any message from the SDK
+   */
+  function log(sdkMessage: unknown): void {
+    const message = sdkMessage as TracedMessage | null;
+    if (!enabled || !message || !message.type) return;
+    const now = Date.now();
+
+    if (message.type === "system" && message.subtype === "init") {
+      sessionId = message.session_id || "";
+      model = message.model || "";
+      return;
+    }
+    if (!current) return;
+
+    if (message.type === "assistant") handleAssistantMessage(current, message, now);
+    else if (message.type === "user") handleUserMessage(current, message, now);
+    else if (message.type === "result") finishExchange(message, now);
+  }
+
+  /**
+   * Public API: Start the span of a new exchange
+   */
+  function logUserInput(userText: string): void {
+    if (!enabled) return;
+    const now = Date.now();
+    finishExchange(null, now);
+
+    const root = startSpan("exchange", "exchange", null, now);
+    root.input = userText;
+    root.attributes = {
+      ...(options.profile && { profile: options.profile }),
+      ...(options.workspace && { workspace: options.workspace }),
+      ...(options.userId && { user_id: options.userId }),
+    };
+    current = {
+      traceId: newId(16),
+      root,
+      spans: [root],
+      turns: new Map(),
+      tools: new Map(),
+      lastEventMs: now,
+      pendingInput: userText,
+      interrupted: false,
+    };
+  }
+
+  /**
+   * Public API: Mark the current exchange as interrupted by the user
+   */
+  function markInterrupted(): void {
+    if (current) current.interrupted = true;
+  }
+
+  /**
+   * Public API: Export an exchange still open (interrupted or failed) and wait for the exporters to send everything
+   */
+  async function close(): Promise<void> {
+    if (!enabled) return;
+    finishExchange(null, Date.now());
+    await Promise.all(
+      options.exporters.map((exporter) =>
+        exporter.flush().catch((error) => console.error(`[tracing] ${exporter.name} flush failed:`, error))
+      )
+    );
+  }
+
+  // Return public API
+  return {
+    log,
+    logUserInput,
+    markInterrupted,
+    close,
+  };
+}
+
+export type AgentTracer = ReturnType<typeof createAgentTracer>;
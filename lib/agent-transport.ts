@@ -0,0 +1,40 @@
+/**
+ * Chooses the query() implementation used by the chat route, the CLI agent and unattended runs: the SDK's, a mock
+ * script named by AGENT_MOCK_SCRIPT, or one set in-process by tests.
+ *
+ * Input data sources: AGENT_MOCK_SCRIPT environment variable (path to a mock script JSON file), setQueryFn()
+ * Output destinations: query() function for callers
+ * Dependencies: @anthropic-ai/claude-agent-sdk, lib/mock-query
+ * Key exports: getQueryFn(), setQueryFn()
+ * Side effects: Reads the mock script file on each getQueryFn() call when AGENT_MOCK_SCRIPT is set
+ */
+
+import { query } from "@anthropic-ai/claude-agent-sdk";
+import { createMockQuery, loadMockScript } from "@/lib/mock-query";
+
+/**
+ * Process-wide override shared by every route bundle.
+ * Stored on globalThis so it survives Next.js dev reloads and separate route bundles.
+ */
+const store = globalThis as unknown as {
+  __queryOverride?: typeof query | null;
+};
+
+/**
+ * Replace query() for the process (null restores the default)
+ */
+export function setQueryFn(queryFn: typeof query | null): void {
+  store.__queryOverride = queryFn;
+}
+
+/**
+ * query() to use for a run. A mock script from AGENT_MOCK_SCRIPT starts over from its first turn on every call.
+ */
+export function getQueryFn(): typeof query {
+  if (store.__queryOverride) return store.__queryOverride;
+
+  const scriptFile = process.env.AGENT_MOCK_SCRIPT;
+  if (scriptFile) return createMockQuery(loadMockScript(scriptFile));
+
+  return query;
+}
@@ -0,0 +1,371 @@
+/**
+ * Authentication for the web app: local users with passwords (signed session cookie after login) and shared API
+ * tokens (Authorization: Bearer), checked by pluggable providers and stored in a local, git-ignored auth file.
+ *
+ * Input data sources: ./.agent-auth.json (users, token hashes, cookie secret), AUTH_SECRET and AUTH_DISABLED
+ *   environment variables, request headers (Cookie, Authorization)
+ * Output destinations: Used by proxy.ts, the /api/auth routes, owner and admin checks in the session, chat, workspace, usage and budget routes,
+ *   and the app/api/auth/users.ts CLI
+ * Dependencies: zod, Node.js crypto, fs and path modules
+ * Key exports: createAuth(), getRequestUser(), ownsSession(), isAdmin(), isAuthEnabled(), passwordSessionProvider,
+ *   apiTokenProvider, AUTH_COOKIE, AuthUser, AuthProvider, AuthFile, Auth
+ * Side effects: Reads the auth file; writes it when users or tokens change
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+
+/**
+ * Cookie holding the signed session of a logged-in user
+ */
+export const AUTH_COOKIE = "agent_session";
+
+const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Schema for the auth file
+ */
+const authFileSchema = z
+  .object({
+    secret: z.string().min(32).optional(), // Cookie signing key (AUTH_SECRET wins)
+    users: z
+      .record(
+        z.string().regex(/^[A-Za-z0-9_.-]+$/, "Use letters, digits, dots, dashes and underscores"),
+        z
+          .object({
+            password: z.string().optional(), // "scrypt:<salt>:<hash>"; token-only users have none
+            rateLimitPerMinute: z.number().int().positive().optional(), // Overrides RATE_LIMIT_PER_MINUTE
+            admin: z.boolean().optional(), // May change budget limits and see every user's usage
+          })
+          .strict()
+      )
+      .default({}),
+    tokens: z
+      .array(
+        z
+          .object({
+            id: z.string(), // Public prefix shown by the CLI, used to revoke
+            user: z.string(),
+            hash: z.string(), // sha256 of the token; the token itself is only shown once
+            label: z.string().default(""),
+            created_at: z.string(),
+          })
+          .strict()
+      )
+      .default([]),
+  })
+  .strict();
+
+export type AuthFile = z.infer<typeof authFileSchema>;
+
+/**
+ * Authenticated caller
+ */
+export interface AuthUser {
+  id: string;
+  method: string; // Provider that authenticated the request, e.g. "password" or "token"
+  rateLimitPerMinute?: number;
+  admin?: boolean;
+}
+
+/**
+ * Source of identities; the first provider that recognizes a request wins
+ */
+export interface AuthProvider {
+  name: string;
+  authenticate(headers: Headers, store: AuthFile, secret: string | null): AuthUser | null;
+}
+
+/**
+ * Options for configuring auth
+ */
+interface AuthOptions {
+  file?: string; // Default: AUTH_FILE or "./.agent-auth.json"
+  providers?: AuthProvider[]; // Default: [passwordSessionProvider, apiTokenProvider]
+}
+
+/**
+ * Auth is on unless AUTH_DISABLED=1 (local development without users)
+ */
+export function isAuthEnabled(): boolean {
+  return process.env.AUTH_DISABLED !== "1";
+}
+
+function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString("hex");
+  return `scrypt:${salt}:${crypto.scryptSync(password, salt, 64).toString("hex")}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  if (expected.length === 0) return false;
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function sign(value: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(value).digest("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function findUser(store: AuthFile, username: string) {
+  return Object.hasOwn(store.users, username) ? store.users[username] : undefined;
+}
+
+function readCookie(headers: Headers, name: string): string | null {
+  for (const part of (headers.get("cookie") || "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+/**
+ * Provider for users logged in with a password: verifies the signed, expiring session cookie
+ */
+export const passwordSessionProvider: AuthProvider = {
+  name: "password",
+  authenticate(headers, store, secret) {
+    const cookie = readCookie(headers, AUTH_COOKIE);
+    if (!cookie || !secret) return null;
+
+    const [user, expires, signature] = cookie.split(":");
+    if (!user || !expires || !signature) return null;
+    if (!safeEqual(signature, sign(`${user}:${expires}`, secret))) return null;
+    if (Number(expires) < Date.now() / 1000) return null;
+
+    const record = findUser(store, user);
+    if (!record?.password) return null;
+    return { id: user, method: "password", rateLimitPerMinute: record.rateLimitPerMinute, admin: record.admin };
+  },
+};
+
+/**
+ * Provider for shared API tokens sent as "Authorization: Bearer <token>"
+ */
+export const apiTokenProvider: AuthProvider = {
+  name: "token",
+  authenticate(headers, store) {
+    const match = (headers.get("authorization") || "").match(/^Bearer\s+(\S+)$/i);
+    if (!match) return null;
+
+    const hash = hashToken(match[1]);
+    const token = store.tokens.find((entry) => safeEqual(entry.hash, hash));
+    const record = token && findUser(store, token.user);
+    if (!token || !record) return null;
+    return { id: token.user, method: "token", rateLimitPerMinute: record.rateLimitPerMinute, admin: record.admin };
+  },
+};
+
+/**
+ * Create an auth instance.
+ *
+ * @param options - Configuration options
+ * @returns Auth object with methods to authenticate requests, log in and manage users and tokens
+ */
+export function createAuth(options?: AuthOptions) {
+  const file = path.resolve(options?.file || process.env.AUTH_FILE || "./.agent-auth.json");
+  const providers = options?.providers ?? [passwordSessionProvider, apiTokenProvider];
+
+  /**
+   * Read the auth file (re-read on every call so CLI changes apply without a restart)
+   *
+   * @throws Error naming the file when it fails validation
+   */
+  function readStore(): AuthFile {
+    if (!fs.existsSync(file)) return authFileSchema.parse({});
+
+    const result = authFileSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf-8")));
+    if (!result.success) {
+      throw new Error(`Invalid ${file}:\n${z.prettifyError(result.error)}`);
+    }
+    return result.data;
+  }
+
+  function writeStore(store: AuthFile): void {
+    fs.writeFileSync(file, JSON.stringify(store, null, 2) + "\n", { mode: 0o600 });
+  }
+
+  function getSecret(store: AuthFile): string | null {
+    return process.env.AUTH_SECRET || store.secret || null;
+  }
+
+  /**
+   * Public API: Identify the caller of a request
+   *
+   * @returns The user, or null when no provider recognizes the request
+   */
+  function authenticate(headers: Headers): AuthUser | null {
+    const store = readStore();
+    const secret = getSecret(store);
+    for (const provider of providers) {
+      const user = provider.authenticate(headers, store, secret);
+      if (user) return user;
+    }
+    return null;
+  }
+
+  /**
+   * Public API: Check a username and password
+   *
+   * @returns Session cookie value and its max age, or null when the credentials are wrong
+   * @throws Error when no cookie secret is configured
+   */
+  function login(username: string, password: string): { cookie: string; maxAge: number } | null {
+    const store = readStore();
+    const record = findUser(store, username);
+    if (!record?.password || !verifyPassword(password, record.password)) return null;
+
+    const secret = getSecret(store);
+    if (!secret) {
+      throw new Error(`No cookie secret: set AUTH_SECRET or add a user with the CLI to generate one in ${file}`);
+    }
+    const expires = Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS;
+    const value = `${username}:${expires}`;
+    return { cookie: `${value}:${sign(value, secret)}`, maxAge: SESSION_MAX_AGE_SECONDS };
+  }
+
+  /**
+   * Public API: Create or update a user (and the cookie secret, the first time)
+   *
+   * @param password - New password, or undefined for a token-only user (keeps an existing password)
+   */
+  function setUser(
+    username: string,
+    settings: { password?: string; rateLimitPerMinute?: number; admin?: boolean }
+  ): void {
+    const store = readStore();
+    const existing = findUser(store, username) ?? {};
+    store.users[username] = {
+      ...existing,
+      ...(settings.password !== undefined && { password: hashPassword(settings.password) }),
+      ...(settings.rateLimitPerMinute !== undefined && { rateLimitPerMinute: settings.rateLimitPerMinute }),
+      ...(settings.admin !== undefined && { admin: settings.admin }),
+    };
+    store.secret ??= crypto.randomBytes(32).toString("hex");
+
+    const result = authFileSchema.safeParse(store);
+    if (!result.success) throw new Error(z.prettifyError(result.error));
+    writeStore(result.data);
+  }
+
+  /**
+   * Public API: Delete a user and their tokens
+   *
+   * @returns false if the user doesn't exist
+   */
+  function removeUser(username: string): boolean {
+    const store = readStore();
+    if (!findUser(store, username)) return false;
+
+    delete store.users[username];
+    store.tokens = store.tokens.filter((token) => token.user !== username);
+    writeStore(store);
+    return true;
+  }
+
+  /**
+   * Public API: Issue an API token for a user
+   *
+   * @returns The token (only available now; the file keeps its hash) and its id
+   * @throws Error when the user doesn't exist
+   */
+  function createToken(username: string, label = ""): { id: string; token: string } {
+    const store = readStore();
+    if (!findUser(store, username)) throw new Error(`Unknown user "${username}"`);
+
+    const token = `agt_${crypto.randomBytes(24).toString("base64url")}`;
+    const id = token.slice(0, 12);
+    store.tokens.push({ id, user: username, hash: hashToken(token), label, created_at: new Date().toISOString() });
+    writeStore(store);
+    return { id, token };
+  }
+
+  /**
+   * Public API: Revoke a token by id
+   *
+   * @returns false if no token has this id
+   */
+  function revokeToken(id: string): boolean {
+    const store = readStore();
+    const remaining = store.tokens.filter((token) => token.id !== id);
+    if (remaining.length === store.tokens.length) return false;
+
+    store.tokens = remaining;
+    writeStore(store);
+    return true;
+  }
+
+  /**
+   * Public API: Users with their token ids and labels (no secrets)
+   */
+  function listUsers() {
+    const store = readStore();
+    return Object.entries(store.users).map(([id, user]) => ({
+      id,
+      password: Boolean(user.password),
+      rateLimitPerMinute: user.rateLimitPerMinute ?? null,
+      admin: Boolean(user.admin),
+      tokens: store.tokens
+        .filter((token) => token.user === id)
+        .map(({ id: tokenId, label, created_at }) => ({ id: tokenId, label, created_at })),
+    }));
+  }
+
+  // Return public API
+  return {
+    authenticate,
+    login,
+    setUser,
+    removeUser,
+    createToken,
+    revokeToken,
+    listUsers,
+  };
+}
+
+export type Auth = ReturnType<typeof createAuth>;
+
+/**
+ * Caller of an API route (proxy.ts has already rejected unauthenticated requests)
+ *
+ * @returns The user, or null when auth is disabled
+ */
+export function getRequestUser(headers: Headers): AuthUser | null {
+  return isAuthEnabled() ? createAuth().authenticate(headers) : null;
+}
+
+/**
+ * Whether a user may see or continue a session. With auth disabled everyone may; otherwise only the user stamped
+ * into its session_start (sessions logged before auth have no owner and stay hidden).
+ *
+ * @param user - Caller from getRequestUser()
+ * @param ownerId - user_id of the session, or null/undefined if it has none
+ */
+export function ownsSession(user: AuthUser | null, ownerId: string | null | undefined): boolean {
+  if (!isAuthEnabled()) return true;
+  return user !== null && ownerId === user.id;
+}
+
+/**
+ * Whether a user may change budget limits and see every user's usage. With auth disabled everyone may.
+ *
+ * @param user - Caller from getRequestUser()
+ */
+export function isAdmin(user: AuthUser | null): boolean {
+  if (!isAuthEnabled()) return true;
+  return user?.admin === true;
+}
@@ -0,0 +1,92 @@
+/**
+ * Braintrust exporter for agent traces: logs each exchange as a task span with llm and tool child spans in a
+ * Braintrust project's logs.
+ *
+ * Input data sources: Exchange traces from lib/agent-tracer, BRAINTRUST_API_KEY environment variable
+ * Output destinations: Braintrust project logs
+ * Dependencies: braintrust (loaded on the first export)
+ * Key exports: createBraintrustExporter()
+ * Side effects: Makes API calls to Braintrust
+ */
+
+import type { Logger, Span } from "braintrust";
+import type { AgentSpan, ExchangeTrace, TraceExporter } from "@/lib/agent-tracer";
+
+const SPAN_TYPES = { exchange: "task", llm: "llm", tool: "tool" } as const;
+
+/**
+ * Braintrust's token metric names, plus our own metrics as they are
+ */
+function braintrustMetrics(span: AgentSpan): Record<string, number> {
+  const { tokens_in, tokens_out, cache_read, cache_creation, ...rest } = span.metrics;
+  if (tokens_in === undefined) return rest;
+
+  const promptTokens = tokens_in + (cache_read ?? 0) + (cache_creation ?? 0);
+  return {
+    ...rest,
+    prompt_tokens: promptTokens,
+    completion_tokens: tokens_out ?? 0,
+    prompt_cached_tokens: cache_read ?? 0,
+    prompt_cache_creation_tokens: cache_creation ?? 0,
+    tokens: promptTokens + (tokens_out ?? 0),
+  };
+}
+
+/**
+ * Create a Braintrust exporter.
+ *
+ * @param options - Project to log into, API key (default: BRAINTRUST_API_KEY)
+ * @returns Exporter for createAgentTracer()
+ */
+export function createBraintrustExporter(options: { projectName: string; apiKey?: string }): TraceExporter {
+  let logger: Promise<Logger<true>> | null = null;
+  // Exports are sent one after another, in order
+  let pending: Promise<void> = Promise.resolve();
+
+  function getLogger(): Promise<Logger<true>> {
+    logger ??= import("braintrust").then(({ initLogger }) =>
+      initLogger({ projectName: options.projectName, apiKey: options.apiKey, setCurrent: false })
+    );
+    return logger;
+  }
+
+  async function send(trace: ExchangeTrace) {
+    const btLogger = await getLogger();
+    const created = new Map<string, Span>();
+
+    for (const span of trace.spans) {
+      const parent = span.parent_id ? created.get(span.parent_id) : undefined;
+      const args = {
+        name: span.name,
+        type: SPAN_TYPES[span.kind],
+        startTime: span.start_ms / 1000,
+        event: {
+          input: span.input,
+          output: span.output,
+          ...(span.error && { error: span.error }),
+          metadata: { ...span.attributes, trace_id: trace.trace_id },
+          metrics: braintrustMetrics(span),
+        },
+      };
+      created.set(span.span_id, parent ? parent.startSpan(args) : btLogger.startSpan(args));
+    }
+
+    for (const span of [...trace.spans].reverse()) {
+      created.get(span.span_id)?.end({ endTime: span.end_ms / 1000 });
+    }
+  }
+
+  // Return public API
+  return {
+    name: "braintrust",
+    export(trace) {
+      pending = pending
+        .then(() => send(trace))
+        .catch((error) => console.error("[tracing] braintrust export failed:", error));
+    },
+    async flush() {
+      await pending;
+      if (logger) await (await logger).flush();
+    },
+  };
+}
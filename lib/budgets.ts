@@ -0,0 +1,217 @@
+/**
+ * Budget limits: USD and token caps per session, per UTC day across all sessions and per profile per UTC day,
+ * persisted next to the session logs and checked against the usage those logs record.
+ *
+ * Input data sources: /sessions/budgets.json (limits), /sessions/*.jsonl (spend, via lib/session-reader)
+ * Output destinations: /sessions/budgets.json (setLimits); checks used by /api/chat, /api/budgets and the agent CLI
+ * Dependencies: zod, Node.js fs module, path module, lib/session-reader, lib/usage
+ * Key exports: createBudgetManager(), budgetLimitsSchema, formatBudgetStatus(), budgetExceededMessage(), BudgetLimit,
+ *   BudgetLimits, BudgetStatus, BudgetCheck
+ * Side effects: Reads and writes budgets.json, reads session log files
+ */
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { createSessionReader } from "@/lib/session-reader";
+import { emptyUsageTotals, type UsageTotals } from "@/lib/usage";
+
+/**
+ * Schema for one limit; either cap may be left out
+ */
+const budgetLimitSchema = z
+  .object({
+    usd: z.number().positive().optional(),
+    // Input and output tokens, cache writes and reads included
+    tokens: z.number().int().positive().optional(),
+  })
+  .strict();
+
+/**
+ * Schema for budgets.json
+ */
+export const budgetLimitsSchema = z
+  .object({
+    session: budgetLimitSchema.optional(), // Each session; a fork also counts the spend of the sessions it was forked from
+    daily: budgetLimitSchema.optional(), // Exchanges of all sessions started on the same UTC day
+    profiles: z.record(z.string(), budgetLimitSchema).default({}), // Exchanges of one profile's sessions per UTC day, by profile name
+  })
+  .strict();
+
+export type BudgetLimit = z.infer<typeof budgetLimitSchema>;
+export type BudgetLimits = z.infer<typeof budgetLimitsSchema>;
+
+/**
+ * Spend against one configured limit
+ */
+export interface BudgetStatus {
+  scope: "session" | "daily" | "profile";
+  label: string; // Human-readable scope, e.g. `profile "default" on 2025-11-10`
+  limit: BudgetLimit;
+  spent: { usd: number; tokens: number };
+  remaining: { usd: number | null; tokens: number | null }; // Null when the limit has no cap of that kind
+  exceeded: boolean;
+}
+
+/**
+ * Result of checking every limit that applies to a turn
+ */
+export interface BudgetCheck {
+  statuses: BudgetStatus[];
+  exceeded: BudgetStatus[];
+  remainingUsd: number | null; // Smallest USD headroom of all limits, null if none caps USD
+}
+
+/**
+ * Options for configuring the budget manager
+ */
+interface BudgetManagerOptions {
+  sessionsDir?: string; // Default: "./sessions" (budgets.json lives in the same folder)
+}
+
+function totalTokens(usage: UsageTotals): number {
+  const { input, output, cache_creation, cache_read } = usage.tokens;
+  return input + output + cache_creation + cache_read;
+}
+
+function toStatus(scope: BudgetStatus["scope"], label: string, limit: BudgetLimit, usage: UsageTotals): BudgetStatus {
+  const spent = { usd: usage.cost_usd, tokens: totalTokens(usage) };
+  const remaining = {
+    usd: limit.usd !== undefined ? Math.max(0, limit.usd - spent.usd) : null,
+    tokens: limit.tokens !== undefined ? Math.max(0, limit.tokens - spent.tokens) : null,
+  };
+
+  return {
+    scope,
+    label,
+    limit,
+    spent,
+    remaining,
+    exceeded: remaining.usd === 0 || remaining.tokens === 0,
+  };
+}
+
+/**
+ * One-line summary of a status, e.g. "session: $0.4200 of $2.00 (remaining $1.5800)"
+ */
+export function formatBudgetStatus(status: BudgetStatus): string {
+  const parts: string[] = [];
+  if (status.limit.usd !== undefined) {
+    parts.push(
+      `$${status.spent.usd.toFixed(4)} of $${status.limit.usd.toFixed(2)} (remaining $${status.remaining.usd!.toFixed(4)})`
+    );
+  }
+  if (status.limit.tokens !== undefined) {
+    parts.push(`${status.spent.tokens} of ${status.limit.tokens} tokens (remaining ${status.remaining.tokens})`);
+  }
+  return `${status.label}: ${parts.join(", ")}`;
+}
+
+/**
+ * Error text for a refused turn, naming every exceeded limit
+ */
+export function budgetExceededMessage(check: BudgetCheck): string {
+  return `Budget exceeded: ${check.exceeded.map(formatBudgetStatus).join("; ")}`;
+}
+
+/**
+ * Create a budget manager instance.
+ *
+ * @param options - Configuration options
+ * @returns Manager object with methods to read, change and check budget limits
+ */
+export function createBudgetManager(options?: BudgetManagerOptions) {
+  const sessionsDir = options?.sessionsDir || "./sessions";
+  const budgetsFile = path.join(sessionsDir, "budgets.json");
+
+  /**
+   * Public API: Current limits (none configured when budgets.json doesn't exist)
+   *
+   * @throws Error when budgets.json fails validation
+   */
+  function getLimits(): BudgetLimits {
+    if (!fs.existsSync(budgetsFile)) return budgetLimitsSchema.parse({});
+
+    const result = budgetLimitsSchema.safeParse(JSON.parse(fs.readFileSync(budgetsFile, "utf-8")));
+    if (!result.success) {
+      throw new Error(`Invalid ${budgetsFile}:\n${z.prettifyError(result.error)}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Public API: Validate and persist new limits, replacing the current ones
+   *
+   * @param limits - Parsed budgets.json content
+   * @returns The stored limits
+   * @throws z.ZodError when the limits fail validation
+   */
+  function setLimits(limits: unknown): BudgetLimits {
+    const parsed = budgetLimitsSchema.parse(limits);
+    if (!fs.existsSync(sessionsDir)) {
+      fs.mkdirSync(sessionsDir, { recursive: true });
+    }
+    fs.writeFileSync(budgetsFile, JSON.stringify(parsed, null, 2) + "\n", "utf-8");
+    return parsed;
+  }
+
+  /**
+   * A session and the sessions it was forked from, newest first
+   */
+  function sessionLineage(reader: ReturnType<typeof createSessionReader>, sessionId: string): string[] {
+    const lineage: string[] = [];
+    let current: string | null = sessionId;
+    // Depth limit guards against cyclic parent links in hand-edited logs
+    while (current && !lineage.includes(current) && lineage.length < 50) {
+      lineage.push(current);
+      current = reader.getSummary(current)?.parent_session_id ?? null;
+    }
+    return lineage;
+  }
+
+  /**
+   * Public API: Check the limits that apply to a turn against the usage logged so far.
+   * The session limit of a fork covers its own spend plus that of the sessions it was forked from, on every turn.
+   *
+   * @param target - Session being continued, or the parent for a fork's first turn (omit for a new session),
+   *   and its profile
+   * @returns Status of every configured limit, the exceeded ones and the USD headroom
+   */
+  function check(target: { sessionId?: string | null; profile: string }): BudgetCheck {
+    const limits = getLimits();
+    const reader = createSessionReader({ sessionsDir });
+    const day = new Date().toISOString().substring(0, 10);
+    const statuses: BudgetStatus[] = [];
+
+    if (limits.session) {
+      // A new session has no logged usage yet
+      const usage = target.sessionId
+        ? reader.getUsage({ sessionIds: sessionLineage(reader, target.sessionId) })
+        : emptyUsageTotals();
+      statuses.push(toStatus("session", "session", limits.session, usage));
+    }
+    if (limits.daily) {
+      statuses.push(toStatus("daily", `all sessions on ${day}`, limits.daily, reader.getUsage({ day })));
+    }
+    const profileLimit = limits.profiles[target.profile];
+    if (profileLimit) {
+      statuses.push(
+        toStatus("profile", `profile "${target.profile}" on ${day}`, profileLimit, reader.getUsage({ day, profile: target.profile }))
+      );
+    }
+
+    const usdHeadroom = statuses.map((status) => status.remaining.usd).filter((usd) => usd !== null);
+    return {
+      statuses,
+      exceeded: statuses.filter((status) => status.exceeded),
+      remainingUsd: usdHeadroom.length > 0 ? Math.min(...usdHeadroom) : null,
+    };
+  }
+
+  // Return public API
+  return {
+    getLimits,
+    setLimits,
+    check,
+  };
+}
@@ -0,0 +1,510 @@
+/**
+ * Structured chat message model: typed content blocks and a reducer that folds the /api/chat NDJSON stream into them.
+ *
+ * Input data sources: NDJSON events from /api/chat (SDK messages, delta events, error events), logged session exchanges
+ * Output destinations: Used by ChatInterface (live chat) and SessionTimeline (session replay) to render ChatMessage blocks
+ * Dependencies: lib/diff, lib/usage, lib/tool-result, lib/session-logger and lib/session-reader types
+ * Key exports: chatReducer(), initialChatState, exchangesToMessages(), ChatState, ChatAction, ChatMessageModel, ChatBlock, ToolUseBlock
+ * Side effects: None
+ */
+
+import { isFileEditTool, nextFileContent } from "@/lib/diff";
+import type { ExchangeStats } from "@/lib/session-logger";
+import type { SessionExchange } from "@/lib/session-reader";
+import { contextTokens, toModelUsageStats } from "@/lib/usage";
+import { toolResultText } from "@/lib/tool-result";
+
+/**
+ * Tool call paired with its result
+ */
+export interface ToolUseBlock {
+  kind: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  partialInput?: string; // Input JSON streamed so far, until the full message arrives
+  // "incomplete" = the turn ended without a result for this call
+  status: "running" | "success" | "error" | "incomplete";
+  output?: string;
+  startedAt?: number; // Epoch ms
+  durationMs?: number;
+  previousContent?: string; // Earlier contents of the file for Write, if known
+}
+
+/**
+ * Single renderable block of a chat message
+ */
+export type ChatBlock =
+  | { kind: "text"; text: string }
+  | { kind: "thinking"; text: string }
+  | ToolUseBlock
+  | { kind: "notice"; text: string }
+  | { kind: "error"; message: string };
+
+/**
+ * Chat message made of typed blocks
+ */
+export interface ChatMessageModel {
+  id: string;
+  role: "user" | "assistant";
+  blocks: ChatBlock[];
+  // Blocks built from delta events, keyed by content index; replaced when the full assistant message arrives
+  streamingBlocks: Record<number, ChatBlock>;
+  isStreaming: boolean;
+  stats?: ExchangeStats;
+  exchange?: number; // Exchange number in the session log
+}
+
+/**
+ * Chat transcript state
+ */
+export interface ChatState {
+  messages: ChatMessageModel[];
+  sessionId: string | null;
+  cwd: string | null; // Agent working directory from the init message
+  // Known file contents by path, so Write calls can be diffed against earlier writes
+  fileContents: Record<string, string | undefined>;
+  // Pending branch: the next message starts a new session forked from this point
+  fork: { sessionId: string; exchange: number } | null;
+  // Prompt size of the latest top-level API call, updated live as assistant messages arrive
+  contextTokens: number | null;
+  nextId: number;
+}
+
+export type ChatAction =
+  | { type: "submit"; text: string }
+  | { type: "event"; event: Record<string, unknown>; receivedAt: number }
+  | { type: "stream_end"; interrupted?: boolean; error?: string }
+  | { type: "load"; sessionId: string; cwd: string | null; exchanges: SessionExchange[] }
+  | { type: "fork"; exchange: number }
+  | { type: "reset" };
+
+/**
+ * Content block of an assistant or user message (the fields the reducer reads)
+ */
+interface EventContentBlock {
+  type: string;
+  text?: string;
+  thinking?: string;
+  id?: string; // tool_use
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string; // tool_result
+  content?: unknown;
+  is_error?: boolean;
+}
+
+/**
+ * NDJSON event as received from /api/chat: SDK message, delta event (lib/stream-events) or error event.
+ * Only the fields the reducer reads; which ones are set depends on type.
+ */
+interface ChatEvent {
+  type: string;
+  subtype?: string;
+  parent_tool_use_id?: string | null;
+  // system init
+  session_id?: string;
+  cwd?: string;
+  // assistant and user messages
+  message?: {
+    content?: string | EventContentBlock[];
+    usage?: { input_tokens?: number; cache_creation_input_tokens?: number; cache_read_input_tokens?: number };
+  };
+  // result
+  result?: string;
+  errors?: string[];
+  num_turns?: number;
+  duration_ms?: number;
+  duration_api_ms?: number;
+  total_cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+  modelUsage?: unknown;
+  // delta events
+  index?: number;
+  text?: string;
+  thinking?: string;
+  tool_use_id?: string;
+  name?: string;
+  partial_json?: string;
+  // error events
+  error?: string;
+}
+
+export const initialChatState: ChatState = {
+  messages: [],
+  sessionId: null,
+  cwd: null,
+  fileContents: {},
+  fork: null,
+  contextTokens: null,
+  nextId: 1,
+};
+
+/**
+ * Extract exchange stats from a result message (one result per /api/chat request, so its totals are per exchange)
+ */
+function toStats(event: ChatEvent, promptTokens: number | null): ExchangeStats {
+  return {
+    num_turns: event.num_turns || 0,
+    duration_ms: event.duration_ms || 0,
+    duration_api_ms: event.duration_api_ms,
+    tokens_in: event.usage?.input_tokens || 0,
+    tokens_out: event.usage?.output_tokens || 0,
+    cache_creation: event.usage?.cache_creation_input_tokens || 0,
+    cache_read: event.usage?.cache_read_input_tokens || 0,
+    cost_usd: event.total_cost_usd || 0,
+    context_tokens: promptTokens ?? undefined,
+    model_usage: toModelUsageStats(event.modelUsage),
+  };
+}
+
+/**
+ * Append a tool_use block, recording file contents for file-editing tools
+ */
+function addToolUse(
+  state: ChatState,
+  blocks: ChatBlock[],
+  block: Omit<ToolUseBlock, "kind" | "status">
+): ChatState {
+  const filePath = isFileEditTool(block.name) ? String(block.input.file_path ?? "") : "";
+  const previousContent = filePath ? state.fileContents[filePath] : undefined;
+  blocks.push({ kind: "tool_use", status: "running", ...block, previousContent });
+
+  if (!filePath) return state;
+  return {
+    ...state,
+    fileContents: { ...state.fileContents, [filePath]: nextFileContent(previousContent, block.name, block.input) },
+  };
+}
+
+/**
+ * Replace the last message (the assistant message being streamed)
+ */
+function updateLast(state: ChatState, update: (message: ChatMessageModel) => ChatMessageModel): ChatState {
+  const last = state.messages[state.messages.length - 1];
+  if (!last || last.role !== "assistant") return state;
+  return { ...state, messages: [...state.messages.slice(0, -1), update(last)] };
+}
+
+/**
+ * Attach a tool result to its tool_use block
+ */
+function withToolResult(
+  blocks: ChatBlock[],
+  toolUseId: string,
+  output: string,
+  isError: boolean,
+  receivedAt: number
+): ChatBlock[] {
+  return blocks.map((block) =>
+    block.kind === "tool_use" && block.id === toolUseId
+      ? {
+          ...block,
+          status: isError ? "error" : "success",
+          output,
+          durationMs: block.startedAt !== undefined ? receivedAt - block.startedAt : undefined,
+        }
+      : block
+  );
+}
+
+/**
+ * Fold a delta event into the streaming blocks of a message
+ */
+function applyDelta(message: ChatMessageModel, event: ChatEvent, receivedAt: number): ChatMessageModel {
+  const index = event.index ?? 0;
+  const current = message.streamingBlocks[index];
+  let next: ChatBlock | undefined;
+
+  if (event.type === "text_delta") {
+    next = { kind: "text", text: (current?.kind === "text" ? current.text : "") + event.text };
+  } else if (event.type === "thinking_delta") {
+    next = { kind: "thinking", text: (current?.kind === "thinking" ? current.text : "") + event.thinking };
+  } else if (event.type === "tool_use_start") {
+    next = {
+      kind: "tool_use",
+      id: event.tool_use_id ?? "",
+      name: event.name ?? "",
+      input: {},
+      partialInput: "",
+      status: "running",
+      startedAt: receivedAt,
+    };
+  } else if (event.type === "tool_input_delta" && current?.kind === "tool_use") {
+    next = { ...current, partialInput: (current.partialInput ?? "") + event.partial_json };
+  }
+
+  return next ? { ...message, streamingBlocks: { ...message.streamingBlocks, [index]: next } } : message;
+}
+
+/**
+ * Number the turn being streamed once the server has accepted it (its init event arrived), after the last numbered
+ * exchange. Refused turns (budget, rate limit, bad request) stay unnumbered, so numbers match the session log's.
+ */
+function numberCurrentTurn(messages: ChatMessageModel[]): ChatMessageModel[] {
+  const last = messages.length - 1;
+  if (last < 1 || messages[last].exchange !== undefined) return messages;
+
+  const exchange = Math.max(0, ...messages.map((message) => message.exchange ?? 0)) + 1;
+  return messages.map((message, index) => (index >= last - 1 ? { ...message, exchange } : message));
+}
+
+/**
+ * Fold one NDJSON event into the assistant message being streamed
+ */
+function applyEvent(state: ChatState, event: ChatEvent, receivedAt: number): ChatState {
+  switch (event.type) {
+    case "text_delta":
+    case "thinking_delta":
+    case "tool_use_start":
+    case "tool_input_delta":
+      // Subagent output only shows up through its Task tool result
+      if (event.parent_tool_use_id) return state;
+      return updateLast(state, (message) => applyDelta(message, event, receivedAt));
+
+    case "system":
+      if (event.subtype === "init") {
+        return {
+          ...state,
+          messages: numberCurrentTurn(state.messages),
+          sessionId: event.session_id ?? null,
+          cwd: event.cwd ?? state.cwd,
+          fork: null,
+        };
+      }
+      if (event.subtype === "compact_boundary") {
+        return updateLast(state, (message) => ({
+          ...message,
+          blocks: [...message.blocks, { kind: "notice", text: "Conversation compacted" }],
+        }));
+      }
+      return state;
+
+    case "assistant": {
+      if (event.parent_tool_use_id) return state;
+      let next = event.message?.usage ? { ...state, contextTokens: contextTokens(event.message.usage) } : state;
+      const last = state.messages[state.messages.length - 1];
+      if (!last || last.role !== "assistant") return state;
+
+      const blocks = [...last.blocks];
+      const content = event.message?.content;
+      for (const block of Array.isArray(content) ? content : [{ type: "text", text: String(content ?? "") }]) {
+        if (block.type === "text" && block.text) {
+          blocks.push({ kind: "text", text: block.text });
+        } else if (block.type === "thinking" && block.thinking) {
+          blocks.push({ kind: "thinking", text: block.thinking });
+        } else if (block.type === "tool_use") {
+          // Keep the start time of the streamed block so durations cover input streaming
+          const streamed = Object.values(last.streamingBlocks).find(
+            (b) => b.kind === "tool_use" && b.id === block.id
+          ) as ToolUseBlock | undefined;
+          next = addToolUse(next, blocks, {
+            id: block.id ?? "",
+            name: block.name ?? "",
+            input: block.input ?? {},
+            startedAt: streamed?.startedAt ?? receivedAt,
+          });
+        }
+      }
+      return updateLast(next, (message) => ({ ...message, blocks, streamingBlocks: {} }));
+    }
+
+    case "user": {
+      const content = event.message?.content;
+      if (!Array.isArray(content)) return state;
+      return updateLast(state, (message) => ({
+        ...message,
+        blocks: content
+          .filter((block) => block.type === "tool_result" && block.tool_use_id)
+          .reduce(
+            (blocks: ChatBlock[], block) =>
+              withToolResult(blocks, block.tool_use_id ?? "", toolResultText(block.content), Boolean(block.is_error), receivedAt),
+            message.blocks
+          ),
+      }));
+    }
+
+    case "result":
+      return updateLast(state, (message) => {
+        const blocks = [...message.blocks];
+        // Fall back to the result text if nothing was streamed
+        if (!blocks.some((b) => b.kind === "text") && typeof event.result === "string" && event.result) {
+          blocks.push({ kind: "text", text: event.result });
+        }
+        if (event.subtype && event.subtype !== "success") {
+          const details = Array.isArray(event.errors) && event.errors.length > 0 ? `: ${event.errors.join("; ")}` : "";
+          blocks.push({ kind: "error", message: `${event.subtype}${details}` });
+        }
+        return { ...message, blocks, stats: toStats(event, state.contextTokens) };
+      });
+
+    case "error":
+      return updateLast(state, (message) => ({
+        ...message,
+        blocks: [...message.blocks, { kind: "error", message: event.error || "Unknown error occurred" }],
+      }));
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Finish the assistant message being streamed: keep streamed text, close open tool calls
+ */
+function finishStream(state: ChatState, interrupted?: boolean, error?: string): ChatState {
+  return updateLast(state, (message) => {
+    if (!message.isStreaming) return message;
+
+    // Partial blocks are only left over when the stream stopped mid-message
+    const leftover = Object.keys(message.streamingBlocks)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .map((index) => message.streamingBlocks[index])
+      .filter((block) => block.kind !== "tool_use");
+
+    const blocks: ChatBlock[] = [...message.blocks, ...leftover].map((block) =>
+      block.kind === "tool_use" && block.status === "running" ? { ...block, status: "incomplete" } : block
+    );
+    if (interrupted) blocks.push({ kind: "notice", text: "Interrupted" });
+    if (error) blocks.push({ kind: "error", message: error });
+
+    return { ...message, blocks, streamingBlocks: {}, isStreaming: false };
+  });
+}
+
+/**
+ * Reducer for the chat transcript.
+ *
+ * @param state - Current state
+ * @param action - submit (user message), event (one NDJSON line), stream_end (response finished),
+ *   load (logged session to continue), fork (branch after an exchange) or reset
+ * @returns Next state
+ */
+export function chatReducer(state: ChatState, action: ChatAction): ChatState {
+  switch (action.type) {
+    case "submit": {
+      // The exchange number is set when the server accepts the turn (see numberCurrentTurn)
+      return {
+        ...state,
+        nextId: state.nextId + 2,
+        messages: [
+          ...state.messages,
+          {
+            id: `m${state.nextId}`,
+            role: "user",
+            blocks: [{ kind: "text", text: action.text }],
+            streamingBlocks: {},
+            isStreaming: false,
+          },
+          { id: `m${state.nextId + 1}`, role: "assistant", blocks: [], streamingBlocks: {}, isStreaming: true },
+        ],
+      };
+    }
+    case "event":
+      return applyEvent(state, action.event as unknown as ChatEvent, action.receivedAt);
+    case "stream_end":
+      return finishStream(state, action.interrupted, action.error);
+    case "load":
+      return {
+        ...initialChatState,
+        sessionId: action.sessionId,
+        cwd: action.cwd,
+        ...fromExchanges(action.exchanges),
+        contextTokens: lastContextTokens(action.exchanges.map((exchange) => exchange.stats)),
+      };
+    case "fork": {
+      // Keep the transcript up to the fork point; the next message is sent with `fork` instead of `sessionId`
+      if (!state.sessionId) return state;
+      const messages = state.messages.filter((message) => (message.exchange ?? 0) <= action.exchange);
+      return {
+        ...state,
+        messages,
+        fork: { sessionId: state.sessionId, exchange: action.exchange },
+        sessionId: null,
+        contextTokens: lastContextTokens(messages.map((message) => message.stats)),
+      };
+    }
+    case "reset":
+      return initialChatState;
+  }
+}
+
+/**
+ * Context size recorded by the latest exchange that has one
+ */
+function lastContextTokens(stats: Array<ExchangeStats | null | undefined>): number | null {
+  return stats.reduce<number | null>((latest, current) => current?.context_tokens || latest, null);
+}
+
+/**
+ * Build messages and tracked file contents from logged exchanges
+ */
+function fromExchanges(exchanges: SessionExchange[]): Pick<ChatState, "messages" | "fileContents"> {
+  let state = initialChatState;
+  const messages: ChatMessageModel[] = [];
+
+  for (const exchange of exchanges) {
+    const blocks: ChatBlock[] = [];
+    for (const item of exchange.items) {
+      if (item.kind === "text") {
+        blocks.push({ kind: "text", text: item.text });
+        continue;
+      }
+
+      state = addToolUse(state, blocks, {
+        id: item.tool_use_id,
+        name: item.name,
+        input: item.input,
+        startedAt: Date.parse(item.ts),
+      });
+      const block = blocks[blocks.length - 1] as ToolUseBlock;
+      blocks[blocks.length - 1] = item.result
+        ? {
+            ...block,
+            status: item.result.is_error ? "error" : "success",
+            output: item.result.output,
+            durationMs: Date.parse(item.result.ts) - Date.parse(item.ts),
+          }
+        : { ...block, status: "incomplete" };
+    }
+    if (exchange.interrupted) blocks.push({ kind: "notice", text: "Interrupted" });
+
+    messages.push(
+      {
+        id: `e${exchange.exchange}-user`,
+        role: "user",
+        blocks: [{ kind: "text", text: exchange.user_input }],
+        streamingBlocks: {},
+        isStreaming: false,
+        exchange: exchange.exchange,
+      },
+      {
+        id: `e${exchange.exchange}-assistant`,
+        role: "assistant",
+        blocks,
+        streamingBlocks: {},
+        isStreaming: false,
+        stats: exchange.stats ?? undefined,
+        exchange: exchange.exchange,
+      }
+    );
+  }
+  return { messages, fileContents: state.fileContents };
+}
+
+/**
+ * Build chat messages from logged exchanges (for session replay).
+ * Tool durations come from the logged tool_use and tool_result timestamps.
+ *
+ * @param exchanges - Exchanges from the session reader
+ * @returns User and assistant messages in session order
+ */
+export function exchangesToMessages(exchanges: SessionExchange[]): ChatMessageModel[] {
+  return fromExchanges(exchanges).messages;
+}
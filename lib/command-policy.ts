@@ -0,0 +1,364 @@
+/**
+ * Bash command policy: per-profile allow/deny rules by command prefix or regex, plus a guard against writes outside
+ * the working directory, applied in the SDK's canUseTool callback.
+ *
+ * Input data sources: Profile bashPolicy settings, Bash tool inputs from canUseTool
+ * Output destinations: Allow/deny results (with a reason for the model), policy decisions for the session log
+ * Dependencies: zod, Node.js path and os modules, @anthropic-ai/claude-agent-sdk types
+ * Key exports: createCommandPolicy(), withCommandPolicy(), commandPolicySchema, splitCommand(), CommandPolicyConfig,
+ *   CommandPolicy, PolicyDecision
+ * Side effects: None
+ */
+
+import os from "os";
+import path from "path";
+import { z } from "zod";
+import type { CanUseTool } from "@anthropic-ai/claude-agent-sdk";
+
+/**
+ * Schema for one rule; a rule matches a command by prefix (whole words) or by regex
+ */
+const commandRuleSchema = z
+  .object({
+    action: z.enum(["allow", "deny"]),
+    prefix: z.string().min(1).optional(),
+    pattern: z.string().min(1).optional(),
+    reason: z.string().optional(), // Shown to the model when the rule denies a command
+  })
+  .strict()
+  .refine((rule) => (rule.prefix === undefined) !== (rule.pattern === undefined), {
+    message: "Set exactly one of prefix or pattern",
+  });
+
+/**
+ * Schema for a profile's bashPolicy
+ */
+export const commandPolicySchema = z
+  .object({
+    // Outcome for commands no rule allows: run, refuse, or ask the user (web chat; the CLI refuses)
+    default: z.enum(["allow", "deny", "ask"]).default("ask"),
+    rules: z.array(commandRuleSchema).default([]),
+    // Refuse redirections, tee, cp, mv, rm, mkdir, touch and ln targets and --output= files outside the working directory
+    denyWritesOutsideCwd: z.boolean().default(true),
+  })
+  .strict();
+
+export type CommandPolicyConfig = z.infer<typeof commandPolicySchema>;
+
+/**
+ * Outcome of evaluating one Bash command
+ */
+export interface PolicyDecision {
+  decision: "allow" | "deny" | "ask";
+  rule: string | null; // Rule that decided, e.g. `deny prefix "rm -rf"` (null for the default and write guard)
+  reason: string;
+}
+
+// Commands whose path arguments are written (the last argument only for cp, mv and ln)
+const WRITE_COMMANDS = new Set(["tee", "touch", "mkdir", "rm", "rmdir"]);
+const COPY_COMMANDS = new Set(["cp", "mv", "ln"]);
+const SAFE_WRITE_TARGETS = new Set(["/dev/null", "/dev/stdout", "/dev/stderr"]);
+// Long options that name a file to write (git diff --output=, curl --output, sort --output, ...)
+const OUTPUT_FLAG = /^--(?:output|output-file|out|outfile|log-file)(?:=(.*))?$/;
+// Expansions the shell resolves at run time, so the written path isn't known from the text
+const SHELL_EXPANSION = /[$~*?[{]/;
+
+/**
+ * Split a command line into simple commands at unquoted ;, &&, ||, |, & and newlines
+ */
+export function splitCommand(command: string): string[] {
+  const segments: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === "\\" && quote === '"' && i + 1 < command.length) {
+        current += char + command[++i];
+        continue;
+      }
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === "\\" && i + 1 < command.length) {
+      current += char + command[++i];
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      current += char;
+    } else if (char === ";" || char === "\n" || char === "|" || char === "&") {
+      // Keep redirections like 2>&1 and &> inside the command
+      if (char === "&" && (command[i - 1] === ">" || command[i + 1] === ">")) {
+        current += char;
+        continue;
+      }
+      if ((char === "|" || char === "&") && command[i + 1] === char) i++;
+      segments.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+  return segments.map((segment) => segment.trim()).filter(Boolean);
+}
+
+/**
+ * Split a simple command into words, removing quotes. Unquoted redirection operators (>, >>, <, <>, &>, &>> and
+ * their N> forms) are words of their own even when they touch a word, so `cat a>/etc/x` is cat, a, >, /etc/x.
+ */
+function tokenize(segment: string): string[] {
+  const words: string[] = [];
+  let current = "";
+  let inWord = false;
+  let quote: string | null = null;
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      else if (char === "\\" && quote === '"' && i + 1 < segment.length) current += segment[++i];
+      else current += char;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inWord = true;
+    } else if (char === "\\" && i + 1 < segment.length) {
+      current += segment[++i];
+      inWord = true;
+    } else if (char === ">" || char === "<" || (char === "&" && segment[i + 1] === ">")) {
+      // A word of digits right before the operator is its file descriptor (2>err.log)
+      let operator = inWord && /^\d+$/.test(current) ? current : "";
+      if (inWord && !operator) words.push(current);
+      if (char === "&") operator += segment[i++];
+      operator += segment[i];
+      if (segment[i + 1] === ">" && (segment[i] === "<" || segment[i] === ">")) operator += segment[++i];
+      words.push(operator);
+      current = "";
+      inWord = false;
+    } else if (/\s/.test(char)) {
+      if (inWord) words.push(current);
+      current = "";
+      inWord = false;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+  if (inWord) words.push(current);
+  return words;
+}
+
+/**
+ * Drop leading VAR=value assignments so rules see the actual command
+ */
+function stripAssignments(words: string[]): string[] {
+  let start = 0;
+  while (start < words.length && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[start])) start++;
+  return words.slice(start);
+}
+
+/**
+ * Create a command policy for one working directory.
+ *
+ * @param config - Parsed bashPolicy of the profile
+ * @param cwd - Agent working directory (writes must stay inside it when denyWritesOutsideCwd is set)
+ * @param readOnlyDirs - Extra directories commands may read without asking (absolute, or relative to the project root)
+ * @returns Policy object with a method to evaluate Bash commands
+ * @throws Error naming the rule when a rule's regex doesn't compile
+ */
+export function createCommandPolicy(config: CommandPolicyConfig, cwd: string, readOnlyDirs: string[] = []) {
+  const root = path.resolve(cwd);
+  const readRoots = readOnlyDirs.map((dir) => path.resolve(dir));
+  const rules = config.rules.map((rule) => {
+    let regex: RegExp | null = null;
+    if (rule.pattern !== undefined) {
+      try {
+        regex = new RegExp(rule.pattern);
+      } catch (error) {
+        throw new Error(`Invalid bashPolicy pattern "${rule.pattern}": ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    const label = rule.prefix !== undefined ? `${rule.action} prefix "${rule.prefix}"` : `${rule.action} pattern /${rule.pattern}/`;
+    return { ...rule, regex, label };
+  });
+
+  /**
+   * True if the rule matches a simple command (prefix on whole words, regex anywhere)
+   */
+  function ruleMatches(rule: (typeof rules)[number], words: string[], segment: string): boolean {
+    if (rule.regex) return rule.regex.test(segment);
+    const prefix = tokenize(rule.prefix!);
+    return prefix.length <= words.length && prefix.every((word, index) => words[index] === word);
+  }
+
+  /**
+   * Paths a simple command writes to: redirection targets, --output= style files and file arguments of write commands
+   */
+  function writeTargets(words: string[]): string[] {
+    const targets: string[] = [];
+    const args: string[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      // <> opens the file for reading and writing
+      const redirect = words[i].match(/^(?:\d*|&)(?:>>?|<>)(.*)$/);
+      const outputFlag = words[i].match(OUTPUT_FLAG);
+      if (redirect) {
+        const target = redirect[1] || words[++i];
+        // >&2 and >&- duplicate or close a descriptor; >&file writes the file like &>file
+        const file = target?.startsWith("&") ? target.slice(1).replace(/^\d*-?$/, "") : target;
+        if (file) targets.push(file);
+      } else if (outputFlag) {
+        const target = outputFlag[1] ?? words[++i];
+        if (target) targets.push(target);
+      } else {
+        args.push(words[i]);
+      }
+    }
+
+    const [name, ...rest] = args;
+    const paths = rest.filter((arg) => !arg.startsWith("-"));
+    if (WRITE_COMMANDS.has(name)) targets.push(...paths);
+    if (COPY_COMMANDS.has(name) && paths.length > 1) targets.push(paths[paths.length - 1]);
+    return targets;
+  }
+
+  /**
+   * Absolute path of a command argument, with a leading ~ or ~/ replaced by the home directory
+   */
+  function resolveArg(target: string): string {
+    const expanded = target === "~" || target.startsWith("~/") ? path.join(os.homedir(), target.slice(1)) : target;
+    return path.resolve(root, expanded);
+  }
+
+  /**
+   * True if an absolute path is the directory or inside it
+   */
+  function isInside(dir: string, resolved: string): boolean {
+    return resolved === dir || resolved.startsWith(dir + path.sep);
+  }
+
+  /**
+   * True if a path written by the command resolves outside the working directory
+   */
+  function isOutsideCwd(target: string): boolean {
+    if (SAFE_WRITE_TARGETS.has(target)) return false;
+    return !isInside(root, resolveArg(target));
+  }
+
+  /**
+   * True if the shell would expand the path (a leading ~ or ~/ is resolved by isOutsideCwd)
+   */
+  function isExpanded(target: string): boolean {
+    return SHELL_EXPANSION.test(target.replace(/^~(?=\/|$)/, ""));
+  }
+
+  /**
+   * True if an argument is a path outside the working directory and readOnlyDirs: an absolute or ~ path, or one
+   * that climbs out with .. ($VAR/x and ~user/x can point anywhere, so they count as outside)
+   */
+  function readsOutsideCwd(word: string): boolean {
+    const value = word.match(/^--[\w-]+=(.*)$/)?.[1] ?? word;
+    if (/^(?:\$|~[^/])/.test(value)) return true;
+    if (!value.startsWith("/") && !value.startsWith("~") && !value.split("/").includes("..")) return false;
+    return isOutsideCwd(value) && !readRoots.some((dir) => isInside(dir, resolveArg(value)));
+  }
+
+  /**
+   * Public API: Decide on a Bash command. Any denied part denies the whole command; it is allowed only when
+   * every part is allowed by a rule, it has no command or process substitution, its writes go to paths known
+   * to be inside the working directory and no path argument points outside it (or readOnlyDirs)
+   */
+  function evaluate(command: string): PolicyDecision {
+    const segments = splitCommand(command);
+    const unmatched: string[] = [];
+
+    for (const segment of segments) {
+      const words = stripAssignments(tokenize(segment));
+
+      const deny = rules.find((rule) => rule.action === "deny" && ruleMatches(rule, words, segment));
+      if (deny) {
+        return {
+          decision: "deny",
+          rule: deny.label,
+          reason: `Command blocked by policy (${deny.label})${deny.reason ? `: ${deny.reason}` : ""}`,
+        };
+      }
+
+      if (config.denyWritesOutsideCwd) {
+        const targets = writeTargets(words);
+        const outside = targets.find((target) => !isExpanded(target) && isOutsideCwd(target));
+        if (outside) {
+          return {
+            decision: "deny",
+            rule: null,
+            reason: `Command blocked by policy: it writes to ${outside}, outside the working directory ${root}`,
+          };
+        }
+        // $HOME/x, ~user/x or globs can resolve anywhere, so the user decides
+        const expanded = targets.find(isExpanded);
+        if (expanded) {
+          unmatched.push(`write to ${expanded}`);
+          continue;
+        }
+      }
+
+      const outsidePath = words.slice(1).find(readsOutsideCwd);
+      if (outsidePath) {
+        unmatched.push(`path ${outsidePath} outside the working directory`);
+        continue;
+      }
+
+      if (!rules.some((rule) => rule.action === "allow" && ruleMatches(rule, words, segment))) {
+        unmatched.push(segment);
+      }
+    }
+
+    // Substituted commands can't be checked against the rules
+    if (/\$\(|`/.test(command)) unmatched.push("command substitution");
+    if (/[<>]\(/.test(command)) unmatched.push("process substitution");
+
+    if (unmatched.length === 0) {
+      return { decision: "allow", rule: null, reason: "Every part of the command is allowed by policy" };
+    }
+    return {
+      decision: config.default,
+      rule: null,
+      reason: `No policy rule allows: ${unmatched.join(", ")}`,
+    };
+  }
+
+  // Return public API
+  return {
+    evaluate,
+  };
+}
+
+export type CommandPolicy = ReturnType<typeof createCommandPolicy>;
+
+/**
+ * Wrap a canUseTool callback so Bash calls go through the command policy first.
+ * "ask" decisions and all other tools are passed on to the fallback.
+ *
+ * @param policy - Command policy, or null to use the fallback unchanged
+ * @param options - Fallback callback and a listener for each Bash decision (e.g. the session logger)
+ * @returns canUseTool callback for the SDK options
+ */
+export function withCommandPolicy(
+  policy: CommandPolicy | null,
+  options: { fallback: CanUseTool; onDecision?: (command: string, decision: PolicyDecision) => void }
+): CanUseTool {
+  if (!policy) return options.fallback;
+
+  return async (toolName, input, context) => {
+    if (toolName !== "Bash") return options.fallback(toolName, input, context);
+
+    const command = String(input.command ?? "");
+    const result = policy.evaluate(command);
+    options.onDecision?.(command, result);
+
+    if (result.decision === "allow") return { behavior: "allow", updatedInput: input };
+    if (result.decision === "deny") {
+      return { behavior: "deny", message: `${result.reason}. Use a different command or ask the user.` };
+    }
+    return options.fallback(toolName, input, context);
+  };
+}
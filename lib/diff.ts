@@ -0,0 +1,214 @@
+/**
+ * Line-based diff utilities for rendering Edit and Write tool calls as unified diffs.
+ *
+ * Input data sources: Old and new text (tool call inputs)
+ * Output destinations: Used by ToolCallDiff component and the chat model reducer
+ * Dependencies: None
+ * Key exports: diffLines(), toHunks(), nextFileContent(), isFileEditTool(), FILE_EDIT_TOOLS, DiffLine, DiffHunk, EditPair
+ * Side effects: None
+ */
+
+/**
+ * Tools that write files and are rendered as diffs
+ */
+export const FILE_EDIT_TOOLS = ["Write", "Edit", "MultiEdit"];
+
+export function isFileEditTool(name: string): boolean {
+  return FILE_EDIT_TOOLS.includes(name);
+}
+
+/**
+ * Single line of a diff with line numbers in the old and new text
+ */
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+/**
+ * Group of changed lines with surrounding context
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Replacement performed by an Edit call (or one entry of a MultiEdit call)
+ */
+export interface EditPair {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+// Above this many cells the LCS table is skipped and the texts are shown as fully replaced
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Split text into lines, ignoring the empty line after a trailing newline
+ */
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Compute a line diff between two texts using longest common subsequence.
+ *
+ * @param oldText - Original text
+ * @param newText - Updated text
+ * @returns Every line of both texts, marked as context, added or removed
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const result: DiffLine[] = [];
+
+  // Common prefix and suffix keep the LCS table small for typical edits
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  for (let i = 0; i < start; i++) {
+    result.push({ type: "context", text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach((text, i) => result.push({ type: "remove", text, oldLine: start + i + 1 }));
+    midB.forEach((text, j) => result.push({ type: "add", text, newLine: start + j + 1 }));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const lcs: number[][] = Array.from({ length: midA.length + 1 }, () =>
+      new Array<number>(midB.length + 1).fill(0)
+    );
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        result.push({ type: "context", text: midA[i], oldLine: start + i + 1, newLine: start + j + 1 });
+        i++;
+        j++;
+      } else if (i < midA.length && (j >= midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        result.push({ type: "remove", text: midA[i], oldLine: start + i + 1 });
+        i++;
+      } else {
+        result.push({ type: "add", text: midB[j], newLine: start + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    result.push({
+      type: "context",
+      text: a[endA + k],
+      oldLine: endA + k + 1,
+      newLine: endB + k + 1,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Group diff lines into unified-diff hunks.
+ *
+ * @param lines - Output of diffLines()
+ * @param context - Unchanged lines to keep around each change (default: 3)
+ * @returns Hunks; empty if the texts are identical
+ */
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffLine[] = [];
+  let trailingContext = 0;
+
+  const flush = () => {
+    // Drop context beyond the limit after the last change
+    const trimmed = current.slice(0, current.length - Math.max(0, trailingContext - context));
+    const first = trimmed[0];
+    hunks.push({
+      oldStart: first.oldLine ?? (trimmed.find((l) => l.oldLine)?.oldLine ?? 1),
+      oldLines: trimmed.filter((l) => l.type !== "add").length,
+      newStart: first.newLine ?? (trimmed.find((l) => l.newLine)?.newLine ?? 1),
+      newLines: trimmed.filter((l) => l.type !== "remove").length,
+      lines: trimmed,
+    });
+    current = [];
+    trailingContext = 0;
+  };
+
+  lines.forEach((line, index) => {
+    if (line.type === "context") {
+      if (current.length === 0) return;
+      current.push(line);
+      trailingContext++;
+      // Close the hunk once the gap to the next change exceeds twice the context
+      if (trailingContext > context * 2) flush();
+      return;
+    }
+
+    if (current.length === 0) {
+      // Open a hunk with up to `context` preceding lines
+      current = lines.slice(Math.max(0, index - context), index);
+    }
+    current.push(line);
+    trailingContext = 0;
+  });
+
+  if (current.length > 0) flush();
+  return hunks;
+}
+
+/**
+ * Apply one Edit replacement to a text
+ */
+function applyEdit(text: string, edit: EditPair): string {
+  return edit.replace_all
+    ? text.split(edit.old_string).join(edit.new_string)
+    : text.replace(edit.old_string, () => edit.new_string);
+}
+
+/**
+ * File contents after a Write, Edit or MultiEdit call.
+ * Contents become known from a Write; edits can only be applied to known contents.
+ *
+ * @param previous - Contents before the call, if known
+ * @param name - Tool name
+ * @param input - Tool input
+ * @returns Contents after the call, or undefined if still unknown
+ */
+export function nextFileContent(
+  previous: string | undefined,
+  name: string,
+  input: Record<string, unknown>
+): string | undefined {
+  if (name === "Write") return String(input.content ?? "");
+  if (previous === undefined) return undefined;
+  if (name === "Edit") return applyEdit(previous, input as unknown as EditPair);
+  if (name === "MultiEdit" && Array.isArray(input.edits)) {
+    return (input.edits as EditPair[]).reduce(applyEdit, previous);
+  }
+  return previous;
+}
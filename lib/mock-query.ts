@@ -0,0 +1,280 @@
+/**
+ * Scriptable stand-in for the SDK's query(): replays canned message sequences, one scripted turn per user message,
+ * so the chat route, the CLI agent, the session logger and the client parser run without the API.
+ *
+ * Input data sources: Mock script (object, or a JSON file validated by mockScriptSchema), the prompt stream and
+ *   options passed to query() (resume, forkSession, includePartialMessages, allowedTools, canUseTool, abortController)
+ * Output destinations: SDK messages (system init, stream_event deltas, assistant, user tool results, result)
+ * Dependencies: zod, Node.js fs module, crypto module, @anthropic-ai/claude-agent-sdk types
+ * Key exports: createMockQuery(), loadMockScript(), mockScriptSchema, MockScript, MockStep, MockQuery, MockQueryCall
+ * Side effects: None (loadMockScript reads the script file)
+ */
+
+import fs from "fs";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import type { CanUseTool, Options, query, SDKMessage, SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+
+const resultSubtypes = ["success", "error_max_turns", "error_during_execution", "error_max_budget_usd"] as const;
+
+/**
+ * Schema for one step of a scripted turn
+ */
+const mockStepSchema = z.discriminatedUnion("type", [
+  // Assistant text (streamed as text_delta events first when partial messages are on)
+  z.object({ type: z.literal("text"), text: z.string() }),
+  // Tool call and its result; tools outside allowedTools go through canUseTool first, and a denial becomes the result
+  z.object({
+    type: z.literal("tool_use"),
+    name: z.string(),
+    input: z.record(z.string(), z.unknown()).default({}),
+    output: z.string().default(""),
+    is_error: z.boolean().default(false),
+  }),
+  // Ends the turn (default: a success result after the last step)
+  z.object({
+    type: z.literal("result"),
+    subtype: z.enum(resultSubtypes).default("success"),
+    errors: z.array(z.string()).default([]),
+  }),
+  // The query throws, like a crashed CLI process
+  z.object({ type: z.literal("throw"), error: z.string() }),
+  // Pause before the next step (interrupts and aborts land here)
+  z.object({ type: z.literal("delay"), ms: z.number().int().nonnegative() }),
+  // Any other SDK message, sent as is (session_id is filled in)
+  z.object({ type: z.literal("message"), message: z.record(z.string(), z.unknown()) }),
+]);
+
+/**
+ * Schema for a mock script
+ */
+export const mockScriptSchema = z.object({
+  session_id: z.string().optional(), // Default: random; resume reuses the resumed session's id
+  model: z.string().default("claude-mock"),
+  cost_per_turn_usd: z.number().nonnegative().default(0.001),
+  turns: z.array(z.array(mockStepSchema)), // One step list per user message
+});
+
+export type MockScript = z.input<typeof mockScriptSchema>;
+export type MockStep = z.input<typeof mockStepSchema>;
+
+/**
+ * One call of the mock query(), for assertions
+ */
+export interface MockQueryCall {
+  options: Options | undefined;
+  prompts: string[]; // User messages received so far
+}
+
+/**
+ * Mock query() that records its calls
+ */
+export type MockQuery = typeof query & { calls: MockQueryCall[] };
+
+/**
+ * Load and validate a mock script file
+ *
+ * @throws Error naming the file when it fails validation
+ */
+export function loadMockScript(file: string): MockScript {
+  const result = mockScriptSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf-8")));
+  if (!result.success) {
+    throw new Error(`Invalid mock script ${file}:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Create a query() replacement that plays a script. Each call starts the script from its first turn.
+ *
+ * @param script - Turns to play, one per user message
+ * @returns Function with query()'s signature, plus the calls it received
+ */
+export function createMockQuery(script: MockScript): MockQuery {
+  const { turns, model, cost_per_turn_usd: costPerTurn, session_id: scriptSessionId } = mockScriptSchema.parse(script);
+  const calls: MockQueryCall[] = [];
+
+  function mockQuery({ prompt, options }: { prompt: string | AsyncIterable<SDKUserMessage>; options?: Options }) {
+    const call: MockQueryCall = { options, prompts: [] };
+    calls.push(call);
+
+    const sessionId =
+      options?.resume && !options.forkSession ? options.resume : (scriptSessionId ?? randomUUID());
+    const signal = options?.abortController?.signal;
+    let interruptRequested = false;
+    let totalCost = 0;
+    let numTurns = 0;
+
+    const base = () => ({ uuid: randomUUID(), session_id: sessionId, parent_tool_use_id: null });
+    const throwIfAborted = () => {
+      if (signal?.aborted) throw new Error("Claude Code process aborted by user");
+    };
+
+    async function* userMessages(): AsyncGenerator<string> {
+      if (typeof prompt === "string") {
+        yield prompt;
+        return;
+      }
+      for await (const message of prompt) {
+        const content = message.message.content;
+        yield typeof content === "string"
+          ? content
+          : content.map((block) => (block.type === "text" ? block.text : "")).join("");
+      }
+    }
+
+    function result(subtype: (typeof resultSubtypes)[number], errors: string[], text: string) {
+      totalCost += costPerTurn;
+      return {
+        ...base(),
+        type: "result",
+        subtype,
+        is_error: subtype !== "success",
+        duration_ms: 10,
+        duration_api_ms: 8,
+        num_turns: numTurns,
+        total_cost_usd: totalCost,
+        usage: { input_tokens: 100, output_tokens: 20, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+        modelUsage: {},
+        permission_denials: [],
+        ...(subtype === "success" ? { result: text } : { errors }),
+      };
+    }
+
+    // Decide a tool call the way the SDK does: allowedTools run, anything else asks canUseTool when given
+    async function permit(id: string, name: string, input: Record<string, unknown>, canUseTool: CanUseTool | undefined) {
+      if (!canUseTool || options?.allowedTools?.includes(name)) return { allowed: true };
+      const decision = await canUseTool(name, input, {
+        signal: signal ?? new AbortController().signal,
+        suggestions: [],
+        toolUseID: id,
+      });
+      return decision.behavior === "allow" ? { allowed: true } : { allowed: false, message: decision.message };
+    }
+
+    async function* play(): AsyncGenerator<SDKMessage, void> {
+      let turnIndex = 0;
+      for await (const userInput of userMessages()) {
+        call.prompts.push(userInput);
+        throwIfAborted();
+
+        const steps = turns[turnIndex];
+        if (!steps) throw new Error(`Mock script has no turn ${turnIndex + 1}`);
+        if (turnIndex === 0) {
+          yield {
+            ...base(),
+            type: "system",
+            subtype: "init",
+            model,
+            cwd: options?.cwd ?? process.cwd(),
+            tools: options?.allowedTools ?? [],
+            permissionMode: options?.permissionMode ?? "default",
+            apiKeySource: "none",
+            claude_code_version: "mock",
+            mcp_servers: [],
+            slash_commands: [],
+            output_style: "default",
+          } as unknown as SDKMessage;
+        }
+        turnIndex++;
+        interruptRequested = false;
+        numTurns = 0;
+
+        let lastText = "";
+        let ended = false;
+        for (const step of steps) {
+          throwIfAborted();
+          if (interruptRequested) break;
+
+          if (step.type === "text") {
+            numTurns++;
+            if (options?.includePartialMessages) {
+              for (const text of step.text.match(/\S+\s*|\s+/g) ?? []) {
+                yield {
+                  ...base(),
+                  type: "stream_event",
+                  event: { type: "content_block_delta", index: 0, delta: { type: "text_delta", text } },
+                } as unknown as SDKMessage;
+              }
+            }
+            lastText = step.text;
+            yield {
+              ...base(),
+              type: "assistant",
+              message: {
+                id: `msg_${randomUUID()}`,
+                role: "assistant",
+                model,
+                content: [{ type: "text", text: step.text }],
+                usage: { input_tokens: 100, output_tokens: 20 },
+              },
+            } as unknown as SDKMessage;
+          } else if (step.type === "tool_use") {
+            numTurns++;
+            const id = `toolu_${randomUUID()}`;
+            yield {
+              ...base(),
+              type: "assistant",
+              message: {
+                id: `msg_${randomUUID()}`,
+                role: "assistant",
+                model,
+                content: [{ type: "tool_use", id, name: step.name, input: step.input }],
+                usage: { input_tokens: 100, output_tokens: 20 },
+              },
+            } as unknown as SDKMessage;
+            const permission = await permit(id, step.name, step.input, options?.canUseTool);
+            yield {
+              ...base(),
+              type: "user",
+              message: {
+                role: "user",
+                content: [
+                  {
+                    type: "tool_result",
+                    tool_use_id: id,
+                    content: permission.allowed ? step.output : permission.message,
+                    is_error: permission.allowed ? step.is_error : true,
+                  },
+                ],
+              },
+            } as unknown as SDKMessage;
+          } else if (step.type === "result") {
+            yield result(step.subtype, step.errors, lastText) as unknown as SDKMessage;
+            ended = true;
+            break;
+          } else if (step.type === "throw") {
+            throw new Error(step.error);
+          } else if (step.type === "delay") {
+            await new Promise((resolve) => setTimeout(resolve, step.ms));
+          } else {
+            yield { ...base(), ...step.message } as unknown as SDKMessage;
+          }
+        }
+
+        throwIfAborted();
+        if (!ended) {
+          yield (interruptRequested
+            ? result("error_during_execution", ["Interrupted by user"], lastText)
+            : result("success", [], lastText)) as unknown as SDKMessage;
+        }
+      }
+    }
+
+    // Control requests of the Query interface; only interrupt() has an effect
+    return Object.assign(play(), {
+      interrupt: async () => {
+        interruptRequested = true;
+      },
+      setPermissionMode: async () => {},
+      setModel: async () => {},
+      setMaxThinkingTokens: async () => {},
+      supportedCommands: async () => [],
+      supportedModels: async () => [],
+      mcpServerStatus: async () => [],
+      accountInfo: async () => ({}),
+    });
+  }
+
+  return Object.assign(mockQuery as unknown as typeof query, { calls });
+}
@@ -0,0 +1,57 @@
+/**
+ * NDJSON stream reader for the /api/chat response body.
+ *
+ * Input data sources: ReadableStream of newline-delimited JSON
+ * Output destinations: Callback per parsed line (used by ChatInterface)
+ * Dependencies: None
+ * Key exports: readNdjson()
+ * Side effects: Consumes the stream
+ */
+
+/**
+ * Read a newline-delimited JSON stream, calling onEvent for each parsed line.
+ * Lines that fail to parse are reported to onParseError and skipped.
+ *
+ * @param body - Response body
+ * @param onEvent - Called with each parsed object; return false to stop reading
+ * @param onParseError - Called with the raw line and error for unparseable lines
+ */
+export async function readNdjson(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: Record<string, unknown>) => boolean | void,
+  onParseError: (line: string, error: unknown) => void = () => {}
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleLine = (line: string): boolean => {
+    if (!line.trim()) return true;
+    let event: Record<string, unknown>;
+    try {
+      event = JSON.parse(line);
+    } catch (error) {
+      onParseError(line, error);
+      return true;
+    }
+    return onEvent(event) !== false;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || ""; // Keep incomplete line in buffer
+
+      for (const line of lines) {
+        if (!handleLine(line)) return;
+      }
+    }
+    handleLine(buffer + decoder.decode());
+  } finally {
+    reader.releaseLock();
+  }
+}
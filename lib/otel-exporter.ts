@@ -0,0 +1,194 @@
+/**
+ * OpenTelemetry exporter for agent traces: emits each exchange as GenAI semantic-convention spans (invoke_agent for
+ * the exchange, chat per model turn, execute_tool per tool call) with token and cost attributes.
+ *
+ * Input data sources: Exchange traces from lib/agent-tracer, OTEL_* environment variables (OTEL_SDK_DISABLED,
+ *   OTEL_TRACES_EXPORTER, OTEL_SERVICE_NAME, OTEL_RESOURCE_ATTRIBUTES, OTEL_EXPORTER_OTLP_(TRACES_)ENDPOINT / HEADERS /
+ *   TIMEOUT, OTEL_BSP_*), OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT
+ * Output destinations: OTLP/HTTP (JSON) collector, stdout (OTEL_TRACES_EXPORTER=console), or a given span exporter
+ * Dependencies: @opentelemetry/api, @opentelemetry/sdk-trace-base, @opentelemetry/resources,
+ *   @opentelemetry/exporter-trace-otlp-http
+ * Key exports: createOtelExporter(), otelEnabled()
+ * Side effects: Sends spans to the collector; the tracer provider is private (not registered globally)
+ */
+
+import { ROOT_CONTEXT, SpanKind, SpanStatusCode, trace as otelTrace, type Attributes, type Span } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  type SpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import { detectResources, envDetector, resourceFromAttributes } from "@opentelemetry/resources";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import type { AgentSpan, ExchangeTrace, TraceExporter } from "@/lib/agent-tracer";
+
+const PROVIDER = "anthropic";
+
+/**
+ * Options for configuring the OpenTelemetry exporter
+ */
+interface OtelExporterOptions {
+  spanExporter?: SpanExporter; // Default: from OTEL_TRACES_EXPORTER (otlp or console)
+  serviceName?: string; // Default: OTEL_SERVICE_NAME, else "claude-agent"
+  captureContent?: boolean; // Default: OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT === "true"
+}
+
+/**
+ * False when OTEL_SDK_DISABLED=true or OTEL_TRACES_EXPORTER=none
+ */
+export function otelEnabled(): boolean {
+  return process.env.OTEL_SDK_DISABLED?.toLowerCase() !== "true" && process.env.OTEL_TRACES_EXPORTER?.trim() !== "none";
+}
+
+/**
+ * Span exporter named by OTEL_TRACES_EXPORTER (the first one, when several are listed)
+ */
+function spanExporterFromEnv(): SpanExporter {
+  const name = (process.env.OTEL_TRACES_EXPORTER || "otlp").split(",")[0].trim();
+  if (name === "console") return new ConsoleSpanExporter();
+  if (name !== "otlp") {
+    console.warn(`[tracing] OTEL_TRACES_EXPORTER "${name}" is not supported here; using otlp`);
+  }
+  return new OTLPTraceExporter(); // Reads OTEL_EXPORTER_OTLP_* itself
+}
+
+// Content (prompts, outputs, tool arguments and results) only goes out when opted in
+function content(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value ?? null);
+}
+
+function usageAttributes(metrics: Record<string, number>): Attributes {
+  if (metrics.tokens_in === undefined) return {};
+  return {
+    "gen_ai.usage.input_tokens": metrics.tokens_in + (metrics.cache_read ?? 0) + (metrics.cache_creation ?? 0),
+    "gen_ai.usage.output_tokens": metrics.tokens_out ?? 0,
+    "gen_ai.usage.cache_read.input_tokens": metrics.cache_read ?? 0,
+    "gen_ai.usage.cache_creation.input_tokens": metrics.cache_creation ?? 0,
+  };
+}
+
+/**
+ * GenAI semantic-convention name, kind and attributes of a span
+ */
+function describeSpan(
+  span: AgentSpan,
+  exchange: ExchangeTrace,
+  captureContent: boolean
+): { name: string; kind: SpanKind; attributes: Attributes } {
+  if (span.kind === "llm") {
+    const model = String(span.attributes.model || span.name);
+    return {
+      name: `chat ${model}`,
+      kind: SpanKind.CLIENT,
+      attributes: {
+        "gen_ai.operation.name": "chat",
+        "gen_ai.provider.name": PROVIDER,
+        "gen_ai.request.model": model,
+        "gen_ai.response.model": model,
+        "gen_ai.response.id": String(span.attributes.message_id ?? ""),
+        "gen_ai.conversation.id": exchange.session_id,
+        ...usageAttributes(span.metrics),
+        ...(captureContent && {
+          "gen_ai.input.messages": content(span.input),
+          "gen_ai.output.messages": content(span.output),
+        }),
+      },
+    };
+  }
+
+  if (span.kind === "tool") {
+    return {
+      name: `execute_tool ${span.name}`,
+      kind: SpanKind.INTERNAL,
+      attributes: {
+        "gen_ai.operation.name": "execute_tool",
+        "gen_ai.tool.name": span.name,
+        "gen_ai.tool.type": "function",
+        "gen_ai.tool.call.id": String(span.attributes.tool_use_id ?? ""),
+        "gen_ai.conversation.id": exchange.session_id,
+        ...(captureContent && {
+          "gen_ai.tool.call.arguments": content(span.input),
+          "gen_ai.tool.call.result": content(span.output),
+        }),
+      },
+    };
+  }
+
+  const agent = String(span.attributes.profile ?? "default");
+  return {
+    name: `invoke_agent ${agent}`,
+    kind: SpanKind.INTERNAL,
+    attributes: {
+      "gen_ai.operation.name": "invoke_agent",
+      "gen_ai.provider.name": PROVIDER,
+      "gen_ai.agent.name": agent,
+      "gen_ai.conversation.id": exchange.session_id,
+      ...(span.attributes.model && { "gen_ai.request.model": String(span.attributes.model) }),
+      ...usageAttributes(span.metrics),
+      ...(span.metrics.cost_usd !== undefined && { "claude_agent.cost_usd": span.metrics.cost_usd }),
+      ...(span.metrics.num_turns !== undefined && { "claude_agent.num_turns": span.metrics.num_turns }),
+      ...(span.metrics.duration_api_ms !== undefined && { "claude_agent.duration_api_ms": span.metrics.duration_api_ms }),
+      ...(span.attributes.result_subtype && { "claude_agent.result_subtype": String(span.attributes.result_subtype) }),
+      ...(span.attributes.interrupted && { "claude_agent.interrupted": true }),
+      ...(span.attributes.workspace && { "claude_agent.workspace": String(span.attributes.workspace) }),
+      ...(span.attributes.user_id && { "user.id": String(span.attributes.user_id) }),
+      ...(captureContent && {
+        "gen_ai.input.messages": content(span.input),
+        "gen_ai.output.messages": content(span.output),
+      }),
+    },
+  };
+}
+
+/**
+ * Create an OpenTelemetry exporter.
+ *
+ * @param options - Span exporter (e.g. InMemorySpanExporter in tests), service name, content capture
+ * @returns Exporter for createAgentTracer()
+ */
+export function createOtelExporter(options?: OtelExporterOptions): TraceExporter {
+  const captureContent =
+    options?.captureContent ?? process.env.OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT?.toLowerCase() === "true";
+
+  // OTEL_SERVICE_NAME and OTEL_RESOURCE_ATTRIBUTES override the defaults
+  const resource = resourceFromAttributes({ "service.name": options?.serviceName ?? "claude-agent" }).merge(
+    detectResources({ detectors: [envDetector] })
+  );
+  const provider = new BasicTracerProvider({
+    resource,
+    spanProcessors: [new BatchSpanProcessor(options?.spanExporter ?? spanExporterFromEnv())],
+  });
+  const tracer = provider.getTracer("claude-agent-tracer");
+
+  // Return public API
+  return {
+    name: "otel",
+    export(exchange) {
+      const created = new Map<string, Span>();
+
+      for (const span of exchange.spans) {
+        const parent = span.parent_id ? created.get(span.parent_id) : undefined;
+        const { name, kind, attributes } = describeSpan(span, exchange, captureContent);
+        const otelSpan = tracer.startSpan(
+          name,
+          { kind, attributes, startTime: span.start_ms },
+          parent ? otelTrace.setSpan(ROOT_CONTEXT, parent) : ROOT_CONTEXT
+        );
+        if (span.error) {
+          otelSpan.setStatus({ code: SpanStatusCode.ERROR, message: span.error });
+          otelSpan.setAttribute(
+            "error.type",
+            span.kind === "exchange" ? String(span.attributes.result_subtype ?? "incomplete") : "tool_error"
+          );
+        }
+        created.set(span.span_id, otelSpan);
+      }
+
+      for (const span of [...exchange.spans].reverse()) {
+        created.get(span.span_id)?.end(span.end_ms);
+      }
+    },
+    flush: () => provider.forceFlush(),
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Filesystem sandbox for the agent's file tools: Read, Write, Edit, MultiEdit, NotebookEdit, Glob and Grep may only
+ * touch the session workspace, and reads may also use an allowlist of read-only directories.
+ *
+ * Input data sources: File tool inputs (via the SDK's PreToolUse hook), profile readOnlyDirs
+ * Output destinations: Deny decisions with a reason for the model, path violations for the session log
+ * Dependencies: Node.js fs, os and path modules, @anthropic-ai/claude-agent-sdk types
+ * Key exports: createPathGuard(), pathGuardHooks(), GUARDED_TOOLS, PathGuard, PathViolation
+ * Side effects: Reads the filesystem to resolve symlinks
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { HookCallbackMatcher, HookEvent, PreToolUseHookInput } from "@anthropic-ai/claude-agent-sdk";
+
+/**
+ * Path fields checked per tool, and whether the tool writes
+ */
+export const GUARDED_TOOLS: Record<string, { fields: string[]; writes: boolean }> = {
+  Read: { fields: ["file_path"], writes: false },
+  Write: { fields: ["file_path"], writes: true },
+  Edit: { fields: ["file_path"], writes: true },
+  MultiEdit: { fields: ["file_path"], writes: true },
+  NotebookEdit: { fields: ["notebook_path"], writes: true },
+  Glob: { fields: ["path", "pattern"], writes: false },
+  Grep: { fields: ["path", "glob"], writes: false },
+};
+
+// Fields holding glob patterns rather than paths
+const PATTERN_FIELDS = new Set(["pattern", "glob"]);
+const MAX_BRACE_EXPANSIONS = 64;
+
+/**
+ * File tool call refused by the guard
+ */
+export interface PathViolation {
+  tool: string;
+  path: string; // Path as given by the model
+  resolved: string; // Real path it resolves to
+  reason: string;
+}
+
+/**
+ * Resolve a path to its real location, following symlinks of the nearest existing ancestor
+ * (paths that don't exist yet keep their remaining segments)
+ */
+function realResolve(base: string, target: string): string {
+  const candidate = path.resolve(base, target);
+  let existing = candidate;
+  while (!fs.existsSync(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) return candidate;
+    existing = parent;
+  }
+  return path.join(fs.realpathSync(existing), path.relative(existing, candidate));
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * Expand brace alternatives, e.g. "{/etc,src}/*" → ["/etc/*", "src/*"]
+ *
+ * @returns The expanded patterns, or null when there are more than MAX_BRACE_EXPANSIONS
+ */
+function expandBraces(pattern: string): string[] | null {
+  let results = [pattern];
+  for (let pass = 0; pass < MAX_BRACE_EXPANSIONS; pass++) {
+    const next: string[] = [];
+    let expanded = false;
+
+    for (const candidate of results) {
+      const group = findBraceGroup(candidate);
+      if (!group) {
+        next.push(candidate);
+        continue;
+      }
+      expanded = true;
+      for (const alternative of group.alternatives) {
+        next.push(candidate.slice(0, group.start) + alternative + candidate.slice(group.end + 1));
+      }
+    }
+
+    if (next.length > MAX_BRACE_EXPANSIONS) return null;
+    results = next;
+    if (!expanded) return results;
+  }
+  return null;
+}
+
+/**
+ * First {a,b} group of a pattern with its top-level alternatives (a group without a comma is literal)
+ */
+function findBraceGroup(pattern: string): { start: number; end: number; alternatives: string[] } | null {
+  for (let start = pattern.indexOf("{"); start !== -1; start = pattern.indexOf("{", start + 1)) {
+    const alternatives: string[] = [];
+    let depth = 0;
+    let from = start + 1;
+    for (let i = start + 1; i < pattern.length; i++) {
+      if (pattern[i] === "{") depth++;
+      else if (pattern[i] === "}" && depth > 0) depth--;
+      else if (pattern[i] === "," && depth === 0) {
+        alternatives.push(pattern.slice(from, i));
+        from = i + 1;
+      } else if (pattern[i] === "}") {
+        if (alternatives.length === 0) break;
+        alternatives.push(pattern.slice(from, i));
+        return { start, end: i, alternatives };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Directory part of a glob pattern before its first wildcard, e.g. "/etc/*.conf" → "/etc"
+ *
+ * @returns The base, or null when .. follows a wildcard (it could climb anywhere above the base)
+ */
+function globBase(pattern: string): string | null {
+  const segments = pattern.split("/");
+  const wildcard = segments.findIndex((segment) => /[*?[\]{}]/.test(segment));
+  if (wildcard === -1) return pattern;
+  if (segments.slice(wildcard).includes("..")) return null;
+  return segments.slice(0, wildcard).join("/") || (pattern.startsWith("/") ? "/" : ".");
+}
+
+/**
+ * Directories a glob pattern can match in, one per brace alternative
+ *
+ * @returns The bases, or null when the pattern can't be confined to directories
+ */
+function globBases(pattern: string): string[] | null {
+  const bases = expandBraces(pattern)?.map(globBase);
+  return bases && bases.every((base) => base !== null) ? (bases as string[]) : null;
+}
+
+/**
+ * Create a path guard for one workspace.
+ *
+ * @param workspace - Session workspace (the agent's cwd); tools may read and write inside it
+ * @param readOnlyDirs - Extra directories tools may read (absolute, or relative to the project root)
+ * @returns Guard object with a method to check file tool inputs
+ */
+export function createPathGuard(workspace: string, readOnlyDirs: string[] = []) {
+  const root = realResolve(process.cwd(), workspace);
+  const readRoots = readOnlyDirs.map((dir) => realResolve(process.cwd(), dir));
+
+  /**
+   * Public API: Check a file tool call
+   *
+   * @returns The first violation, or null if every path is allowed (or the tool isn't guarded)
+   */
+  function check(tool: string, input: Record<string, unknown>): PathViolation | null {
+    const spec = GUARDED_TOOLS[tool];
+    if (!spec) return null;
+
+    const allowed = spec.writes || readRoots.length === 0 ? root : [root, ...readRoots].join(", ");
+
+    for (const field of spec.fields) {
+      const value = input[field];
+      if (typeof value !== "string" || !value) continue;
+
+      const targets = PATTERN_FIELDS.has(field) ? globBases(value) : [value];
+      if (!targets) {
+        return {
+          tool,
+          path: value,
+          resolved: value,
+          reason: `${tool} is limited to ${allowed}; ${value} can't be checked (.. after a wildcard or too many {} alternatives)`,
+        };
+      }
+
+      for (const target of targets) {
+        const resolved = realResolve(root, target.replace(/^~(?=$|\/)/, os.homedir()));
+        if (isInside(root, resolved)) continue;
+        if (!spec.writes && readRoots.some((readRoot) => isInside(readRoot, resolved))) continue;
+
+        return {
+          tool,
+          path: value,
+          resolved,
+          reason: `${tool} is limited to ${allowed}; ${value} resolves to ${resolved}`,
+        };
+      }
+    }
+    return null;
+  }
+
+  // Return public API
+  return {
+    check,
+  };
+}
+
+export type PathGuard = ReturnType<typeof createPathGuard>;
+
+/**
+ * PreToolUse hooks that deny guarded file tool calls outside the sandbox (hooks run even for allowedTools
+ * and in bypassPermissions mode, unlike canUseTool)
+ *
+ * @param guard - Path guard for the session workspace
+ * @param onViolation - Called for each refused call (e.g. the session logger)
+ * @returns Value for the SDK's hooks option
+ */
+export function pathGuardHooks(
+  guard: PathGuard,
+  onViolation?: (violation: PathViolation) => void
+): Partial<Record<HookEvent, HookCallbackMatcher[]>> {
+  return {
+    PreToolUse: [
+      {
+        matcher: Object.keys(GUARDED_TOOLS).join("|"),
+        hooks: [
+          async (input) => {
+            const { tool_name, tool_input } = input as PreToolUseHookInput;
+            const violation = guard.check(tool_name, (tool_input ?? {}) as Record<string, unknown>);
+            if (!violation) return {};
+
+            onViolation?.(violation);
+            return {
+              hookSpecificOutput: {
+                hookEventName: "PreToolUse",
+                permissionDecision: "deny",
+                permissionDecisionReason: `${violation.reason}. Use a path inside the working directory.`,
+              },
+            };
+          },
+        ],
+      },
+    ],
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * Tool permission broker that bridges the SDK's canUseTool callback to interactive approvals from the web chat.
+ *
+ * Input data sources: SDK canUseTool calls, decisions POSTed to /api/chat/permission
+ * Output destinations: permission_request events emitted into the /api/chat NDJSON stream
+ * Dependencies: @anthropic-ai/claude-agent-sdk types, Node.js crypto module
+ * Key exports: createPermissionBridge(), resolvePermission(), getPermissionOwner(), PermissionRequestEvent,
+ *   PermissionDecision
+ * Side effects: Holds pending permission requests and per-session always-allow lists in process memory (lists idle for
+ *   a day are dropped, at most 1000 sessions are kept)
+ */
+
+import { randomUUID } from "crypto";
+import type { CanUseTool, PermissionResult } from "@anthropic-ai/claude-agent-sdk";
+
+/**
+ * NDJSON event sent to the client when a tool call needs approval
+ */
+export interface PermissionRequestEvent {
+  type: "permission_request";
+  request_id: string;
+  tool_name: string;
+  tool_use_id: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Answer from the client for a pending permission request
+ */
+export type PermissionDecision = "allow" | "deny" | "always_allow";
+
+/**
+ * Options for configuring a permission bridge
+ */
+interface PermissionBridgeOptions {
+  emit: (event: PermissionRequestEvent) => void;
+  userId?: string | null; // Caller of the chat request; only they may answer its permission requests
+  timeoutMs?: number; // Default: 5 minutes
+}
+
+/**
+ * Pending request waiting for a decision
+ */
+interface PendingPermission {
+  sessionId: string;
+  userId: string | null;
+  toolName: string;
+  input: Record<string, unknown>;
+  suggestions?: Parameters<CanUseTool>[2]["suggestions"];
+  finish: (result: PermissionResult) => void;
+}
+
+/**
+ * Tools the user always-allowed for one session
+ */
+interface AllowedTools {
+  tools: Set<string>;
+  lastUsed: number;
+}
+
+// Always-allow lists of sessions idle this long are dropped, and at most this many sessions are kept
+const ALLOWED_TOOLS_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_ALLOWED_SESSIONS = 1000;
+
+/**
+ * Process-wide state shared between the chat route and the permission route.
+ * Stored on globalThis so it survives Next.js dev reloads and separate route bundles.
+ */
+const store = globalThis as unknown as {
+  __pendingPermissions?: Map<string, PendingPermission>;
+  __sessionAllowedTools?: Map<string, AllowedTools>;
+};
+const pendingPermissions: Map<string, PendingPermission> = (store.__pendingPermissions ??= new Map());
+const sessionAllowedTools: Map<string, AllowedTools> = (store.__sessionAllowedTools ??= new Map());
+
+/**
+ * Always-allow list of a session, refreshed as most recently used (null if none or expired)
+ */
+function getAllowedTools(sessionId: string): Set<string> | null {
+  const entry = sessionAllowedTools.get(sessionId);
+  if (!entry) return null;
+
+  sessionAllowedTools.delete(sessionId);
+  if (Date.now() - entry.lastUsed > ALLOWED_TOOLS_TTL_MS) return null;
+  // Re-insert so the map stays ordered from least to most recently used
+  sessionAllowedTools.set(sessionId, { ...entry, lastUsed: Date.now() });
+  return entry.tools;
+}
+
+/**
+ * Remember an always-allowed tool, dropping expired sessions and the least recently used beyond the cap
+ */
+function addAllowedTool(sessionId: string, toolName: string): void {
+  const tools = getAllowedTools(sessionId) ?? new Set<string>();
+  tools.add(toolName);
+  sessionAllowedTools.set(sessionId, { tools, lastUsed: Date.now() });
+
+  for (const [id, entry] of sessionAllowedTools) {
+    if (sessionAllowedTools.size <= MAX_ALLOWED_SESSIONS && Date.now() - entry.lastUsed <= ALLOWED_TOOLS_TTL_MS) break;
+    sessionAllowedTools.delete(id);
+  }
+}
+
+/**
+ * Create a permission bridge for one streaming chat request.
+ *
+ * @param options - Emitter for permission_request events and optional timeout
+ * @returns Bridge with a canUseTool callback for the SDK options
+ */
+export function createPermissionBridge(options: PermissionBridgeOptions) {
+  const timeoutMs = options.timeoutMs ?? 5 * 60 * 1000;
+  const ownRequests = new Set<string>();
+  let sessionId = "";
+
+  /**
+   * SDK callback: auto-allow tools the user always-allowed for this session,
+   * otherwise emit a permission_request and wait for the client's decision
+   */
+  const canUseTool: CanUseTool = async (toolName, input, { signal, suggestions, toolUseID }) => {
+    if (getAllowedTools(sessionId)?.has(toolName)) {
+      return { behavior: "allow", updatedInput: input };
+    }
+
+    const requestId = randomUUID();
+
+    return new Promise<PermissionResult>((resolve) => {
+      const onAbort = () =>
+        finish({ behavior: "deny", message: "Permission request aborted", interrupt: true });
+
+      const timer = setTimeout(
+        () => finish({ behavior: "deny", message: "Permission request timed out" }),
+        timeoutMs
+      );
+
+      function finish(result: PermissionResult) {
+        clearTimeout(timer);
+        signal.removeEventListener("abort", onAbort);
+        pendingPermissions.delete(requestId);
+        ownRequests.delete(requestId);
+        resolve(result);
+      }
+
+      signal.addEventListener("abort", onAbort, { once: true });
+      pendingPermissions.set(requestId, {
+        sessionId,
+        userId: options.userId ?? null,
+        toolName,
+        input,
+        suggestions,
+        finish,
+      });
+      ownRequests.add(requestId);
+
+      options.emit({
+        type: "permission_request",
+        request_id: requestId,
+        tool_name: toolName,
+        tool_use_id: toolUseID,
+        input,
+      });
+    });
+  };
+
+  /**
+   * Set the SDK session_id (known from the resume id or the init message)
+   */
+  function setSessionId(id: string): void {
+    sessionId = id;
+  }
+
+  /**
+   * Deny every request still waiting on this bridge (stream finished or failed)
+   */
+  function cancelPending(): void {
+    for (const requestId of [...ownRequests]) {
+      pendingPermissions
+        .get(requestId)
+        ?.finish({ behavior: "deny", message: "Chat stream closed", interrupt: true });
+    }
+  }
+
+  return {
+    canUseTool,
+    setSessionId,
+    cancelPending,
+  };
+}
+
+/**
+ * Owner of a pending permission request, for the permission route's owner check.
+ *
+ * @param requestId - request_id from the permission_request event
+ * @returns The user id (null when the chat ran without auth), or undefined if no such request is pending
+ */
+export function getPermissionOwner(requestId: string): string | null | undefined {
+  return pendingPermissions.get(requestId)?.userId;
+}
+
+/**
+ * Resolve a pending permission request with the client's decision.
+ *
+ * @param requestId - request_id from the permission_request event
+ * @param decision - allow, deny, or always_allow (allow and remember for this session)
+ * @param message - Optional denial reason passed back to the model
+ * @returns false if no such request is pending
+ */
+export function resolvePermission(
+  requestId: string,
+  decision: PermissionDecision,
+  message?: string
+): boolean {
+  const pending = pendingPermissions.get(requestId);
+  if (!pending) return false;
+
+  if (decision === "deny") {
+    pending.finish({
+      behavior: "deny",
+      message: message || "The user denied this tool call",
+    });
+    return true;
+  }
+
+  if (decision === "always_allow" && pending.sessionId) {
+    addAllowedTool(pending.sessionId, pending.toolName);
+  }
+
+  // Only session-scoped rules: suggestions saved to settings files would outlive the session (and skip canUseTool,
+  // including the Bash command policy, in every later session)
+  const sessionUpdates = pending.suggestions?.filter((update) => update.destination === "session") ?? [];
+  pending.finish({
+    behavior: "allow",
+    updatedInput: pending.input,
+    ...(decision === "always_allow" && sessionUpdates.length > 0 && {
+      updatedPermissions: sessionUpdates,
+    }),
+  });
+  return true;
+}
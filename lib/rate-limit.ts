@@ -0,0 +1,78 @@
+/**
+ * Per-user rate limit for agent turns: a sliding one-minute window of request timestamps per key.
+ *
+ * Input data sources: RATE_LIMIT_PER_MINUTE environment variable (default 20), per-user overrides from lib/auth
+ * Output destinations: Used by the /api/chat route (429 responses)
+ * Dependencies: None
+ * Key exports: takeRateLimit(), defaultRateLimit(), RateLimitResult
+ * Side effects: Holds request timestamps in process memory (keys without a request in the last minute are swept out)
+ */
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Outcome of counting one request
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+/**
+ * Process-wide request timestamps by key.
+ * Stored on globalThis so they survive Next.js dev reloads and separate route bundles.
+ */
+const store = globalThis as unknown as {
+  __rateLimitWindows?: Map<string, number[]>;
+  __rateLimitLastSweep?: number;
+};
+const windows: Map<string, number[]> = (store.__rateLimitWindows ??= new Map());
+
+/**
+ * Drop keys whose window is empty, at most once per window, so rotating keys (e.g. login usernames) don't pile up
+ */
+function sweepIdleKeys(now: number): void {
+  if (now - (store.__rateLimitLastSweep ?? 0) < WINDOW_MS) return;
+  store.__rateLimitLastSweep = now;
+
+  for (const [key, timestamps] of windows) {
+    if ((timestamps[timestamps.length - 1] ?? 0) <= now - WINDOW_MS) windows.delete(key);
+  }
+}
+
+/**
+ * Requests per minute allowed when a user has no override
+ */
+export function defaultRateLimit(): number {
+  const configured = Number(process.env.RATE_LIMIT_PER_MINUTE);
+  return Number.isInteger(configured) && configured > 0 ? configured : 20;
+}
+
+/**
+ * Count a request against a key's window, unless the window is full.
+ *
+ * @param key - User id (or "anonymous" when auth is disabled)
+ * @param limit - Requests allowed per minute
+ * @returns Whether the request may proceed, and when to retry if not
+ */
+export function takeRateLimit(key: string, limit: number = defaultRateLimit()): RateLimitResult {
+  const now = Date.now();
+  sweepIdleKeys(now);
+  const recent = (windows.get(key) ?? []).filter((ts) => ts > now - WINDOW_MS);
+
+  if (recent.length >= limit) {
+    windows.set(key, recent);
+    return {
+      allowed: false,
+      limit,
+      remaining: 0,
+      retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + WINDOW_MS - now) / 1000)),
+    };
+  }
+
+  recent.push(now);
+  windows.set(key, recent);
+  return { allowed: true, limit, remaining: limit - recent.length, retryAfterSeconds: 0 };
+}
@@ -0,0 +1,167 @@
+/**
+ * Redaction of secrets and personal data before session logs are written: built-in detectors for API keys, AWS
+ * credentials, JWTs, bearer tokens, passwords in URLs, KEY=value style secrets and emails, plus user-supplied regexes
+ * from sessions/redaction.json.
+ *
+ * Input data sources: Strings and JSON values to be logged, /sessions/redaction.json (user patterns, disabled detectors)
+ * Output destinations: Used by lib/session-logger and lib/agent-tracer
+ * Dependencies: zod, Node.js fs module, path module
+ * Key exports: createRedactor(), loadRedactionConfig(), BUILTIN_DETECTORS, redactionConfigSchema, Redactor,
+ *   RedactionDetector, RedactionConfig
+ * Side effects: Reads redaction.json (loadRedactionConfig)
+ */
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+
+/**
+ * Named pattern whose matches are masked. Only the `secret` named group is masked when the pattern has one,
+ * so context such as `KEY=` stays readable.
+ */
+export interface RedactionDetector {
+  name: string;
+  pattern: RegExp;
+}
+
+/**
+ * Detectors applied unless disabled in redaction.json (more specific ones first)
+ */
+export const BUILTIN_DETECTORS: RedactionDetector[] = [
+  { name: "anthropic_key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  // Also matches Braintrust keys, which share the sk- prefix
+  { name: "openai_key", pattern: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "braintrust_key", pattern: /\bBRAINTRUST_API_KEY["']?\s*[=:]\s*["']?(?<secret>[^\s"']+)/g },
+  { name: "aws_access_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "aws_secret_key", pattern: /\baws_secret_access_key["']?\s*[=:]\s*["']?(?<secret>[A-Za-z0-9/+=]{40,})/gi },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g },
+  // Values an earlier detector already masked are left alone
+  { name: "bearer_token", pattern: /\bBearer\s+(?<secret>(?!\[REDACTED)[A-Za-z0-9._~+/=-]{8,})/gi },
+  { name: "url_credentials", pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s/:@]+:(?<secret>(?!\[REDACTED)[^\s/@]+)@/gi },
+  {
+    name: "secret_assignment",
+    pattern: /\b[A-Za-z0-9_]*(?:API_KEY|APIKEY|SECRET|TOKEN|PASSWORD|PASSWD)["']?\s*[=:]\s*["']?(?<secret>(?!\[REDACTED)[^\s"'&]+)/gi,
+  },
+  { name: "email", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+];
+
+/**
+ * Schema for redaction.json
+ */
+export const redactionConfigSchema = z
+  .object({
+    // Extra regexes (JavaScript syntax, matched case-sensitively unless flags say otherwise)
+    patterns: z
+      .array(
+        z.object({
+          name: z.string().regex(/^[a-z0-9_-]+$/, "Use lowercase letters, digits, dashes and underscores"),
+          pattern: z.string().min(1),
+          flags: z.string().regex(/^[imsu]*$/, "Only i, m, s and u flags are allowed").default(""),
+        })
+      )
+      .default([]),
+    // Built-in detector names to turn off (e.g. "email")
+    disabled: z.array(z.string()).default([]),
+  })
+  .strict();
+
+export type RedactionConfig = z.infer<typeof redactionConfigSchema>;
+
+/**
+ * Load redaction.json from a directory
+ *
+ * @param dir - Directory holding redaction.json (the sessions directory)
+ * @returns Parsed config, or the defaults when the file doesn't exist
+ * @throws Error naming the file when it fails validation
+ */
+export function loadRedactionConfig(dir: string): RedactionConfig {
+  const configFile = path.join(dir, "redaction.json");
+  if (!fs.existsSync(configFile)) return redactionConfigSchema.parse({});
+
+  const result = redactionConfigSchema.safeParse(JSON.parse(fs.readFileSync(configFile, "utf-8")));
+  if (!result.success) {
+    throw new Error(`Invalid ${configFile}:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Create a redactor from built-in detectors and user patterns.
+ *
+ * @param config - User patterns and disabled built-in detectors (default: built-ins only)
+ * @param detectors - Built-in detectors to start from (default: BUILTIN_DETECTORS)
+ * @returns Redactor object with methods to mask strings and JSON values
+ * @throws Error naming the pattern when a user regex doesn't compile
+ */
+export function createRedactor(config?: Partial<RedactionConfig>, detectors: RedactionDetector[] = BUILTIN_DETECTORS) {
+  const disabled = new Set(config?.disabled ?? []);
+  const active: RedactionDetector[] = detectors.filter((detector) => !disabled.has(detector.name));
+
+  for (const { name, pattern, flags } of config?.patterns ?? []) {
+    try {
+      active.push({ name, pattern: new RegExp(pattern, `${flags ?? ""}g`) });
+    } catch (error) {
+      throw new Error(`Invalid redaction pattern "${name}": ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Public API: Mask every detector match in a string
+   *
+   * @returns Masked text and the number of values masked
+   */
+  function redactText(text: string): { text: string; count: number } {
+    let count = 0;
+    let result = text;
+
+    for (const { name, pattern } of active) {
+      const mask = `[REDACTED:${name}]`;
+      result = result.replace(pattern, (match: string, ...args: unknown[]) => {
+        // The groups object is the last replacer argument when the pattern has named groups
+        const groups = args[args.length - 1] as Record<string, string> | undefined;
+        const secret = typeof groups === "object" ? groups?.secret : undefined;
+        if (secret === undefined) {
+          count++;
+          return mask;
+        }
+        if (!secret) return match;
+        count++;
+        const start = match.lastIndexOf(secret);
+        return match.slice(0, start) + mask + match.slice(start + secret.length);
+      });
+    }
+    return { text: result, count };
+  }
+
+  /**
+   * Public API: Mask strings anywhere in a JSON value (object keys are kept)
+   *
+   * @returns Masked copy of the value and the number of values masked
+   */
+  function redactValue<T>(value: T): { value: T; count: number } {
+    let count = 0;
+
+    const walk = (current: unknown): unknown => {
+      if (typeof current === "string") {
+        const redacted = redactText(current);
+        count += redacted.count;
+        return redacted.text;
+      }
+      if (Array.isArray(current)) return current.map(walk);
+      if (current && typeof current === "object") {
+        return Object.fromEntries(Object.entries(current).map(([key, inner]) => [key, walk(inner)]));
+      }
+      return current;
+    };
+
+    return { value: walk(value) as T, count };
+  }
+
+  // Return public API
+  return {
+    redactText,
+    redactValue,
+  };
+}
+
+export type Redactor = ReturnType<typeof createRedactor>;
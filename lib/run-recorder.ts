@@ -0,0 +1,162 @@
+/**
+ * Records the outcome of agent exchanges from the SDK message stream: final answer, tool calls with their results,
+ * files touched, cost, turns and how the exchange ended. Used to score and compare runs.
+ *
+ * Input data sources: Claude Agent SDK messages (assistant, user tool results, result)
+ * Output destinations: Used by the eval runner (eval-test/) and session replay
+ * Dependencies: Node.js path module, @anthropic-ai/claude-agent-sdk types, lib/diff
+ * Key exports: createRunRecorder(), filesTouched(), RecordedToolCall, ExchangeRecord, RunRecorder
+ * Side effects: None
+ */
+
+import path from "path";
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { isFileEditTool } from "@/lib/diff";
+
+/**
+ * Tool call with its result (null until a result arrives)
+ */
+export interface RecordedToolCall {
+  tool_use_id: string;
+  name: string;
+  input: Record<string, unknown>;
+  is_error: boolean;
+  output: string | null;
+}
+
+/**
+ * Outcome of one exchange (one user input up to its result message)
+ */
+export interface ExchangeRecord {
+  final_text: string; // The result text, or the last assistant text when the exchange ended with an error
+  tool_calls: RecordedToolCall[];
+  files_touched: string[]; // Written or edited paths, relative to the working directory when inside it
+  cost_usd: number;
+  num_turns: number;
+  duration_ms: number;
+  result_subtype: string; // "success", "error_max_turns", ...
+  is_error: boolean;
+  errors: string[];
+}
+
+/**
+ * Paths written by successful file-editing tool calls (Write, Edit, MultiEdit, NotebookEdit), in first-touch order
+ *
+ * @param toolCalls - Tool calls of an exchange
+ * @param cwd - Working directory; paths inside it are made relative
+ */
+export function filesTouched(
+  toolCalls: Array<Pick<RecordedToolCall, "name" | "input" | "is_error">>,
+  cwd?: string
+): string[] {
+  const files = new Set<string>();
+  for (const call of toolCalls) {
+    if (call.is_error || !(isFileEditTool(call.name) || call.name === "NotebookEdit")) continue;
+
+    const target = call.input.file_path ?? call.input.notebook_path;
+    if (typeof target !== "string" || !target) continue;
+
+    if (!cwd) {
+      files.add(target);
+      continue;
+    }
+    const relative = path.relative(cwd, path.resolve(cwd, target));
+    files.add(relative.startsWith("..") || path.isAbsolute(relative) ? target : relative.split(path.sep).join("/"));
+  }
+  return [...files];
+}
+
+/**
+ * Create a run recorder instance.
+ *
+ * @param options - Working directory used to make touched paths relative
+ * @returns Recorder object with methods to feed SDK messages and read the recorded exchanges
+ */
+export function createRunRecorder(options?: { cwd?: string }) {
+  const records: ExchangeRecord[] = [];
+  let sessionId: string | null = null;
+  let toolCalls: RecordedToolCall[] = [];
+  let lastText = "";
+  // The SDK reports cumulative cost per query; exchanges get the difference
+  let queryCostUsd = 0;
+
+  /**
+   * Public API: Feed one SDK message (stream events and subagent messages are ignored)
+   */
+  function record(message: SDKMessage): void {
+    if (message.type === "system" && message.subtype === "init") {
+      sessionId = message.session_id;
+      return;
+    }
+
+    if (message.type === "assistant" && message.parent_tool_use_id === null) {
+      const texts: string[] = [];
+      for (const block of message.message.content) {
+        if (block.type === "text" && block.text) {
+          texts.push(block.text);
+        } else if (block.type === "tool_use") {
+          toolCalls.push({
+            tool_use_id: block.id,
+            name: block.name,
+            input: (block.input ?? {}) as Record<string, unknown>,
+            is_error: false,
+            output: null,
+          });
+        }
+      }
+      if (texts.length > 0) lastText = texts.join("\n");
+      return;
+    }
+
+    if (message.type === "user" && message.parent_tool_use_id === null && Array.isArray(message.message.content)) {
+      for (const block of message.message.content) {
+        if (block.type !== "tool_result") continue;
+        const call = toolCalls.find((candidate) => candidate.tool_use_id === block.tool_use_id);
+        if (!call) continue;
+        call.is_error = block.is_error === true;
+        call.output = typeof block.content === "string" ? block.content : JSON.stringify(block.content ?? "");
+      }
+      return;
+    }
+
+    if (message.type === "result") {
+      records.push({
+        final_text: message.subtype === "success" ? message.result : lastText,
+        tool_calls: toolCalls,
+        files_touched: filesTouched(toolCalls, options?.cwd),
+        cost_usd: message.total_cost_usd - queryCostUsd,
+        num_turns: message.num_turns,
+        duration_ms: message.duration_ms,
+        result_subtype: message.subtype,
+        is_error: message.is_error,
+        errors: message.subtype === "success" ? [] : message.errors,
+      });
+      queryCostUsd = message.total_cost_usd;
+      toolCalls = [];
+      lastText = "";
+    }
+  }
+
+  /**
+   * Public API: Exchanges completed so far
+   */
+  function exchanges(): ExchangeRecord[] {
+    return records;
+  }
+
+  /**
+   * Public API: SDK session_id (null until the init message)
+   */
+  function getSessionId(): string | null {
+    return sessionId;
+  }
+
+  // Return public API
+  return {
+    record,
+    exchanges,
+    getSessionId,
+  };
+}
+
+export type RunRecorder = ReturnType<typeof createRunRecorder>;
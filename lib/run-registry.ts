@@ -0,0 +1,56 @@
+/**
+ * Registry of agent runs currently streaming from /api/chat, keyed by SDK session_id, so they can be interrupted.
+ *
+ * Input data sources: /api/chat route (register), /api/chat/interrupt route (interrupt)
+ * Output destinations: interrupt() of the registered run
+ * Dependencies: None
+ * Key exports: registerRun(), interruptRun(), ActiveRun
+ * Side effects: Holds active runs in process memory
+ */
+
+/**
+ * Handle for a running agent turn
+ */
+export interface ActiveRun {
+  interrupt: () => Promise<void>;
+}
+
+/**
+ * Process-wide state shared between the chat route and the interrupt route.
+ * Stored on globalThis so it survives Next.js dev reloads and separate route bundles.
+ */
+const store = globalThis as unknown as {
+  __activeRuns?: Map<string, ActiveRun>;
+};
+const activeRuns = (store.__activeRuns ??= new Map());
+
+/**
+ * Register a running turn for a session.
+ *
+ * @param sessionId - SDK session_id
+ * @param run - Handle used to interrupt the turn
+ * @returns Function that unregisters the run (only if it is still the registered one)
+ */
+export function registerRun(sessionId: string, run: ActiveRun): () => void {
+  activeRuns.set(sessionId, run);
+
+  return () => {
+    if (activeRuns.get(sessionId) === run) {
+      activeRuns.delete(sessionId);
+    }
+  };
+}
+
+/**
+ * Interrupt the running turn for a session.
+ *
+ * @param sessionId - SDK session_id
+ * @returns false if no turn is running for this session
+ */
+export async function interruptRun(sessionId: string): Promise<boolean> {
+  const run = activeRuns.get(sessionId);
+  if (!run) return false;
+
+  await run.interrupt();
+  return true;
+}
@@ -0,0 +1,68 @@
+/**
+ * Named secret store for values the agent legitimately needs (e.g. a read-only GitHub token), looked up by name
+ * so profiles never hold the values themselves.
+ *
+ * Input data sources: ./.agent-secrets.json ({ "<name>": "<value>" }), AGENT_SECRET_<NAME> environment variables
+ * Output destinations: Used by app/api/chat/env-policy
+ * Dependencies: Node.js fs module, path module
+ * Key exports: createSecretStore(), SecretStore
+ * Side effects: Reads the secrets file
+ */
+
+import fs from "fs";
+import path from "path";
+
+/**
+ * Options for configuring the secret store
+ */
+interface SecretStoreOptions {
+  file?: string; // Default: "./.agent-secrets.json"
+  env?: NodeJS.ProcessEnv; // Default: process.env
+}
+
+/**
+ * Environment variable that holds a secret, e.g. "github-readonly" → AGENT_SECRET_GITHUB_READONLY
+ */
+function envVarName(name: string): string {
+  return `AGENT_SECRET_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+}
+
+/**
+ * Create a secret store instance.
+ *
+ * @param options - Configuration options
+ * @returns Store object with a method to look up secrets by name
+ * @throws Error naming the file when the secrets file isn't a JSON object of strings
+ */
+export function createSecretStore(options?: SecretStoreOptions) {
+  const file = path.resolve(options?.file || "./.agent-secrets.json");
+  const env = options?.env ?? process.env;
+
+  const fileSecrets: Record<string, string> = {};
+  if (fs.existsSync(file)) {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error(`Invalid secrets file ${file}: expected an object of name → value`);
+    }
+    for (const [name, value] of Object.entries(parsed)) {
+      if (typeof value !== "string") {
+        throw new Error(`Invalid secrets file ${file}: value of "${name}" is not a string`);
+      }
+      fileSecrets[name] = value;
+    }
+  }
+
+  /**
+   * Public API: Look up a secret (the secrets file wins over AGENT_SECRET_<NAME>)
+   */
+  function get(name: string): string | undefined {
+    return fileSecrets[name] ?? env[envVarName(name)];
+  }
+
+  // Return public API
+  return {
+    get,
+  };
+}
+
+export type SecretStore = ReturnType<typeof createSecretStore>;
@@ -1,27 +1,45 @@
 /**
  * Session logging system for Claude Agent SDK interactions, capturing exchanges in JSONL format.
  *
- * Input data sources: Claude Agent SDK streaming messages (system, assistant, user, result)
- * Output destinations: /sessions/*.jsonl files (one per session)
- * Dependencies: Node.js fs module, path module
- * Key exports: createSessionLogger()
+ * Input data sources: Claude Agent SDK streaming messages (system, assistant, user, result), /sessions/redaction.json
+ * Output destinations: /sessions/*.jsonl files (one per session; exchange, policy_decision and path_violation lines),
+ *   with secrets and emails masked
+ * Dependencies: Node.js fs module, path module, lib/usage, lib/redaction
+ * Key exports: createSessionLogger(), Message, ExchangeStats
  * Side effects: Creates JSONL files in sessions directory, appends to files
  */
 
 import fs from "fs";
 import path from "path";
+import {
+  addExchangeUsage,
+  contextTokens,
+  emptyUsageTotals,
+  toModelUsageStats,
+  toolCallCounts,
+  type ModelUsageStats,
+} from "@/lib/usage";
+import { createRedactor, loadRedactionConfig, type Redactor } from "@/lib/redaction";
+import type { PolicyDecision } from "@/lib/command-policy";
+import type { PathViolation } from "@/lib/path-guard";
 
 /**
  * Options for configuring the session logger
  */
 interface SessionLoggerOptions {
   sessionsDir?: string; // Default: "./sessions"
+  profile?: string; // Agent profile name recorded in session_start
+  workspace?: string; // Per-session workspace directory recorded in session_start
+  parentSessionId?: string; // Session this one was forked from, recorded in session_start
+  forkedFromExchange?: number; // Last parent exchange kept by the fork; exchange numbering continues after it
+  userId?: string; // Authenticated user who owns the session, recorded in session_start
+  redactor?: Redactor; // Default: built-in detectors plus <sessionsDir>/redaction.json
 }
 
 /**
- * Internal message structure stored in exchange buffer
+ * Message structure stored in exchange buffer (and in the exchange line's messages array)
  */
-interface Message {
+export interface Message {
   source: "assistant" | "tool";
   type: "text" | "tool_use" | "result";
   ts: string;
@@ -45,7 +63,7 @@ type SDKMessage = any;
 /**
  * Statistics for a single exchange
  */
-interface ExchangeStats {
+export interface ExchangeStats {
   num_turns: number;
   duration_ms: number;
   duration_api_ms?: number;
@@ -54,6 +72,8 @@ interface ExchangeStats {
   cache_creation: number;
   cache_read: number;
   cost_usd: number;
+  context_tokens?: number; // Prompt size (input + cache tokens) of the exchange's last API call
+  model_usage?: Record<string, ModelUsageStats>;
 }
 
 /**
@@ -65,24 +85,29 @@ interface ExchangeStats {
 export function createSessionLogger(options?: SessionLoggerOptions) {
   // Private state via closures
   const sessionsDir = options?.sessionsDir || "./sessions";
+  const redactor = options?.redactor ?? createRedactor(loadRedactionConfig(sessionsDir));
   let sessionId = "";
   let filePath = "";
   let exchangeCount = 0;
   let currentMessages: Message[] = [];
   let currentUserInput = "";
   let exchangeStartTs = "";
+  let exchangeInterrupted = false;
+  // message.id of the last top-level assistant message in the exchange (fork point for resumeSessionAt)
+  let lastAssistantMessageId = "";
+
+  // Prompt size of the last top-level API call in the exchange
+  let lastContextTokens = 0;
 
   // Session-level aggregation
-  let totalDurationMs = 0;
-  let totalDurationApiMs = 0;
-  let totalCostUsd = 0;
-  let lastExchangeTokens = {
-    input: 0,
-    output: 0,
-    cache_creation: 0,
-    cache_read: 0,
-  };
-  const toolsUsed: Record<string, number> = {};
+  let totals = emptyUsageTotals();
+  let sessionContextTokens = 0;
+
+  // The SDK reports cost, API time and modelUsage cumulatively for the query process;
+  // these hold the values at the previous result so each exchange logs its own share
+  let queryCostUsd = 0;
+  let queryDurationApiMs = 0;
+  const queryModelUsage: Record<string, ModelUsageStats> = {};
 
   // Session metadata
   let sessionModel = "";
@@ -108,6 +133,28 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
     fs.appendFileSync(filePath, line, "utf-8");
   }
 
+  /**
+   * Mask secrets in the logged fields of an exchange: user_input and each message's text, input and output
+   */
+  function redactExchange(): { user_input: string; messages: Message[]; redactions: number } {
+    const userInput = redactor.redactText(currentUserInput);
+    let redactions = userInput.count;
+
+    const messages = currentMessages.map((message) => {
+      const fields = redactor.redactValue({ text: message.text, input: message.input, output: message.output });
+      if (fields.count === 0) return message;
+      redactions += fields.count;
+      return {
+        ...message,
+        ...(message.text !== undefined && { text: fields.value.text }),
+        ...(message.input !== undefined && { input: fields.value.input }),
+        ...(message.output !== undefined && { output: fields.value.output }),
+      };
+    });
+
+    return { user_input: userInput.text, messages, redactions };
+  }
+
   /**
    * Generate ISO timestamp
    */
@@ -154,28 +201,19 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
   }
 
   /**
-   * Load previous session stats from existing file
+   * Rebuild session totals from the exchange lines of an existing file
    */
   function loadPreviousSessionStats(filePath: string): void {
     try {
-      const content = fs.readFileSync(filePath, "utf-8");
-      const lines = content.trim().split("\n");
+      const lines = fs.readFileSync(filePath, "utf-8").trim().split("\n");
+      totals = emptyUsageTotals();
 
-      // Find the last session_end line to get accumulated stats
-      for (let i = lines.length - 1; i >= 0; i--) {
-        const parsed = JSON.parse(lines[i]);
-        if (parsed.type === "session_end") {
-          // Load accumulated stats
-          totalDurationMs = parsed.total_duration_ms || 0;
-          totalDurationApiMs = parsed.total_duration_api_ms || 0;
-          totalCostUsd = parsed.total_cost_usd || 0;
-          lastExchangeTokens = parsed.total_tokens || { input: 0, output: 0, cache_creation: 0, cache_read: 0 };
-
-          // Load tools_used
-          if (parsed.tools_used) {
-            Object.assign(toolsUsed, parsed.tools_used);
-          }
-          break;
+      for (const line of lines) {
+        const parsed = JSON.parse(line);
+        if (parsed.type !== "exchange") continue;
+        addExchangeUsage(totals, parsed.stats ?? null, parsed.messages ?? []);
+        if (parsed.stats?.context_tokens) {
+          sessionContextTokens = parsed.stats.context_tokens;
         }
       }
     } catch {
@@ -201,8 +239,8 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
     if (existingFile) {
       // Use existing file (append mode - don't write session_start again)
       filePath = existingFile;
-      // Continue from the last exchange number
-      exchangeCount = getLastExchangeNumber(existingFile);
+      // Continue from the last exchange number (counting an exchange already started by logUserInput)
+      exchangeCount = getLastExchangeNumber(existingFile) + (exchangeStartTs ? 1 : 0);
       // Load previous stats to continue accumulating
       loadPreviousSessionStats(existingFile);
       // Remove the old session_end so we can append new exchanges
@@ -219,6 +257,11 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
 
       filePath = path.join(sessionsDir, filename);
 
+      // A fork continues the parent's exchange numbering
+      if (options?.forkedFromExchange) {
+        exchangeCount = options.forkedFromExchange + (exchangeStartTs ? 1 : 0);
+      }
+
       // Write session_start line only for new files
       appendLine({
         type: "session_start",
@@ -228,6 +271,13 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
         cwd: sessionCwd,
         tools_available: sessionTools,
         permission_mode: sessionPermissionMode,
+        ...(options?.profile && { profile: options.profile }),
+        ...(options?.workspace && { workspace: options.workspace }),
+        ...(options?.userId && { user_id: options.userId }),
+        ...(options?.parentSessionId && {
+          parent_session_id: options.parentSessionId,
+          forked_from_exchange: options.forkedFromExchange ?? 0,
+        }),
       });
     }
   }
@@ -241,6 +291,14 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
     const content = message.message.content;
     const ts = getTimestamp();
 
+    if (!message.parent_tool_use_id) {
+      if (message.message.id) lastAssistantMessageId = message.message.id;
+      const usage = message.message.usage;
+      if (usage) {
+        lastContextTokens = contextTokens(usage);
+      }
+    }
+
     for (const block of content) {
       if (block.type === "text" && block.text) {
         // Text block
@@ -260,12 +318,6 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
           input: block.input,
           ts,
         });
-
-        // Track tool usage
-        if (!toolsUsed[block.name]) {
-          toolsUsed[block.name] = 0;
-        }
-        toolsUsed[block.name]++;
       }
     }
   }
@@ -299,17 +351,38 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
   function handleResultMessage(message: SDKMessage) {
     const tsEnd = getTimestamp();
 
+    // Per-model usage since the previous result of this query
+    const modelUsage: Record<string, ModelUsageStats> = {};
+    for (const [model, cumulative] of Object.entries(toModelUsageStats(message.modelUsage))) {
+      const previous = queryModelUsage[model];
+      modelUsage[model] = previous
+        ? {
+            tokens_in: cumulative.tokens_in - previous.tokens_in,
+            tokens_out: cumulative.tokens_out - previous.tokens_out,
+            cache_creation: cumulative.cache_creation - previous.cache_creation,
+            cache_read: cumulative.cache_read - previous.cache_read,
+            cost_usd: cumulative.cost_usd - previous.cost_usd,
+            context_window: cumulative.context_window,
+          }
+        : cumulative;
+      queryModelUsage[model] = cumulative;
+    }
+
     // Extract stats
     const stats: ExchangeStats = {
       num_turns: message.num_turns || 0,
       duration_ms: message.duration_ms || 0,
-      duration_api_ms: message.duration_api_ms,
+      duration_api_ms: message.duration_api_ms !== undefined ? message.duration_api_ms - queryDurationApiMs : undefined,
       tokens_in: message.usage?.input_tokens || 0,
       tokens_out: message.usage?.output_tokens || 0,
       cache_creation: message.usage?.cache_creation_input_tokens || 0,
       cache_read: message.usage?.cache_read_input_tokens || 0,
-      cost_usd: message.total_cost_usd || 0,
+      cost_usd: (message.total_cost_usd || 0) - queryCostUsd,
+      context_tokens: lastContextTokens,
+      model_usage: modelUsage,
     };
+    queryCostUsd = message.total_cost_usd || 0;
+    queryDurationApiMs = message.duration_api_ms || 0;
 
     // Build exchange object
     const exchange = {
@@ -318,31 +391,26 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
       exchange: exchangeCount,
       ts_start: exchangeStartTs,
       ts_end: tsEnd,
-      user_input: currentUserInput,
-      messages: currentMessages,
+      ...redactExchange(),
       stats,
+      ...(lastAssistantMessageId && { assistant_message_id: lastAssistantMessageId }),
+      ...(exchangeInterrupted && { interrupted: true }),
     };
 
     // Write exchange to JSONL
     appendLine(exchange);
 
     // Aggregate session stats
-    totalDurationMs += stats.duration_ms;
-    totalDurationApiMs += stats.duration_api_ms || 0;
-    totalCostUsd += stats.cost_usd;
-
-    // Replace tokens with last exchange (not summed)
-    lastExchangeTokens = {
-      input: stats.tokens_in,
-      output: stats.tokens_out,
-      cache_creation: stats.cache_creation,
-      cache_read: stats.cache_read,
-    };
+    addExchangeUsage(totals, stats, currentMessages);
+    if (lastContextTokens) sessionContextTokens = lastContextTokens;
 
     // Reset exchange buffer
     currentMessages = [];
     currentUserInput = "";
     exchangeStartTs = "";
+    exchangeInterrupted = false;
+    lastAssistantMessageId = "";
+    lastContextTokens = 0;
   }
 
   /**
@@ -370,6 +438,10 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
         handleResultMessage(message);
         break;
 
+      case "stream_event":
+        // Partial messages are not logged; the full assistant message follows
+        break;
+
       default:
         // Ignore unknown message types
         break;
@@ -385,6 +457,75 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
     currentUserInput = userText;
   }
 
+  /**
+   * Public API: Write an audit line for a Bash command policy decision (command redacted like exchange fields)
+   */
+  function logPolicyDecision(command: string, decision: PolicyDecision): void {
+    appendLine({
+      type: "policy_decision",
+      session_id: sessionId,
+      exchange: exchangeCount,
+      ts: getTimestamp(),
+      tool: "Bash",
+      command: redactor.redactText(command).text,
+      decision: decision.decision,
+      rule: decision.rule,
+      reason: decision.reason,
+    });
+  }
+
+  /**
+   * Public API: Write an audit line for a file tool call refused by the path guard (paths redacted like tool inputs)
+   */
+  function logPathViolation(violation: PathViolation): void {
+    appendLine({
+      type: "path_violation",
+      session_id: sessionId,
+      exchange: exchangeCount,
+      ts: getTimestamp(),
+      ...redactor.redactValue(violation).value,
+    });
+  }
+
+  /**
+   * Public API: Mark the current exchange as interrupted by the user.
+   * It is written with `interrupted: true`, even if no result message arrives.
+   */
+  function markInterrupted(): void {
+    if (exchangeStartTs) {
+      exchangeInterrupted = true;
+    }
+  }
+
+  /**
+   * Write an interrupted exchange that never received a result message (no stats available)
+   */
+  function flushInterruptedExchange(): void {
+    if (!exchangeInterrupted || !exchangeStartTs) return;
+
+    appendLine({
+      type: "exchange",
+      session_id: sessionId,
+      exchange: exchangeCount,
+      ts_start: exchangeStartTs,
+      ts_end: getTimestamp(),
+      ...redactExchange(),
+      ...(lastAssistantMessageId && { assistant_message_id: lastAssistantMessageId }),
+      interrupted: true,
+    });
+
+    // Tool calls still count; there are no stats without a result message
+    addExchangeUsage(totals, null, currentMessages);
+    if (lastContextTokens) sessionContextTokens = lastContextTokens;
+
+    currentMessages = [];
+    currentUserInput = "";
+    exchangeStartTs = "";
+    exchangeInterrupted = false;
+    lastAssistantMessageId = "";
+    lastContextTokens = 0;
+  }
+
   /**
    * Remove the last session_end line if it exists
    */
@@ -417,17 +558,24 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
   function close(): void {
     if (!filePath) return;
 
+    // Keep an interrupted exchange instead of dropping it
+    flushInterruptedExchange();
+
     // Append new session_end with latest stats
     appendLine({
       type: "session_end",
       session_id: sessionId,
       ts: getTimestamp(),
       total_exchanges: exchangeCount,
-      total_duration_ms: totalDurationMs,
-      total_duration_api_ms: totalDurationApiMs,
-      total_cost_usd: totalCostUsd,
-      total_tokens: lastExchangeTokens,
-      tools_used: toolsUsed,
+      total_duration_ms: totals.duration_ms,
+      total_duration_api_ms: totals.duration_api_ms,
+      total_cost_usd: totals.cost_usd,
+      // Tokens summed over all exchanges vs. the prompt size of the latest API call
+      cumulative_tokens: totals.tokens,
+      last_context_tokens: sessionContextTokens,
+      model_usage: totals.model_usage,
+      tools_used: toolCallCounts(totals.tool_stats),
+      tool_stats: totals.tool_stats,
     });
   }
 
@@ -435,6 +583,9 @@ export function createSessionLogger(options?: SessionLoggerOptions) {
   return {
     log,
     logUserInput,
+    logPolicyDecision,
+    logPathViolation,
+    markInterrupted,
     close,
   };
 }
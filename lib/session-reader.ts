@@ -0,0 +1,487 @@
+/**
+ * Session log reader that parses the JSONL files written by createSessionLogger back into summaries and timelines.
+ *
+ * Input data sources: /sessions/*.jsonl files (session_start, exchange, session_end lines)
+ * Output destinations: Used by /api/sessions and /api/usage routes and lib/budgets
+ * Dependencies: Node.js fs module, path module, lib/session-logger types, lib/usage
+ * Key exports: createSessionReader(), SessionSummary, SessionDetail, SessionExchange, TimelineItem, ForkPoint,
+ *   UsageFilter
+ * Side effects: Reads files from sessions directory
+ */
+
+import fs from "fs";
+import path from "path";
+import type { ExchangeStats, Message } from "@/lib/session-logger";
+import { addExchangeUsage, emptyUsageTotals, type UsageReport, type UsageTotals } from "@/lib/usage";
+
+/**
+ * Options for configuring the session reader
+ */
+interface SessionReaderOptions {
+  sessionsDir?: string; // Default: "./sessions"
+}
+
+/**
+ * Summary of a session for list views
+ */
+export interface SessionSummary {
+  session_id: string;
+  file: string;
+  started_at: string;
+  ended_at: string | null;
+  model: string;
+  cwd: string;
+  permission_mode: string;
+  profile: string | null;
+  workspace: string | null;
+  user_id: string | null; // Owner (null for sessions logged without auth)
+  parent_session_id: string | null;
+  forked_from_exchange: number | null;
+  total_exchanges: number;
+  total_cost_usd: number;
+  tools_used: Record<string, number>;
+  first_user_input: string;
+}
+
+/**
+ * Tool call paired with its tool result (if one was logged)
+ */
+export interface TimelineToolCall {
+  kind: "tool";
+  tool_use_id: string;
+  name: string;
+  input: Record<string, unknown>;
+  ts: string;
+  result: {
+    output: string;
+    is_error: boolean;
+    ts: string;
+  } | null;
+}
+
+/**
+ * Single renderable item in an exchange timeline
+ */
+export type TimelineItem =
+  | { kind: "text"; text: string; ts: string }
+  | TimelineToolCall;
+
+/**
+ * Exchange with its messages arranged as a timeline
+ */
+export interface SessionExchange {
+  exchange: number;
+  ts_start: string;
+  ts_end: string;
+  user_input: string;
+  items: TimelineItem[];
+  stats: ExchangeStats | null;
+  interrupted: boolean;
+  assistant_message_id: string | null; // Last assistant message.id, used as the fork point
+}
+
+/**
+ * Full session detail for the replay viewer
+ */
+export interface SessionDetail extends SessionSummary {
+  tools_available: string[];
+  // Exchanges of parent sessions up to the fork point (empty unless the session is a fork)
+  inherited_exchanges: SessionExchange[];
+  exchanges: SessionExchange[];
+}
+
+/**
+ * Point in a session's conversation to fork from
+ */
+export interface ForkPoint {
+  session_id: string;
+  exchange: number;
+  assistant_message_id: string;
+  workspace: string | null;
+}
+
+/**
+ * Selects the exchanges counted by getUsage
+ */
+export interface UsageFilter {
+  sessionId?: string;
+  sessionIds?: string[]; // Any of these sessions (e.g. a fork and the sessions it was forked from)
+  day?: string; // UTC day of the exchange start (YYYY-MM-DD)
+  profile?: string;
+}
+
+/**
+ * Raw log line as stored in the JSONL file (the fields the reader uses; which ones are set depends on type)
+ */
+interface LogLine {
+  type?: string;
+  ts?: string;
+  // session_start
+  session_id?: string;
+  model?: string;
+  cwd?: string;
+  permission_mode?: string;
+  profile?: string;
+  workspace?: string;
+  user_id?: string;
+  parent_session_id?: string;
+  forked_from_exchange?: number;
+  tools_available?: string[];
+  // exchange
+  exchange?: number;
+  ts_start?: string;
+  ts_end?: string;
+  user_input?: string;
+  messages?: Message[];
+  stats?: ExchangeStats;
+  interrupted?: boolean;
+  assistant_message_id?: string;
+  // session_end
+  total_exchanges?: number;
+  total_cost_usd?: number;
+  tools_used?: Record<string, number>;
+}
+
+/**
+ * Create a session reader instance.
+ *
+ * @param options - Configuration options
+ * @returns Reader object with methods to list and load sessions
+ */
+export function createSessionReader(options?: SessionReaderOptions) {
+  const sessionsDir = options?.sessionsDir || "./sessions";
+
+  /**
+   * Parse a JSONL file, skipping malformed lines
+   */
+  function readLines(filePath: string): LogLine[] {
+    const content = fs.readFileSync(filePath, "utf-8");
+    const lines: LogLine[] = [];
+
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        lines.push(JSON.parse(line));
+      } catch {
+        // Skip partial or corrupt lines
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * List all session log files, newest first
+   */
+  function listSessionFiles(): string[] {
+    if (!fs.existsSync(sessionsDir)) return [];
+
+    return fs
+      .readdirSync(sessionsDir)
+      .filter((file) => file.endsWith(".jsonl"))
+      .sort()
+      .reverse();
+  }
+
+  /**
+   * Build a summary from parsed log lines.
+   * Falls back to exchange lines when session_end is missing (e.g. crashed process).
+   */
+  function summarize(file: string, lines: LogLine[]): SessionSummary | null {
+    const start = lines.find((line) => line.type === "session_start");
+    if (!start) return null;
+
+    const exchanges = lines.filter((line) => line.type === "exchange");
+    const end = [...lines].reverse().find((line) => line.type === "session_end");
+
+    let totalCostUsd = 0;
+    const toolsUsed: Record<string, number> = {};
+    for (const exchange of exchanges) {
+      totalCostUsd += exchange.stats?.cost_usd || 0;
+      for (const message of exchange.messages || []) {
+        if (message.type === "tool_use" && message.name) {
+          toolsUsed[message.name] = (toolsUsed[message.name] || 0) + 1;
+        }
+      }
+    }
+
+    return {
+      session_id: start.session_id || "",
+      file,
+      started_at: start.ts || "",
+      ended_at: end?.ts || null,
+      model: start.model || "",
+      cwd: start.cwd || "",
+      permission_mode: start.permission_mode || "default",
+      profile: start.profile || null,
+      workspace: start.workspace || null,
+      user_id: start.user_id || null,
+      parent_session_id: start.parent_session_id || null,
+      forked_from_exchange: start.forked_from_exchange ?? null,
+      total_exchanges: end?.total_exchanges ?? exchanges.length,
+      total_cost_usd: end?.total_cost_usd ?? totalCostUsd,
+      tools_used: end?.tools_used ?? toolsUsed,
+      first_user_input: exchanges[0]?.user_input || "",
+    };
+  }
+
+  /**
+   * Arrange an exchange's flat message list into a timeline,
+   * attaching each tool result to the tool_use that produced it
+   */
+  function buildTimeline(messages: Message[]): TimelineItem[] {
+    const items: TimelineItem[] = [];
+    const toolCalls = new Map<string, TimelineToolCall>();
+
+    for (const message of messages) {
+      if (message.type === "text" && message.text) {
+        items.push({ kind: "text", text: message.text, ts: message.ts });
+      } else if (message.type === "tool_use" && message.tool_use_id) {
+        const call: TimelineToolCall = {
+          kind: "tool",
+          tool_use_id: message.tool_use_id,
+          name: message.name || "unknown",
+          input: message.input || {},
+          ts: message.ts,
+          result: null,
+        };
+        toolCalls.set(message.tool_use_id, call);
+        items.push(call);
+      } else if (message.type === "result" && message.tool_use_id) {
+        const call = toolCalls.get(message.tool_use_id);
+        if (call) {
+          call.result = {
+            output: message.output || "",
+            is_error: message.is_error || false,
+            ts: message.ts,
+          };
+        }
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Convert a logged exchange line to a timeline exchange
+   */
+  function toExchange(line: LogLine): SessionExchange {
+    return {
+      exchange: line.exchange || 0,
+      ts_start: line.ts_start || "",
+      ts_end: line.ts_end || "",
+      user_input: line.user_input || "",
+      items: buildTimeline(line.messages || []),
+      stats: line.stats || null,
+      interrupted: line.interrupted === true,
+      assistant_message_id: line.assistant_message_id || null,
+    };
+  }
+
+  /**
+   * Find the log file for a session_id (files are named *_<sessionid_short>.jsonl)
+   */
+  function findSessionFile(sessionId: string): string | null {
+    const sessionIdShort = sessionId.substring(0, 8);
+    if (!sessionIdShort) return null;
+
+    for (const file of listSessionFiles()) {
+      if (file.endsWith(`_${sessionIdShort}.jsonl`)) {
+        return file;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Public API: List summaries of all sessions, newest first
+   */
+  function listSessions(): SessionSummary[] {
+    const summaries: SessionSummary[] = [];
+
+    for (const file of listSessionFiles()) {
+      try {
+        const summary = summarize(file, readLines(path.join(sessionsDir, file)));
+        if (summary) summaries.push(summary);
+      } catch {
+        // Skip unreadable files
+      }
+    }
+    return summaries;
+  }
+
+  /**
+   * Public API: Load a full session by session_id
+   */
+  function getSession(sessionId: string): SessionDetail | null {
+    return loadSession(sessionId, 0);
+  }
+
+  /**
+   * Public API: Summary of one session by session_id (for owner checks, without building timelines)
+   */
+  function getSummary(sessionId: string): SessionSummary | null {
+    const file = findSessionFile(sessionId);
+    if (!file) return null;
+
+    const summary = summarize(file, readLines(path.join(sessionsDir, file)));
+    return summary?.session_id === sessionId ? summary : null;
+  }
+
+  /**
+   * Load a session; depth counts parent links followed to collect inherited exchanges
+   */
+  function loadSession(sessionId: string, depth: number): SessionDetail | null {
+    const file = findSessionFile(sessionId);
+    if (!file) return null;
+
+    const lines = readLines(path.join(sessionsDir, file));
+    const summary = summarize(file, lines);
+    if (!summary || summary.session_id !== sessionId) return null;
+
+    const start = lines.find((line) => line.type === "session_start");
+    const exchanges = lines.filter((line) => line.type === "exchange").map(toExchange);
+
+    return {
+      ...summary,
+      tools_available: start?.tools_available || [],
+      inherited_exchanges: getInheritedExchanges(summary, depth),
+      exchanges,
+    };
+  }
+
+  /**
+   * Exchanges a fork inherited from its parent chain, oldest first
+   */
+  function getInheritedExchanges(summary: SessionSummary, depth: number): SessionExchange[] {
+    // Depth limit guards against cyclic parent links in hand-edited logs
+    if (!summary.parent_session_id || depth >= 50) return [];
+
+    const parent = loadSession(summary.parent_session_id, depth + 1);
+    if (!parent) return [];
+
+    const cutoff = summary.forked_from_exchange ?? 0;
+    return [...parent.inherited_exchanges, ...parent.exchanges].filter((exchange) => exchange.exchange <= cutoff);
+  }
+
+  /**
+   * Public API: Locate the point to fork a session from, after the given exchange.
+   * The exchange may be the session's own or one it inherited from its parent.
+   *
+   * @param sessionId - Session to fork
+   * @param exchange - Last exchange the fork keeps
+   * @returns Fork point, or null if the session or exchange isn't logged or has no assistant message id
+   */
+  function getForkPoint(sessionId: string, exchange: number): ForkPoint | null {
+    const session = getSession(sessionId);
+    if (!session) return null;
+
+    const target = [...session.inherited_exchanges, ...session.exchanges].find((e) => e.exchange === exchange);
+    if (!target?.assistant_message_id) return null;
+
+    return {
+      session_id: session.session_id,
+      exchange,
+      assistant_message_id: target.assistant_message_id,
+      workspace: session.workspace,
+    };
+  }
+
+  /**
+   * Call visit for every exchange line of every session file, with the session's start line.
+   * Exchanges are dated by the UTC day they started.
+   *
+   * @param include - Sessions to visit, by start line (default: all)
+   * @returns Number of sessions visited
+   */
+  function forEachExchange(
+    visit: (exchange: LogLine, start: LogLine, day: string) => void,
+    include: (start: LogLine) => boolean = () => true
+  ): number {
+    let sessions = 0;
+
+    for (const file of listSessionFiles()) {
+      let lines: LogLine[];
+      try {
+        lines = readLines(path.join(sessionsDir, file));
+      } catch {
+        continue; // Skip unreadable files
+      }
+
+      const start = lines.find((line) => line.type === "session_start");
+      if (!start || !include(start)) continue;
+      sessions++;
+
+      for (const line of lines) {
+        if (line.type !== "exchange") continue;
+        visit(line, start, (line.ts_start || line.ts_end || start.ts || "").substring(0, 10) || "unknown");
+      }
+    }
+    return sessions;
+  }
+
+  /**
+   * Public API: Aggregate usage over every exchange in every session file, by day and by profile
+   *
+   * @param options - userId: only count sessions owned by this user (default: every session)
+   */
+  function getUsageReport(options?: { userId?: string }): UsageReport {
+    const totals = emptyUsageTotals();
+    const byDay = new Map<string, UsageTotals>();
+    const byProfile = new Map<string, UsageTotals>();
+
+    const bucket = (map: Map<string, UsageTotals>, key: string) => {
+      if (!map.has(key)) map.set(key, emptyUsageTotals());
+      return map.get(key)!;
+    };
+
+    const sessions = forEachExchange(
+      (line, start, day) => {
+        const profile = start.profile || "default";
+        for (const target of [totals, bucket(byDay, day), bucket(byProfile, profile)]) {
+          addExchangeUsage(target, line.stats ?? null, line.messages ?? []);
+        }
+      },
+      (start) => options?.userId === undefined || start.user_id === options.userId
+    );
+
+    return {
+      generated_at: new Date().toISOString(),
+      sessions,
+      totals,
+      by_day: [...byDay.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([day, usage]) => ({ day, ...usage })),
+      by_profile: [...byProfile.entries()]
+        .sort(([, a], [, b]) => b.cost_usd - a.cost_usd)
+        .map(([profile, usage]) => ({ profile, ...usage })),
+    };
+  }
+
+  /**
+   * Public API: Aggregate usage over the exchanges matching every given filter field
+   *
+   * @param filter - session_id(s), UTC day (YYYY-MM-DD) and/or profile name ("default" matches sessions without one)
+   * @returns Usage totals (all zero when nothing matches)
+   */
+  function getUsage(filter: UsageFilter): UsageTotals {
+    const totals = emptyUsageTotals();
+
+    forEachExchange((line, start, day) => {
+      if (filter.sessionId !== undefined && start.session_id !== filter.sessionId) return;
+      if (filter.sessionIds !== undefined && !filter.sessionIds.includes(start.session_id ?? "")) return;
+      if (filter.day !== undefined && day !== filter.day) return;
+      if (filter.profile !== undefined && (start.profile || "default") !== filter.profile) return;
+      addExchangeUsage(totals, line.stats ?? null, line.messages ?? []);
+    });
+    return totals;
+  }
+
+  // Return public API
+  return {
+    listSessions,
+    getSession,
+    getSummary,
+    getForkPoint,
+    getUsage,
+    getUsageReport,
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Compact NDJSON delta events derived from the SDK's partial message (stream_event) output.
+ *
+ * Input data sources: SDK stream_event messages (includePartialMessages: true)
+ * Output destinations: Used by /api/chat route to stream token-level updates to the client
+ * Dependencies: @anthropic-ai/claude-agent-sdk types
+ * Key exports: toDeltaEvent(), DeltaEvent
+ * Side effects: None
+ */
+
+import type { SDKPartialAssistantMessage } from "@anthropic-ai/claude-agent-sdk";
+
+/**
+ * Token-level events sent to the client in place of raw stream_event messages
+ */
+export type DeltaEvent =
+  | { type: "text_delta"; index: number; text: string; parent_tool_use_id: string | null }
+  | { type: "thinking_delta"; index: number; thinking: string; parent_tool_use_id: string | null }
+  | {
+      type: "tool_use_start";
+      index: number;
+      tool_use_id: string;
+      name: string;
+      parent_tool_use_id: string | null;
+    }
+  | { type: "tool_input_delta"; index: number; partial_json: string; parent_tool_use_id: string | null };
+
+/**
+ * Convert a stream_event into a compact delta event.
+ *
+ * @param message - SDK partial assistant message
+ * @returns Delta event, or null for events the client doesn't need (message_start, stops, signatures)
+ */
+export function toDeltaEvent(message: SDKPartialAssistantMessage): DeltaEvent | null {
+  const event = message.event;
+  const parent_tool_use_id = message.parent_tool_use_id;
+
+  if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+    return {
+      type: "tool_use_start",
+      index: event.index,
+      tool_use_id: event.content_block.id,
+      name: event.content_block.name,
+      parent_tool_use_id,
+    };
+  }
+
+  if (event.type !== "content_block_delta") return null;
+
+  switch (event.delta.type) {
+    case "text_delta":
+      return { type: "text_delta", index: event.index, text: event.delta.text, parent_tool_use_id };
+    case "thinking_delta":
+      return { type: "thinking_delta", index: event.index, thinking: event.delta.thinking, parent_tool_use_id };
+    case "input_json_delta":
+      return {
+        type: "tool_input_delta",
+        index: event.index,
+        partial_json: event.delta.partial_json,
+        parent_tool_use_id,
+      };
+    default:
+      return null;
+  }
+}
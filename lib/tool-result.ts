@@ -0,0 +1,20 @@
+/**
+ * Text of tool results, shared by the chat reducer (client) and the agent tracer (server).
+ *
+ * Input data sources: content of tool_result blocks in SDK user messages
+ * Output destinations: Used by lib/chat-model and lib/agent-tracer
+ * Dependencies: None
+ * Key exports: toolResultText()
+ * Side effects: None
+ */
+
+/**
+ * Text of a tool_result block's content (string or array of content blocks)
+ */
+export function toolResultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content) && content.every((part) => part?.type === "text")) {
+    return content.map((part) => part.text).join("\n");
+  }
+  return content === undefined ? "" : JSON.stringify(content);
+}
@@ -0,0 +1,48 @@
+/**
+ * Trace exporters selected by environment variables, shared by the chat route and the CLI agents.
+ *
+ * Input data sources: TRACE_EXPORTERS (comma-separated exporter names), BRAINTRUST_PROJECT, BRAINTRUST_API_KEY,
+ *   OTEL_* (see lib/otel-exporter)
+ * Output destinations: Exporters for lib/agent-tracer
+ * Dependencies: lib/braintrust-exporter, lib/otel-exporter
+ * Key exports: getTraceExporters()
+ * Side effects: Warns once about unknown exporter names
+ */
+
+import type { TraceExporter } from "@/lib/agent-tracer";
+import { createBraintrustExporter } from "@/lib/braintrust-exporter";
+import { createOtelExporter, otelEnabled } from "@/lib/otel-exporter";
+
+/**
+ * Process-wide exporters, so every request shares one Braintrust logger and one tracer provider.
+ * Stored on globalThis so they survive Next.js dev reloads and separate route bundles.
+ */
+const store = globalThis as unknown as {
+  __traceExporters?: TraceExporter[];
+};
+
+/**
+ * Exporters named in TRACE_EXPORTERS (none when unset). Known names: braintrust, otel.
+ */
+export function getTraceExporters(): TraceExporter[] {
+  if (store.__traceExporters) return store.__traceExporters;
+
+  const names = (process.env.TRACE_EXPORTERS || "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const exporters: TraceExporter[] = [];
+  for (const name of new Set(names)) {
+    if (name === "braintrust") {
+      exporters.push(createBraintrustExporter({ projectName: process.env.BRAINTRUST_PROJECT || "claude-agent" }));
+    } else if (name === "otel") {
+      if (otelEnabled()) exporters.push(createOtelExporter());
+    } else {
+      console.warn(`[tracing] Unknown exporter "${name}" in TRACE_EXPORTERS (known: braintrust, otel)`);
+    }
+  }
+
+  store.__traceExporters = exporters;
+  return exporters;
+}
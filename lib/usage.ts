@@ -0,0 +1,165 @@
+/**
+ * Usage accounting shared by the session logger (session_end totals) and the usage report (/api/usage).
+ *
+ * Input data sources: Exchange stats and messages (as logged in exchange lines), SDK usage and modelUsage fields
+ * Output destinations: Used by lib/session-logger, lib/session-reader and lib/chat-model
+ * Dependencies: lib/session-logger types, Claude Agent SDK types
+ * Key exports: emptyUsageTotals(), addExchangeUsage(), toolCallCounts(), toModelUsageStats(), contextTokens(), TokenCounts, ModelUsageStats, ToolStats, UsageTotals,
+ *   UsageReport
+ * Side effects: None
+ */
+
+import type { ModelUsage } from "@anthropic-ai/claude-agent-sdk";
+import type { ExchangeStats, Message } from "@/lib/session-logger";
+
+/**
+ * Token counts summed over one or more API calls
+ */
+export interface TokenCounts {
+  input: number;
+  output: number;
+  cache_creation: number;
+  cache_read: number;
+}
+
+/**
+ * Usage of one model (from the SDK's modelUsage)
+ */
+export interface ModelUsageStats {
+  tokens_in: number;
+  tokens_out: number;
+  cache_creation: number;
+  cache_read: number;
+  cost_usd: number;
+  context_window: number;
+}
+
+/**
+ * Call and error counts of one tool
+ */
+export interface ToolStats {
+  calls: number;
+  errors: number;
+}
+
+/**
+ * Usage accumulated over a set of exchanges
+ */
+export interface UsageTotals {
+  exchanges: number;
+  cost_usd: number;
+  duration_ms: number;
+  duration_api_ms: number;
+  tokens: TokenCounts;
+  model_usage: Record<string, ModelUsageStats>;
+  tool_stats: Record<string, ToolStats>;
+}
+
+/**
+ * Usage across all session logs (GET /api/usage)
+ */
+export interface UsageReport {
+  generated_at: string;
+  sessions: number;
+  totals: UsageTotals;
+  by_day: Array<{ day: string } & UsageTotals>; // UTC day of the exchange start, oldest first
+  by_profile: Array<{ profile: string } & UsageTotals>; // Most expensive first
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return {
+    exchanges: 0,
+    cost_usd: 0,
+    duration_ms: 0,
+    duration_api_ms: 0,
+    tokens: { input: 0, output: 0, cache_creation: 0, cache_read: 0 },
+    model_usage: {},
+    tool_stats: {},
+  };
+}
+
+/**
+ * Add one exchange to running totals (mutates totals).
+ *
+ * @param totals - Totals to add to
+ * @param stats - Exchange stats, or null for an interrupted exchange without a result
+ * @param messages - Exchange messages, for tool call and error counts
+ */
+export function addExchangeUsage(totals: UsageTotals, stats: ExchangeStats | null, messages: Message[]): void {
+  totals.exchanges++;
+
+  if (stats) {
+    totals.cost_usd += stats.cost_usd || 0;
+    totals.duration_ms += stats.duration_ms || 0;
+    totals.duration_api_ms += stats.duration_api_ms || 0;
+    totals.tokens.input += stats.tokens_in || 0;
+    totals.tokens.output += stats.tokens_out || 0;
+    totals.tokens.cache_creation += stats.cache_creation || 0;
+    totals.tokens.cache_read += stats.cache_read || 0;
+
+    for (const [model, usage] of Object.entries(stats.model_usage ?? {})) {
+      const current = (totals.model_usage[model] ??= {
+        tokens_in: 0,
+        tokens_out: 0,
+        cache_creation: 0,
+        cache_read: 0,
+        cost_usd: 0,
+        context_window: 0,
+      });
+      current.tokens_in += usage.tokens_in;
+      current.tokens_out += usage.tokens_out;
+      current.cache_creation += usage.cache_creation;
+      current.cache_read += usage.cache_read;
+      current.cost_usd += usage.cost_usd;
+      current.context_window = Math.max(current.context_window, usage.context_window);
+    }
+  }
+
+  // Errors are attributed to the tool through the tool_use_id of the result
+  const toolNames = new Map<string, string>();
+  for (const message of messages) {
+    if (message.type === "tool_use" && message.tool_use_id && message.name) {
+      toolNames.set(message.tool_use_id, message.name);
+      (totals.tool_stats[message.name] ??= { calls: 0, errors: 0 }).calls++;
+    } else if (message.type === "result" && message.is_error && message.tool_use_id) {
+      const name = toolNames.get(message.tool_use_id);
+      if (name) (totals.tool_stats[name] ??= { calls: 0, errors: 0 }).errors++;
+    }
+  }
+}
+
+/**
+ * Call counts by tool name (the session_end tools_used field)
+ */
+export function toolCallCounts(toolStats: Record<string, ToolStats>): Record<string, number> {
+  return Object.fromEntries(Object.entries(toolStats).map(([name, stats]) => [name, stats.calls]));
+}
+
+/**
+ * Convert the SDK's modelUsage (camelCase, per model) to ModelUsageStats
+ */
+export function toModelUsageStats(modelUsage: unknown): Record<string, ModelUsageStats> {
+  const stats: Record<string, ModelUsageStats> = {};
+  for (const [model, usage] of Object.entries((modelUsage ?? {}) as Record<string, Partial<ModelUsage> | undefined>)) {
+    stats[model] = {
+      tokens_in: usage?.inputTokens || 0,
+      tokens_out: usage?.outputTokens || 0,
+      cache_creation: usage?.cacheCreationInputTokens || 0,
+      cache_read: usage?.cacheReadInputTokens || 0,
+      cost_usd: usage?.costUSD || 0,
+      context_window: usage?.contextWindow || 0,
+    };
+  }
+  return stats;
+}
+
+/**
+ * Prompt size of one API call: input tokens plus cache writes and reads (from an assistant message's usage)
+ */
+export function contextTokens(usage: {
+  input_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}): number {
+  return (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0);
+}
@@ -0,0 +1,220 @@
+/**
+ * File access scoped to one agent workspace, with path-traversal and symlink-escape protection.
+ *
+ * Input data sources: Files inside a session workspace directory
+ * Output destinations: Used by /api/workspace/* routes
+ * Dependencies: Node.js fs module, path module, lib/workspaces, lib/auth, lib/session-reader
+ * Key exports: createWorkspaceFiles(), openSessionWorkspace(), WorkspaceTreeEntry, WorkspaceFileContent
+ * Side effects: Reads files in the workspace, writes uploaded files
+ */
+
+import fs from "fs";
+import path from "path";
+import { createWorkspaceManager } from "@/lib/workspaces";
+import { ownsSession, type AuthUser } from "@/lib/auth";
+import { createSessionReader } from "@/lib/session-reader";
+
+/**
+ * Options for configuring workspace file access
+ */
+interface WorkspaceFilesOptions {
+  maxEntries?: number; // Default: 2000
+  maxPreviewBytes?: number; // Default: 256 KB
+  ignore?: string[]; // Default: [".git", "node_modules"]
+}
+
+/**
+ * Entry in the workspace tree (paths are relative to the workspace, "/"-separated)
+ */
+export interface WorkspaceTreeEntry {
+  path: string;
+  type: "file" | "dir";
+  size: number;
+  mtime: string;
+}
+
+/**
+ * Text preview of a workspace file
+ */
+export interface WorkspaceFileContent {
+  path: string;
+  size: number;
+  content: string;
+  truncated: boolean;
+  binary: boolean;
+}
+
+/**
+ * Create a workspace file accessor.
+ *
+ * @param root - Absolute workspace directory
+ * @param options - Configuration options
+ * @returns Accessor with methods to list, read and write files inside the workspace
+ */
+export function createWorkspaceFiles(root: string, options?: WorkspaceFilesOptions) {
+  const maxEntries = options?.maxEntries ?? 2000;
+  const maxPreviewBytes = options?.maxPreviewBytes ?? 256 * 1024;
+  const ignore = new Set(options?.ignore ?? [".git", "node_modules"]);
+  const realRoot = fs.realpathSync(root);
+
+  /**
+   * Check that an absolute real path is the workspace root or inside it
+   */
+  function isInside(realPath: string): boolean {
+    const relative = path.relative(realRoot, realPath);
+    return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+  }
+
+  /**
+   * Public API: Resolve a workspace-relative path to an absolute path inside the workspace.
+   * Rejects `..` escapes, absolute paths outside the workspace and symlinks pointing outside.
+   * Paths that don't exist yet are checked through their nearest existing parent.
+   *
+   * @returns Absolute path, or null if the path escapes the workspace
+   */
+  function resolvePath(relativePath: string): string | null {
+    const candidate = path.resolve(realRoot, relativePath.replace(/^\/+/, ""));
+
+    // Walk up to the nearest existing ancestor and resolve symlinks from there
+    let existing = candidate;
+    while (!fs.existsSync(existing)) {
+      const parent = path.dirname(existing);
+      if (parent === existing) return null;
+      existing = parent;
+    }
+
+    const realExisting = fs.realpathSync(existing);
+    const resolved = path.join(realExisting, path.relative(existing, candidate));
+    return isInside(resolved) ? resolved : null;
+  }
+
+  /**
+   * Public API: Workspace-relative path for an absolute path (e.g. a tool call's file_path)
+   *
+   * @returns Relative "/"-separated path, or null if outside the workspace
+   */
+  function toRelativePath(absolutePath: string): string | null {
+    const relative = path.relative(realRoot, path.resolve(absolutePath));
+    const relativeToRoot = path.relative(root, path.resolve(absolutePath));
+    for (const candidate of [relative, relativeToRoot]) {
+      if (candidate && !candidate.startsWith("..") && !path.isAbsolute(candidate)) {
+        return candidate.split(path.sep).join("/");
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Public API: List files and directories (depth-first, directories before files)
+   */
+  function listTree(): { entries: WorkspaceTreeEntry[]; truncated: boolean } {
+    const entries: WorkspaceTreeEntry[] = [];
+    let truncated = false;
+
+    function walk(dir: string) {
+      const children = fs
+        .readdirSync(dir, { withFileTypes: true })
+        .filter((child) => !ignore.has(child.name))
+        .sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name));
+
+      for (const child of children) {
+        if (entries.length >= maxEntries) {
+          truncated = true;
+          return;
+        }
+
+        const absolute = path.join(dir, child.name);
+        let stat: fs.Stats;
+        try {
+          // Don't follow symlinks out of the workspace
+          if (child.isSymbolicLink() && !isInside(fs.realpathSync(absolute))) continue;
+          stat = fs.statSync(absolute);
+        } catch {
+          continue; // Dangling symlink, or removed while listing
+        }
+        entries.push({
+          path: path.relative(realRoot, absolute).split(path.sep).join("/"),
+          type: stat.isDirectory() ? "dir" : "file",
+          size: stat.size,
+          mtime: stat.mtime.toISOString(),
+        });
+
+        if (stat.isDirectory()) walk(absolute);
+      }
+    }
+
+    walk(realRoot);
+    return { entries, truncated };
+  }
+
+  /**
+   * Public API: Read a text preview of a file
+   *
+   * @returns File content, or null if the path escapes the workspace or isn't a file
+   */
+  function readFile(relativePath: string): WorkspaceFileContent | null {
+    const absolute = resolvePath(relativePath);
+    if (!absolute || !fs.existsSync(absolute) || !fs.statSync(absolute).isFile()) return null;
+
+    const size = fs.statSync(absolute).size;
+    const buffer = Buffer.alloc(Math.min(size, maxPreviewBytes));
+    const fd = fs.openSync(absolute, "r");
+    try {
+      fs.readSync(fd, buffer, 0, buffer.length, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    // Treat files with NUL bytes as binary
+    const binary = buffer.includes(0);
+    return {
+      path: relativePath,
+      size,
+      content: binary ? "" : buffer.toString("utf-8"),
+      truncated: size > maxPreviewBytes,
+      binary,
+    };
+  }
+
+  /**
+   * Public API: Write an uploaded file into a workspace directory
+   *
+   * @returns Workspace-relative path written, or null if the target escapes the workspace
+   */
+  function writeFile(relativeDir: string, fileName: string, data: Buffer): string | null {
+    const safeName = path.basename(fileName);
+    if (!safeName || safeName === "." || safeName === "..") return null;
+
+    const absolute = resolvePath(path.join(relativeDir, safeName));
+    if (!absolute) return null;
+
+    fs.mkdirSync(path.dirname(absolute), { recursive: true });
+    fs.writeFileSync(absolute, data);
+    return path.relative(realRoot, absolute).split(path.sep).join("/");
+  }
+
+  // Return public API
+  return {
+    root: realRoot,
+    resolvePath,
+    toRelativePath,
+    listTree,
+    readFile,
+    writeFile,
+  };
+}
+
+/**
+ * Open file access for the workspace bound to a session_id.
+ *
+ * @param sessionId - SDK session_id
+ * @param user - Caller (from getRequestUser); only the session's owner may open its workspace
+ * @returns Accessor, or null if the session has no workspace or belongs to someone else
+ */
+export function openSessionWorkspace(sessionId: string | null, user: AuthUser | null) {
+  if (!sessionId) return null;
+  if (!ownsSession(user, createSessionReader().getSummary(sessionId)?.user_id)) return null;
+
+  const workspace = createWorkspaceManager().findWorkspace(sessionId);
+  return workspace ? createWorkspaceFiles(workspace) : null;
+}
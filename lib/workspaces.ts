@@ -0,0 +1,270 @@
+/**
+ * Per-session workspace manager: gives each agent session its own working directory, tied to its SDK session_id.
+ *
+ * Input data sources: ./workspaces/index.json (workspace ↔ session_id mapping), optional template folders,
+ *   SDK transcripts under ~/.claude/projects (or CLAUDE_CONFIG_DIR) for forks
+ * Output destinations: ./workspaces/<timestamp>_<id>/ directories, ./workspaces/index.json
+ * Dependencies: Node.js fs, os, path and crypto modules
+ * Key exports: createWorkspaceManager(), WorkspaceEntry
+ * Side effects: Creates, seeds, copies and deletes workspace directories, writes the index file (under a lock file,
+ *   shared with other processes such as the CLI agent), copies SDK transcripts for forks
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+
+/**
+ * Options for configuring the workspace manager
+ */
+interface WorkspaceManagerOptions {
+  rootDir?: string; // Default: "./workspaces"
+  maxAgeDays?: number; // Default: WORKSPACE_MAX_AGE_DAYS env var or 7
+  cleanupIntervalMs?: number; // Default: 1 hour
+}
+
+/**
+ * Index entry for one workspace directory
+ */
+export interface WorkspaceEntry {
+  session_ids: string[];
+  created_at: string;
+  last_used: string;
+}
+
+const INDEX_FILE = "index.json";
+const INDEX_LOCK = "index.json.lock";
+const CLEANUP_MARKER = ".last-cleanup";
+const LOCK_TIMEOUT_MS = 5000;
+const STALE_LOCK_MS = 30 * 1000; // A lock this old was left by a crashed process
+
+/**
+ * Block the thread for a few milliseconds (the index is updated synchronously)
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Directory where the SDK keeps the transcripts of sessions run in a working directory
+ */
+function transcriptDir(cwd: string): string {
+  const configDir = process.env.CLAUDE_CONFIG_DIR ?? path.join(os.homedir(), ".claude");
+  return path.join(configDir, "projects", cwd.replace(/[^a-zA-Z0-9]/g, "-"));
+}
+
+/**
+ * Create a workspace manager instance.
+ *
+ * @param options - Configuration options
+ * @returns Manager object with methods to resolve, bind and clean up workspaces
+ */
+export function createWorkspaceManager(options?: WorkspaceManagerOptions) {
+  const rootDir = path.resolve(options?.rootDir || "./workspaces");
+  const maxAgeDays = options?.maxAgeDays ?? Number(process.env.WORKSPACE_MAX_AGE_DAYS || 7);
+  const cleanupIntervalMs = options?.cleanupIntervalMs ?? 60 * 60 * 1000;
+
+  /**
+   * Ensure workspaces root exists
+   */
+  function ensureRootDir() {
+    if (!fs.existsSync(rootDir)) {
+      fs.mkdirSync(rootDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Read the index (workspace dir name → entry)
+   */
+  function readIndex(): Record<string, WorkspaceEntry> {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(rootDir, INDEX_FILE), "utf-8"));
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Read, change and write the index while holding the lock file, so concurrent requests and processes don't
+   * drop each other's bindings. The new index is renamed into place, so readers never see a partial file.
+   *
+   * @throws Error when the lock isn't released within LOCK_TIMEOUT_MS
+   */
+  function updateIndex<T>(change: (index: Record<string, WorkspaceEntry>) => T): T {
+    ensureRootDir();
+    const lockPath = path.join(rootDir, INDEX_LOCK);
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    let lock: number;
+    for (;;) {
+      try {
+        lock = fs.openSync(lockPath, "wx");
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+        try {
+          if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS) fs.rmSync(lockPath, { force: true });
+        } catch {
+          // Released in the meantime
+        }
+        if (Date.now() > deadline) throw new Error(`Timed out waiting for ${lockPath}`);
+        sleepSync(10);
+      }
+    }
+
+    try {
+      const index = readIndex();
+      const result = change(index);
+      const tempPath = path.join(rootDir, `${INDEX_FILE}.${process.pid}.${randomUUID().substring(0, 8)}.tmp`);
+      fs.writeFileSync(tempPath, JSON.stringify(index, null, 2), "utf-8");
+      fs.renameSync(tempPath, path.join(rootDir, INDEX_FILE));
+      return result;
+    } finally {
+      fs.closeSync(lock);
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Generate ISO timestamp
+   */
+  function getTimestamp(): string {
+    return new Date().toISOString();
+  }
+
+  /**
+   * Public API: Create a new workspace, optionally seeded by copying a template folder
+   */
+  function createWorkspace(templateDir?: string): string {
+    ensureRootDir();
+
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace("T", "_")
+      .substring(0, 15); // "20251107_084532"
+    const name = `${timestamp}_${randomUUID().substring(0, 8)}`;
+    const workspacePath = path.join(rootDir, name);
+
+    if (templateDir && fs.existsSync(templateDir)) {
+      fs.cpSync(templateDir, workspacePath, { recursive: true });
+    } else {
+      fs.mkdirSync(workspacePath, { recursive: true });
+    }
+
+    updateIndex((index) => {
+      index[name] = { session_ids: [], created_at: getTimestamp(), last_used: getTimestamp() };
+    });
+
+    return workspacePath;
+  }
+
+  /**
+   * Public API: Find the workspace a session_id is bound to
+   */
+  function findWorkspace(sessionId: string): string | null {
+    const index = readIndex();
+
+    for (const [name, entry] of Object.entries(index)) {
+      if (entry.session_ids.includes(sessionId)) {
+        const workspacePath = path.join(rootDir, name);
+        return fs.existsSync(workspacePath) ? workspacePath : null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Public API: Copy a session's workspace for a fork, so the fork's edits leave the parent's files alone.
+   * The SDK looks transcripts up by working directory, so the parent's transcript is copied along for resume.
+   *
+   * @returns The new workspace, or null if the session has none
+   */
+  function forkWorkspace(sessionId: string): string | null {
+    const parent = findWorkspace(sessionId);
+    if (!parent) return null;
+
+    const workspacePath = createWorkspace(parent);
+    const transcript = path.join(transcriptDir(parent), `${sessionId}.jsonl`);
+    if (fs.existsSync(transcript)) {
+      fs.mkdirSync(transcriptDir(workspacePath), { recursive: true });
+      fs.copyFileSync(transcript, path.join(transcriptDir(workspacePath), `${sessionId}.jsonl`));
+    }
+    return workspacePath;
+  }
+
+  /**
+   * Public API: Bind a session_id to a workspace (called once the SDK init message arrives)
+   */
+  function bindSession(sessionId: string, workspacePath: string): void {
+    updateIndex((index) => {
+      const entry = index[path.basename(workspacePath)];
+      if (!entry) return;
+
+      if (!entry.session_ids.includes(sessionId)) {
+        entry.session_ids.push(sessionId);
+      }
+      entry.last_used = getTimestamp();
+    });
+  }
+
+  /**
+   * Public API: Workspace for a request — the resumed session's directory, or a fresh one
+   */
+  function resolveWorkspace(params: { sessionId?: string; templateDir?: string }): string {
+    if (params.sessionId) {
+      const existing = findWorkspace(params.sessionId);
+      if (existing) {
+        bindSession(params.sessionId, existing); // Refresh last_used
+        return existing;
+      }
+    }
+    return createWorkspace(params.templateDir);
+  }
+
+  /**
+   * Public API: Delete workspaces not used for maxAgeDays.
+   * Runs at most once per cleanupIntervalMs (tracked by a marker file) unless forced.
+   *
+   * @returns Paths of deleted workspaces
+   */
+  function cleanupExpired(force = false): string[] {
+    ensureRootDir();
+    const markerPath = path.join(rootDir, CLEANUP_MARKER);
+
+    if (!force && fs.existsSync(markerPath)) {
+      const lastRun = fs.statSync(markerPath).mtimeMs;
+      if (Date.now() - lastRun < cleanupIntervalMs) return [];
+    }
+    fs.writeFileSync(markerPath, getTimestamp(), "utf-8");
+
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+    // Drop expired entries under the lock, then delete their directories
+    const removed = updateIndex((index) => {
+      const expired: string[] = [];
+      for (const [name, entry] of Object.entries(index)) {
+        if (new Date(entry.last_used).getTime() >= cutoff) continue;
+        delete index[name];
+        expired.push(path.join(rootDir, name));
+      }
+      return expired;
+    });
+
+    for (const workspacePath of removed) {
+      fs.rmSync(workspacePath, { recursive: true, force: true });
+    }
+    return removed;
+  }
+
+  // Return public API
+  return {
+    createWorkspace,
+    findWorkspace,
+    forkWorkspace,
+    bindSession,
+    resolveWorkspace,
+    cleanupExpired,
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Next.js proxy (formerly middleware) that requires a logged-in user or API token for the chat and session pages
+ * and the APIs that run or expose agents.
+ *
+ * Input data sources: Session cookie or Authorization header, ./.agent-auth.json (via lib/auth)
+ * Output destinations: Redirect to /login for pages, 401 JSON for API routes, or the request passed through
+ * Dependencies: next/server, lib/auth
+ * Key exports: proxy(), config (matcher)
+ * Side effects: Reads the auth file
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createAuth, isAuthEnabled } from "@/lib/auth";
+
+export function proxy(req: NextRequest) {
+  if (!isAuthEnabled() || createAuth().authenticate(req.headers)) {
+    return NextResponse.next();
+  }
+
+  if (req.nextUrl.pathname.startsWith("/api/")) {
+    return new Response(
+      JSON.stringify({ error: "Authentication required: log in or send Authorization: Bearer <token>" }),
+      { status: 401, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const login = new URL("/login", req.url);
+  login.searchParams.set("next", req.nextUrl.pathname + req.nextUrl.search);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: [
+    "/chat",
+    "/sessions",
+    "/api/chat/:path*",
+    "/api/sessions/:path*",
+    "/api/workspace/:path*",
+    "/api/profiles",
+    "/api/usage",
+    "/api/budgets",
+  ],
+};
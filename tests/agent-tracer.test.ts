@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import type { SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import { createAgentTracer, type ExchangeTrace, type TraceExporter } from "@/lib/agent-tracer";
+import { createMockQuery, type MockScript } from "@/lib/mock-query";
+import { createRedactor } from "@/lib/redaction";
+
+function memoryExporter(): TraceExporter & { traces: ExchangeTrace[] } {
+  const traces: ExchangeTrace[] = [];
+  return { name: "memory", traces, export: (trace) => void traces.push(trace), flush: async () => {} };
+}
+
+// Play a script through a tracer the way route.ts feeds the session logger
+async function trace(script: MockScript, inputs: string[]) {
+  const exporter = memoryExporter();
+  const tracer = createAgentTracer({ exporters: [exporter], profile: "default", redactor: createRedactor() });
+
+  async function* prompts(): AsyncGenerator<SDKUserMessage> {
+    for (const input of inputs) {
+      tracer.logUserInput(input);
+      yield { type: "user", session_id: "", message: { role: "user", content: input }, parent_tool_use_id: null };
+    }
+  }
+
+  let error: unknown = null;
+  try {
+    for await (const message of createMockQuery(script)({ prompt: prompts() })) tracer.log(message);
+  } catch (runError) {
+    error = runError;
+  }
+  await tracer.close();
+  return { traces: exporter.traces, error };
+}
+
+describe("createAgentTracer", () => {
+  it("builds an exchange span with a child per model turn and tool call", async () => {
+    const { traces } = await trace(
+      {
+        session_id: "session-1",
+        model: "claude-mock",
+        turns: [
+          [
+            { type: "tool_use", name: "Read", input: { file_path: "a.txt" }, output: "contents" },
+            { type: "text", text: "The file says contents" },
+          ],
+        ],
+      },
+      ["read a.txt"]
+    );
+
+    expect(traces).toHaveLength(1);
+    const [root, firstTurn, tool, secondTurn] = traces[0].spans;
+    expect(traces[0]).toMatchObject({ session_id: "session-1", trace_id: expect.stringMatching(/^[0-9a-f]{32}$/) });
+
+    expect(root).toMatchObject({
+      kind: "exchange",
+      parent_id: null,
+      input: "read a.txt",
+      output: "The file says contents",
+      error: null,
+      attributes: { session_id: "session-1", model: "claude-mock", profile: "default", result_subtype: "success" },
+      metrics: { tokens_in: 100, tokens_out: 20, cost_usd: 0.001, num_turns: 2 },
+    });
+    expect(firstTurn).toMatchObject({ kind: "llm", name: "claude-mock", parent_id: root.span_id, input: "read a.txt" });
+    expect(firstTurn.metrics).toMatchObject({ tokens_in: 100, tokens_out: 20 });
+    expect(tool).toMatchObject({
+      kind: "tool",
+      name: "Read",
+      parent_id: root.span_id,
+      input: { file_path: "a.txt" },
+      output: "contents",
+      error: null,
+      attributes: { is_error: false },
+    });
+    expect(tool.metrics.duration_ms).toBeGreaterThanOrEqual(0);
+    // The next turn reads the tool results
+    expect(secondTurn).toMatchObject({ kind: "llm", input: [{ output: "contents", is_error: false }] });
+    expect(secondTurn.output).toEqual([{ type: "text", text: "The file says contents" }]);
+  });
+
+  it("records tool errors and error results", async () => {
+    const { traces } = await trace(
+      {
+        turns: [
+          [
+            { type: "tool_use", name: "Bash", input: { command: "false" }, output: "exit code 1", is_error: true },
+            { type: "result", subtype: "error_max_turns", errors: ["Reached maximum number of turns (1)"] },
+          ],
+        ],
+      },
+      ["run it"]
+    );
+
+    const [root, , tool] = traces[0].spans;
+    expect(tool).toMatchObject({ error: "exit code 1", attributes: { is_error: true } });
+    expect(root.error).toBe("error_max_turns: Reached maximum number of turns (1)");
+  });
+
+  it("costs each exchange by the difference of the cumulative cost", async () => {
+    const { traces } = await trace(
+      { cost_per_turn_usd: 0.01, turns: [[{ type: "text", text: "One" }], [{ type: "text", text: "Two" }]] },
+      ["first", "second"]
+    );
+
+    expect(traces.map((exchange) => exchange.spans[0].input)).toEqual(["first", "second"]);
+    expect(traces[1].spans[0].metrics.cost_usd).toBeCloseTo(0.01);
+  });
+
+  it("exports an exchange that ended without a result on close", async () => {
+    const { traces, error } = await trace(
+      { turns: [[{ type: "tool_use", name: "Bash", input: { command: "sleep 100" } }, { type: "throw", error: "crashed" }]] },
+      ["go"]
+    );
+
+    expect(error).toEqual(new Error("crashed"));
+    const [root, , tool] = traces[0].spans;
+    expect(root.error).toBe("The exchange ended without a result");
+    expect(tool.error).toBeNull();
+    expect(tool.output).toBe("");
+  });
+
+  it("masks secrets before export", async () => {
+    const key = "sk-ant-REDACTED";
+    const { traces } = await trace({ turns: [[{ type: "text", text: `Your key is ${key}` }]] }, [`use ${key}`]);
+
+    const serialized = JSON.stringify(traces);
+    expect(serialized).not.toContain(key);
+    expect(traces[0].spans[0].input).toBe("use [REDACTED:anthropic_key]");
+  });
+
+  it("does nothing without exporters", async () => {
+    const tracer = createAgentTracer({ exporters: [] });
+    tracer.logUserInput("hi");
+    tracer.log({ type: "result", subtype: "success", result: "ok" });
+    await expect(tracer.close()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,121 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { AUTH_COOKIE, createAuth } from "@/lib/auth";
+import { proxy } from "@/proxy";
+import { POST as login } from "@/app/api/auth/login/route";
+
+let tempDir: string;
+let file: string;
+
+beforeAll(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "auth-"));
+  file = path.join(tempDir, "auth.json");
+  process.env.AUTH_FILE = file;
+  delete process.env.AUTH_DISABLED;
+  delete process.env.AUTH_SECRET;
+
+  const auth = createAuth({ file });
+  auth.setUser("alice", { password: "correct horse" });
+  auth.setUser("bob", { password: "battery staple" });
+});
+
+afterAll(() => {
+  delete process.env.AUTH_FILE;
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function withCookie(value: string): Headers {
+  return new Headers({ cookie: `${AUTH_COOKIE}=${encodeURIComponent(value)}` });
+}
+
+describe("createAuth", () => {
+  it("logs in with the right password only", () => {
+    const auth = createAuth({ file });
+
+    expect(auth.login("alice", "wrong")).toBeNull();
+    expect(auth.login("nobody", "correct horse")).toBeNull();
+
+    const session = auth.login("alice", "correct horse");
+    expect(session).not.toBeNull();
+    expect(auth.authenticate(withCookie(session!.cookie))).toMatchObject({ id: "alice", method: "password" });
+  });
+
+  it("rejects tampered and expired session cookies", () => {
+    const auth = createAuth({ file });
+    const { cookie } = auth.login("alice", "correct horse")!;
+    const [, expires, signature] = cookie.split(":");
+
+    expect(auth.authenticate(withCookie(`bob:${expires}:${signature}`))).toBeNull();
+    expect(auth.authenticate(withCookie(`alice:${Number(expires) + 3600}:${signature}`))).toBeNull();
+    expect(auth.authenticate(withCookie(`alice:${expires}:${signature.slice(0, -2)}xx`))).toBeNull();
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 8 * 24 * 60 * 60 * 1000);
+    expect(auth.authenticate(withCookie(cookie))).toBeNull();
+  });
+
+  it("accepts issued API tokens until they are revoked", () => {
+    const auth = createAuth({ file });
+    const { id, token } = auth.createToken("bob", "ci");
+    const bearer = (value: string) => new Headers({ authorization: `Bearer ${value}` });
+
+    expect(auth.authenticate(bearer(token))).toMatchObject({ id: "bob", method: "token" });
+    expect(auth.authenticate(bearer(`${token}x`))).toBeNull();
+    expect(auth.authenticate(bearer("agt_unknown"))).toBeNull();
+
+    expect(auth.revokeToken(id)).toBe(true);
+    expect(auth.authenticate(bearer(token))).toBeNull();
+  });
+});
+
+describe("proxy", () => {
+  it("rejects unauthenticated API requests and redirects pages to the login", async () => {
+    const api = proxy(new NextRequest("http://localhost/api/chat", { method: "POST" }));
+    expect(api.status).toBe(401);
+    expect(await api.json()).toMatchObject({ error: expect.stringContaining("Authentication required") });
+
+    const page = proxy(new NextRequest("http://localhost/sessions?id=1"));
+    expect(page.headers.get("location")).toBe("http://localhost/login?next=%2Fsessions%3Fid%3D1");
+  });
+
+  it("passes requests with a valid session cookie or token", () => {
+    const { cookie } = createAuth({ file }).login("alice", "correct horse")!;
+    const { token } = createAuth({ file }).createToken("alice");
+
+    for (const headers of [withCookie(cookie), new Headers({ authorization: `Bearer ${token}` })]) {
+      const response = proxy(new NextRequest("http://localhost/api/usage", { headers }));
+      expect(response.headers.get("x-middleware-next")).toBe("1");
+    }
+  });
+});
+
+describe("POST /api/auth/login", () => {
+  const attempt = (password: string) =>
+    login(
+      new NextRequest("http://localhost/api/auth/login", {
+        method: "POST",
+        body: JSON.stringify({ username: "bob", password }),
+      })
+    );
+
+  it("answers 429 after 10 attempts a minute, and accepts logins again after the window", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+
+    expect((await attempt("battery staple")).headers.get("set-cookie")).toContain(`${AUTH_COOKIE}=`);
+    for (let i = 0; i < 9; i++) expect((await attempt("wrong")).status).toBe(401);
+
+    const limited = await attempt("battery staple");
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+
+    vi.setSystemTime(Date.now() + 61_000);
+    expect((await attempt("battery staple")).status).toBe(200);
+  });
+});
@@ -0,0 +1,67 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createBudgetManager } from "@/lib/budgets";
+
+const PARENT = "aaaaaaaa-0000-0000-0000-000000000000";
+const FORK = "bbbbbbbb-0000-0000-0000-000000000000";
+const OTHER = "cccccccc-0000-0000-0000-000000000000";
+
+let sessionsDir: string;
+
+beforeEach(() => {
+  sessionsDir = fs.mkdtempSync(path.join(os.tmpdir(), "budgets-"));
+});
+
+afterEach(() => {
+  fs.rmSync(sessionsDir, { recursive: true, force: true });
+});
+
+// Write a session log with one exchange per cost
+function writeSession(sessionId: string, costs: number[], parentSessionId?: string) {
+  const ts = new Date().toISOString();
+  const lines = [
+    { type: "session_start", ts, session_id: sessionId, profile: "default", parent_session_id: parentSessionId },
+    ...costs.map((cost_usd, index) => ({
+      type: "exchange",
+      exchange: index + 1,
+      ts_start: ts,
+      messages: [],
+      stats: { num_turns: 1, duration_ms: 1, tokens_in: 0, tokens_out: 0, cache_creation: 0, cache_read: 0, cost_usd },
+    })),
+  ];
+  const file = path.join(sessionsDir, `20250101_000000_${sessionId.substring(0, 8)}.jsonl`);
+  fs.writeFileSync(file, lines.map((line) => JSON.stringify(line)).join("\n") + "\n");
+}
+
+describe("createBudgetManager", () => {
+  it("counts the parent's spend against a fork's session limit on every turn", () => {
+    const budgets = createBudgetManager({ sessionsDir });
+    budgets.setLimits({ session: { usd: 2 } });
+    writeSession(PARENT, [1, 0.5]);
+
+    // Turn 1 of the fork: the route checks the parent, the fork has no log yet
+    const first = budgets.check({ sessionId: PARENT, profile: "default" });
+    expect(first.statuses[0].spent.usd).toBeCloseTo(1.5);
+    expect(first.exceeded).toEqual([]);
+
+    // Turn 2: the fork's own id
+    writeSession(FORK, [0.6], PARENT);
+    const second = budgets.check({ sessionId: FORK, profile: "default" });
+    expect(second.statuses[0].spent.usd).toBeCloseTo(2.1);
+    expect(second.exceeded.map((status) => status.scope)).toEqual(["session"]);
+  });
+
+  it("counts only a session's own spend when it isn't a fork", () => {
+    const budgets = createBudgetManager({ sessionsDir });
+    budgets.setLimits({ session: { usd: 2 } });
+    writeSession(PARENT, [1.5]);
+    writeSession(OTHER, [0.6]);
+
+    const check = budgets.check({ sessionId: OTHER, profile: "default" });
+    expect(check.statuses[0].spent.usd).toBeCloseTo(0.6);
+    expect(check.remainingUsd).toBeCloseTo(1.4);
+    expect(budgets.check({ profile: "default" }).statuses[0].spent.usd).toBe(0);
+  });
+});
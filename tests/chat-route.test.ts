@@ -0,0 +1,157 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/chat/route";
+import { setQueryFn } from "@/lib/agent-transport";
+import { createMockQuery, type MockScript } from "@/lib/mock-query";
+import { readNdjson } from "@/lib/ndjson";
+import type { Message } from "@/lib/session-logger";
+
+const repoDir = process.cwd();
+let tempDir: string;
+
+// The route writes ./sessions and ./workspaces relative to the working directory
+beforeAll(() => {
+  process.env.AUTH_DISABLED = "1";
+  process.env.RATE_LIMIT_PER_MINUTE = "1000";
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "chat-route-"));
+  process.chdir(tempDir);
+});
+
+afterAll(() => {
+  process.chdir(repoDir);
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  setQueryFn(null);
+  delete process.env.AGENT_MOCK_SCRIPT;
+  fs.rmSync(path.join(tempDir, "sessions"), { recursive: true, force: true });
+});
+
+function chatRequest(body: unknown): NextRequest {
+  return new NextRequest("http://localhost/api/chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+// POST with a mock script; returns the response, its parsed NDJSON lines and the mock's calls
+async function chat(script: MockScript, body: Record<string, unknown>) {
+  const mockQuery = createMockQuery(script);
+  setQueryFn(mockQuery);
+
+  const response = await POST(chatRequest(body));
+  const raw = await response.text();
+  const events: Record<string, unknown>[] = [];
+  await readNdjson(new Response(raw).body!, (event) => void events.push(event));
+  return { response, raw, events, calls: mockQuery.calls };
+}
+
+// Fields of the session log lines the tests check
+interface LogLine {
+  type: string;
+  user_input?: string;
+  messages?: Message[];
+}
+
+function sessionLog(): LogLine[] {
+  const dir = path.join(tempDir, "sessions");
+  const files = fs.readdirSync(dir).filter((file) => file.endsWith(".jsonl"));
+  expect(files).toHaveLength(1);
+  return fs
+    .readFileSync(path.join(dir, files[0]), "utf-8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+}
+
+describe("POST /api/chat", () => {
+  it("rejects a request without messages", async () => {
+    const response = await POST(chatRequest({ messages: [] }));
+    expect(response.status).toBe(400);
+    expect(response.headers.get("Content-Type")).toBe("application/json");
+    expect(await response.json()).toEqual({ error: "Messages array is required" });
+  });
+
+  it("streams one JSON object per line, from init to result", async () => {
+    const { response, raw, events } = await chat({ turns: [[{ type: "text", text: "Hello from the mock" }]] }, {
+      messages: [{ role: "user", content: "hi" }],
+    });
+
+    expect(response.headers.get("Content-Type")).toBe("application/x-ndjson");
+    expect(raw.endsWith("\n")).toBe(true);
+    expect(raw.trim().split("\n")).toHaveLength(events.length);
+
+    expect(events[0]).toMatchObject({ type: "system", subtype: "init" });
+    expect(events[events.length - 1]).toMatchObject({ type: "result", subtype: "success", result: "Hello from the mock" });
+    // Partial messages arrive as compact delta events, never as raw stream_event
+    expect(events.some((event) => event.type === "text_delta")).toBe(true);
+    expect(events.some((event) => event.type === "stream_event")).toBe(false);
+  });
+
+  it("forwards tool errors and error results, and logs them", async () => {
+    const { events } = await chat(
+      {
+        turns: [
+          [
+            { type: "tool_use", name: "Read", input: { file_path: "missing.txt" }, output: "File not found", is_error: true },
+            { type: "result", subtype: "error_max_turns", errors: ["Reached maximum number of turns (1)"] },
+          ],
+        ],
+      },
+      { messages: [{ role: "user", content: "read it" }] }
+    );
+
+    const toolResult = events.find((event) => event.type === "user") as { message: { content: unknown[] } };
+    expect(toolResult.message.content).toEqual([expect.objectContaining({ is_error: true, content: "File not found" })]);
+    expect(events[events.length - 1]).toMatchObject({ type: "result", subtype: "error_max_turns", is_error: true });
+
+    const exchange = sessionLog().find((line) => line.type === "exchange");
+    expect(exchange?.messages?.[1]).toMatchObject({ type: "result", is_error: true });
+  });
+
+  it("ends the stream with an error event when the query throws", async () => {
+    const { events } = await chat(
+      { turns: [[{ type: "text", text: "Starting" }, { type: "throw", error: "CLI process exited with code 1" }]] },
+      { messages: [{ role: "user", content: "hi" }] }
+    );
+
+    expect(events[events.length - 1]).toEqual({ type: "error", error: "CLI process exited with code 1" });
+    expect(sessionLog().map((line) => line.type)).toEqual(["session_start", "session_end"]);
+  });
+
+  it("resumes a session and appends to its log", async () => {
+    const first = await chat({ turns: [[{ type: "text", text: "One" }]] }, { messages: [{ role: "user", content: "first" }] });
+    const sessionId = first.events[0].session_id as string;
+
+    const second = await chat({ turns: [[{ type: "text", text: "Two" }]] }, {
+      messages: [{ role: "user", content: "second" }],
+      sessionId,
+    });
+
+    expect(second.calls[0].options?.resume).toBe(sessionId);
+    expect(second.events[0]).toMatchObject({ type: "system", session_id: sessionId });
+
+    const log = sessionLog();
+    expect(log.map((line) => line.type)).toEqual(["session_start", "exchange", "exchange", "session_end"]);
+    expect(log.filter((line) => line.type === "exchange").map((line) => line.user_input)).toEqual(["first", "second"]);
+  });
+
+  it("plays the script named by AGENT_MOCK_SCRIPT", async () => {
+    process.env.AGENT_MOCK_SCRIPT = path.join(repoDir, "tests", "mock-scripts", "tool-error.json");
+
+    const response = await POST(chatRequest({ messages: [{ role: "user", content: "check the config" }] }));
+    const events: Record<string, unknown>[] = [];
+    await readNdjson(response.body!, (event) => void events.push(event));
+
+    expect(events[events.length - 1]).toMatchObject({
+      type: "result",
+      subtype: "success",
+      result: "There is no config.json in the workspace.",
+    });
+  });
+});
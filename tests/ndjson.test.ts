@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { readNdjson } from "@/lib/ndjson";
+import { chatReducer, initialChatState, type ChatState } from "@/lib/chat-model";
+import { toDeltaEvent } from "@/lib/stream-events";
+import { createMockQuery, type MockScript } from "@/lib/mock-query";
+import type { SDKPartialAssistantMessage } from "@anthropic-ai/claude-agent-sdk";
+
+// Stream that delivers the given byte chunks, one per read
+function streamOf(chunks: Array<string | Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk);
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>) {
+  const events: Record<string, unknown>[] = [];
+  const errors: string[] = [];
+  await readNdjson(body, (event) => void events.push(event), (line) => errors.push(line));
+  return { events, errors };
+}
+
+// NDJSON lines as /api/chat sends them for a script: SDK messages, with stream_event turned into delta events
+async function chatLines(script: MockScript, input: string): Promise<string[]> {
+  const lines: string[] = [];
+  const run = createMockQuery(script)({ prompt: input, options: { includePartialMessages: true } });
+  for await (const message of run) {
+    if (message.type === "stream_event") {
+      const delta = toDeltaEvent(message as SDKPartialAssistantMessage);
+      if (delta) lines.push(JSON.stringify(delta));
+      continue;
+    }
+    lines.push(JSON.stringify(message));
+  }
+  return lines;
+}
+
+// Fold a response body into chat state like ChatInterface does
+async function foldStream(body: ReadableStream<Uint8Array>, text: string): Promise<ChatState> {
+  let state = chatReducer(initialChatState, { type: "submit", text });
+  await readNdjson(body, (event) => {
+    state = chatReducer(state, { type: "event", event, receivedAt: 0 });
+    return event.type !== "result";
+  });
+  return chatReducer(state, { type: "stream_end" });
+}
+
+describe("readNdjson", () => {
+  it("parses lines split across chunks", async () => {
+    const { events } = await collect(streamOf(['{"type":"a","n":', '1}\n{"type"', ':"b"}\n']));
+    expect(events).toEqual([{ type: "a", n: 1 }, { type: "b" }]);
+  });
+
+  it("decodes multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode('{"text":"héllo ✓"}\n');
+    const split = bytes.indexOf(0xe2) + 1; // Inside the three bytes of ✓
+    const { events } = await collect(streamOf([bytes.slice(0, split), bytes.slice(split)]));
+    expect(events).toEqual([{ text: "héllo ✓" }]);
+  });
+
+  it("parses a last line without a trailing newline and skips blank lines", async () => {
+    const { events } = await collect(streamOf(['\n{"a":1}\n\n', '{"b":2}']));
+    expect(events).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it("reports unparseable lines and keeps reading", async () => {
+    const { events, errors } = await collect(streamOf(['{"a":1}\nnot json\n{"b":2}\n']));
+    expect(events).toEqual([{ a: 1 }, { b: 2 }]);
+    expect(errors).toEqual(["not json"]);
+  });
+
+  it("stops when the callback returns false and releases the reader", async () => {
+    const body = streamOf(['{"type":"result"}\n{"type":"late"}\n']);
+    const events: Record<string, unknown>[] = [];
+    await readNdjson(body, (event) => {
+      events.push(event);
+      return false;
+    });
+    expect(events).toEqual([{ type: "result" }]);
+    expect(body.locked).toBe(false);
+  });
+});
+
+describe("chat stream folding", () => {
+  it("builds the assistant message from deltas, then the full message", async () => {
+    const lines = await chatLines({ turns: [[{ type: "text", text: "Hello there, world" }]] }, "hi");
+    const state = await foldStream(streamOf(lines.map((line) => line + "\n")), "hi");
+
+    const assistant = state.messages[1];
+    expect(assistant.blocks).toEqual([{ kind: "text", text: "Hello there, world" }]);
+    expect(assistant.isStreaming).toBe(false);
+    expect(assistant.stats?.cost_usd).toBeCloseTo(0.001);
+    expect(state.sessionId).toEqual(expect.any(String));
+  });
+
+  it("survives arbitrary chunk boundaries", async () => {
+    const text = (await chatLines({ turns: [[{ type: "text", text: "Chunked reply" }]] }, "hi")).join("\n") + "\n";
+    const chunks = text.match(/[\s\S]{1,7}/g)!;
+    const state = await foldStream(streamOf(chunks), "hi");
+    expect(state.messages[1].blocks).toEqual([{ kind: "text", text: "Chunked reply" }]);
+  });
+
+  it("marks failed tool calls and error results", async () => {
+    const lines = await chatLines(
+      {
+        turns: [
+          [
+            { type: "tool_use", name: "Read", input: { file_path: "missing.txt" }, output: "File not found", is_error: true },
+            { type: "result", subtype: "error_max_turns", errors: ["Reached maximum number of turns (1)"] },
+          ],
+        ],
+      },
+      "read it"
+    );
+    const state = await foldStream(streamOf(lines.map((line) => line + "\n")), "read it");
+
+    expect(state.messages[1].blocks).toEqual([
+      expect.objectContaining({ kind: "tool_use", name: "Read", status: "error", output: "File not found" }),
+      { kind: "error", message: "error_max_turns: Reached maximum number of turns (1)" },
+    ]);
+  });
+
+  it("numbers a turn only once the server accepts it", async () => {
+    const lines = await chatLines({ turns: [[{ type: "text", text: "One" }]] }, "1");
+    let state = await foldStream(streamOf(lines.map((line) => line + "\n")), "1");
+    expect(state.messages.map((message) => message.exchange)).toEqual([1, 1]);
+
+    // Refused by the budget check: no init event, so no exchange number
+    state = chatReducer(state, { type: "submit", text: "2" });
+    state = chatReducer(state, {
+      type: "event",
+      event: { type: "error", code: "budget_exceeded", error: "Budget exceeded" },
+      receivedAt: 0,
+    });
+    state = chatReducer(state, { type: "stream_end" });
+    expect(state.messages.map((message) => message.exchange)).toEqual([1, 1, undefined, undefined]);
+
+    state = chatReducer(state, { type: "submit", text: "3" });
+    state = chatReducer(state, { type: "event", event: { type: "system", subtype: "init", session_id: "s" }, receivedAt: 0 });
+    expect(state.messages.slice(4).map((message) => message.exchange)).toEqual([2, 2]);
+  });
+
+  it("shows an error event and keeps the partial text when the stream ends early", async () => {
+    const lines = await chatLines({ turns: [[{ type: "text", text: "Partial answer" }]] }, "hi");
+    const deltasOnly = lines.filter((line) => JSON.parse(line).type === "text_delta");
+    const body = streamOf([...deltasOnly, JSON.stringify({ type: "error", error: "CLI crashed" })].map((line) => line + "\n"));
+    const state = await foldStream(body, "hi");
+
+    expect(state.messages[1].blocks).toEqual([
+      { kind: "error", message: "CLI crashed" },
+      { kind: "text", text: "Partial answer" },
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { InMemorySpanExporter, type ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import type { SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import { createAgentTracer } from "@/lib/agent-tracer";
+import { createMockQuery, type MockScript } from "@/lib/mock-query";
+import { createOtelExporter } from "@/lib/otel-exporter";
+
+// Play a script through a tracer with an OTel exporter writing to memory
+async function exportSpans(script: MockScript, inputs: string[]) {
+  const spanExporter = new InMemorySpanExporter();
+  const tracer = createAgentTracer({
+    exporters: [createOtelExporter({ spanExporter })],
+    profile: "default",
+    userId: "user-1",
+  });
+
+  async function* prompts(): AsyncGenerator<SDKUserMessage> {
+    for (const input of inputs) {
+      tracer.logUserInput(input);
+      yield { type: "user", session_id: "", message: { role: "user", content: input }, parent_tool_use_id: null };
+    }
+  }
+
+  try {
+    for await (const message of createMockQuery(script)({ prompt: prompts() })) tracer.log(message);
+  } catch {
+    // The exchange is still exported on close
+  }
+  await tracer.close();
+  return spanExporter.getFinishedSpans();
+}
+
+function byName(spans: ReadableSpan[], name: string): ReadableSpan {
+  const span = spans.find((candidate) => candidate.name === name);
+  if (!span) throw new Error(`No span named "${name}" in ${spans.map((candidate) => candidate.name).join(", ")}`);
+  return span;
+}
+
+const readScript: MockScript = {
+  session_id: "session-1",
+  model: "claude-mock",
+  turns: [
+    [
+      { type: "tool_use", name: "Read", input: { file_path: "a.txt" }, output: "contents" },
+      { type: "text", text: "The file says contents" },
+    ],
+  ],
+};
+
+describe("createOtelExporter", () => {
+  afterEach(() => {
+    delete process.env.OTEL_SERVICE_NAME;
+    delete process.env.OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT;
+  });
+
+  it("emits invoke_agent, chat and execute_tool spans in one trace", async () => {
+    const spans = await exportSpans(readScript, ["read a.txt"]);
+
+    expect(spans.map((span) => span.name).sort()).toEqual([
+      "chat claude-mock",
+      "chat claude-mock",
+      "execute_tool Read",
+      "invoke_agent default",
+    ]);
+    const root = byName(spans, "invoke_agent default");
+    const tool = byName(spans, "execute_tool Read");
+    expect(new Set(spans.map((span) => span.spanContext().traceId)).size).toBe(1);
+    expect(root.parentSpanContext).toBeUndefined();
+    for (const span of spans.filter((candidate) => candidate !== root)) {
+      expect(span.parentSpanContext?.spanId).toBe(root.spanContext().spanId);
+    }
+
+    expect(root.attributes).toMatchObject({
+      "gen_ai.operation.name": "invoke_agent",
+      "gen_ai.provider.name": "anthropic",
+      "gen_ai.agent.name": "default",
+      "gen_ai.conversation.id": "session-1",
+      "gen_ai.request.model": "claude-mock",
+      "gen_ai.usage.input_tokens": 100,
+      "gen_ai.usage.output_tokens": 20,
+      "claude_agent.cost_usd": 0.001,
+      "claude_agent.num_turns": 2,
+      "claude_agent.result_subtype": "success",
+      "user.id": "user-1",
+    });
+    expect(root.status.code).toBe(SpanStatusCode.UNSET);
+
+    const chat = byName(spans, "chat claude-mock");
+    expect(chat.kind).toBe(SpanKind.CLIENT);
+    expect(chat.attributes).toMatchObject({
+      "gen_ai.operation.name": "chat",
+      "gen_ai.response.id": expect.any(String),
+      "gen_ai.usage.input_tokens": 100,
+      "gen_ai.usage.output_tokens": 20,
+    });
+    expect(tool.attributes).toMatchObject({
+      "gen_ai.operation.name": "execute_tool",
+      "gen_ai.tool.name": "Read",
+      "gen_ai.tool.call.id": expect.any(String),
+    });
+  });
+
+  it("keeps message content out unless capture is enabled", async () => {
+    const withoutContent = await exportSpans(readScript, ["read a.txt"]);
+    expect(JSON.stringify(withoutContent.map((span) => span.attributes))).not.toContain("contents");
+
+    process.env.OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT = "true";
+    const withContent = await exportSpans(readScript, ["read a.txt"]);
+    expect(byName(withContent, "invoke_agent default").attributes["gen_ai.input.messages"]).toBe("read a.txt");
+    expect(byName(withContent, "execute_tool Read").attributes).toMatchObject({
+      "gen_ai.tool.call.arguments": JSON.stringify({ file_path: "a.txt" }),
+      "gen_ai.tool.call.result": "contents",
+    });
+  });
+
+  it("marks failed tools and error results", async () => {
+    const spans = await exportSpans(
+      {
+        turns: [
+          [
+            { type: "tool_use", name: "Bash", input: { command: "false" }, output: "exit code 1", is_error: true },
+            { type: "result", subtype: "error_max_turns", errors: ["Reached maximum number of turns (1)"] },
+          ],
+        ],
+      },
+      ["run it"]
+    );
+
+    const tool = byName(spans, "execute_tool Bash");
+    expect(tool.status).toEqual({ code: SpanStatusCode.ERROR, message: "exit code 1" });
+    expect(tool.attributes["error.type"]).toBe("tool_error");
+    const root = byName(spans, "invoke_agent default");
+    expect(root.status.code).toBe(SpanStatusCode.ERROR);
+    expect(root.attributes["error.type"]).toBe("error_max_turns");
+  });
+
+  it("takes the service name from OTEL_SERVICE_NAME", async () => {
+    process.env.OTEL_SERVICE_NAME = "agent-platform";
+    const spans = await exportSpans({ turns: [[{ type: "text", text: "Hi" }]] }, ["hi"]);
+
+    expect(spans[0].resource.attributes["service.name"]).toBe("agent-platform");
+  });
+});
@@ -0,0 +1,53 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { createPathGuard } from "@/lib/path-guard";
+
+const tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "path-guard-")));
+const workspace = path.join(tempDir, "workspace");
+const docs = path.join(tempDir, "docs");
+fs.mkdirSync(path.join(workspace, "src"), { recursive: true });
+fs.mkdirSync(docs);
+fs.symlinkSync("/etc", path.join(workspace, "etc-link"));
+
+const guard = createPathGuard(workspace, [docs]);
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("createPathGuard", () => {
+  it("allows paths inside the workspace and reads from read-only directories", () => {
+    expect(guard.check("Read", { file_path: "src/a.ts" })).toBeNull();
+    expect(guard.check("Write", { file_path: path.join(workspace, "new/b.ts") })).toBeNull();
+    expect(guard.check("Read", { file_path: path.join(docs, "guide.md") })).toBeNull();
+    expect(guard.check("Bash", { command: "cat /etc/passwd" })).toBeNull();
+  });
+
+  it("denies paths outside the workspace, writes to read-only directories and symlinks out", () => {
+    expect(guard.check("Read", { file_path: "/etc/passwd" })).toMatchObject({ tool: "Read", resolved: "/etc/passwd" });
+    expect(guard.check("Edit", { file_path: "../workspace/../docs/guide.md" })).not.toBeNull();
+    expect(guard.check("Write", { file_path: path.join(docs, "guide.md") })).not.toBeNull();
+    expect(guard.check("Read", { file_path: "etc-link/passwd" })).toMatchObject({ resolved: "/etc/passwd" });
+  });
+
+  it("checks the directory part of Glob patterns", () => {
+    expect(guard.check("Glob", { pattern: "src/**/*.ts" })).toBeNull();
+    expect(guard.check("Glob", { pattern: "/etc/*.conf" })).toMatchObject({ resolved: "/etc" });
+    expect(guard.check("Glob", { pattern: "*.ts", path: "/etc" })).not.toBeNull();
+  });
+
+  it("checks every brace alternative and refuses .. after a wildcard", () => {
+    expect(guard.check("Glob", { pattern: "{src,lib}/*.{ts,tsx}" })).toBeNull();
+    expect(guard.check("Glob", { pattern: "{/etc,.}/*" })).toMatchObject({ resolved: "/etc" });
+    expect(guard.check("Glob", { pattern: "{src,{lib,/etc}}/*" })).toMatchObject({ resolved: "/etc" });
+    expect(guard.check("Glob", { pattern: "src/*/../../../*" })).not.toBeNull();
+  });
+
+  it("checks Grep's glob like a Glob pattern", () => {
+    expect(guard.check("Grep", { pattern: "TODO", glob: "*.{ts,tsx}" })).toBeNull();
+    expect(guard.check("Grep", { pattern: "root", glob: "{/etc,.}/*" })).toMatchObject({ tool: "Grep" });
+    expect(guard.check("Grep", { pattern: "root", path: "/etc" })).not.toBeNull();
+  });
+});
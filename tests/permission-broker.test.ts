@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createPermissionBridge, resolvePermission, type PermissionRequestEvent } from "@/lib/permission-broker";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Ask for a tool call and answer the request the bridge emits (if any)
+async function callTool(sessionId: string, answer: "allow" | "always_allow") {
+  const events: PermissionRequestEvent[] = [];
+  const bridge = createPermissionBridge({
+    emit: (event) => {
+      events.push(event);
+      resolvePermission(event.request_id, answer);
+    },
+  });
+  bridge.setSessionId(sessionId);
+
+  const result = await bridge.canUseTool("Bash", { command: "ls" }, {
+    signal: new AbortController().signal,
+    suggestions: [],
+    toolUseID: "tool-1",
+  });
+  return { result, asked: events.length > 0 };
+}
+
+describe("createPermissionBridge", () => {
+  it("remembers always-allowed tools for the session until they go unused for a day", async () => {
+    vi.useFakeTimers();
+
+    expect(await callTool("session-ttl", "always_allow")).toMatchObject({ asked: true, result: { behavior: "allow" } });
+    expect(await callTool("session-ttl", "allow")).toMatchObject({ asked: false });
+    expect(await callTool("other-session", "allow")).toMatchObject({ asked: true });
+
+    vi.advanceTimersByTime(25 * 60 * 60 * 1000);
+    expect(await callTool("session-ttl", "allow")).toMatchObject({ asked: true });
+  });
+
+  it("keeps the always-allow lists of at most 1000 sessions", async () => {
+    for (let i = 0; i <= 1000; i++) await callTool(`session-${i}`, "always_allow");
+
+    expect(await callTool("session-0", "allow")).toMatchObject({ asked: true });
+    expect(await callTool("session-1000", "allow")).toMatchObject({ asked: false });
+  });
+});
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { takeRateLimit } from "@/lib/rate-limit";
+
+// The limiter's process-wide state (see lib/rate-limit.ts)
+const store = globalThis as unknown as { __rateLimitWindows?: Map<string, number[]>; __rateLimitLastSweep?: number };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  store.__rateLimitWindows?.clear();
+  delete store.__rateLimitLastSweep;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("takeRateLimit", () => {
+  it("refuses requests beyond the limit until the oldest leaves the window", () => {
+    expect(takeRateLimit("user-a", 3)).toEqual({ allowed: true, limit: 3, remaining: 2, retryAfterSeconds: 0 });
+    vi.advanceTimersByTime(20_000);
+    takeRateLimit("user-a", 3);
+    takeRateLimit("user-a", 3);
+
+    expect(takeRateLimit("user-a", 3)).toEqual({ allowed: false, limit: 3, remaining: 0, retryAfterSeconds: 40 });
+    expect(takeRateLimit("user-b", 3).allowed).toBe(true);
+
+    vi.advanceTimersByTime(40_000);
+    expect(takeRateLimit("user-a", 3)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it("forgets keys that made no request in the last minute", () => {
+    for (let i = 0; i < 100; i++) takeRateLimit(`login:user-${i}`, 5);
+    expect(store.__rateLimitWindows?.has("login:user-0")).toBe(true);
+
+    vi.advanceTimersByTime(61_000);
+    takeRateLimit("login:someone", 5);
+
+    expect([...store.__rateLimitWindows!.keys()]).toEqual(["login:someone"]);
+  });
+});
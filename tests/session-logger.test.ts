@@ -0,0 +1,207 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { Options, SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import { createSessionLogger, type ExchangeStats, type Message } from "@/lib/session-logger";
+import { createMockQuery, type MockScript } from "@/lib/mock-query";
+
+const SESSION_ID = "abcdef12-3456-7890-abcd-ef1234567890";
+
+let sessionsDir: string;
+
+beforeEach(() => {
+  sessionsDir = fs.mkdtempSync(path.join(os.tmpdir(), "session-logger-"));
+});
+
+afterEach(() => {
+  fs.rmSync(sessionsDir, { recursive: true, force: true });
+});
+
+// Play a script through a logger the way route.ts does: log the input before yielding it, log every message
+async function runSession(script: MockScript, inputs: string[], options?: Options) {
+  const logger = createSessionLogger({ sessionsDir, profile: "default" });
+  const mockQuery = createMockQuery(script);
+
+  async function* prompts(): AsyncGenerator<SDKUserMessage> {
+    for (const input of inputs) {
+      logger.logUserInput(input);
+      yield { type: "user", session_id: "", message: { role: "user", content: input }, parent_tool_use_id: null };
+    }
+  }
+
+  try {
+    for await (const message of mockQuery({ prompt: prompts(), options })) {
+      logger.log(message);
+    }
+  } finally {
+    logger.close();
+  }
+}
+
+function sessionFiles(): string[] {
+  return fs.readdirSync(sessionsDir).filter((file) => file.endsWith(".jsonl"));
+}
+
+// Fields of the session_start, exchange and session_end lines the tests check
+interface LogLine {
+  type: string;
+  session_id?: string;
+  exchange?: number;
+  user_input?: string;
+  messages?: Message[];
+  stats?: ExchangeStats;
+  interrupted?: boolean;
+  total_exchanges?: number;
+  total_cost_usd?: number;
+}
+
+function readLines(file: string): LogLine[] {
+  return fs
+    .readFileSync(path.join(sessionsDir, file), "utf-8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+}
+
+describe("createSessionLogger", () => {
+  it("writes session_start, one exchange per turn and session_end", async () => {
+    await runSession({ session_id: SESSION_ID, turns: [[{ type: "text", text: "Hi" }], [{ type: "text", text: "Bye" }]] }, [
+      "hello",
+      "goodbye",
+    ]);
+
+    const [file] = sessionFiles();
+    expect(file).toMatch(/^\d{8}_\d{6}_abcdef12\.jsonl$/);
+
+    const lines = readLines(file);
+    expect(lines.map((line) => line.type)).toEqual(["session_start", "exchange", "exchange", "session_end"]);
+    expect(lines[1]).toMatchObject({ exchange: 1, user_input: "hello", stats: { cost_usd: 0.001 } });
+    expect(lines[2]).toMatchObject({ exchange: 2, user_input: "goodbye" });
+    expect(lines[2].stats?.cost_usd).toBeCloseTo(0.001);
+    expect(lines[3]).toMatchObject({ session_id: SESSION_ID, total_exchanges: 2 });
+  });
+
+  it("records tool errors and error results in the exchange", async () => {
+    await runSession(
+      {
+        session_id: SESSION_ID,
+        turns: [
+          [
+            { type: "tool_use", name: "Bash", input: { command: "false" }, output: "exit code 1", is_error: true },
+            { type: "result", subtype: "error_max_turns", errors: ["Reached maximum number of turns (1)"] },
+          ],
+        ],
+      },
+      ["run it"]
+    );
+
+    const exchange = readLines(sessionFiles()[0]).find((line) => line.type === "exchange");
+    expect(exchange?.messages).toEqual([
+      expect.objectContaining({ type: "tool_use", name: "Bash", input: { command: "false" } }),
+      expect.objectContaining({ type: "result", is_error: true, output: "exit code 1" }),
+    ]);
+    expect(exchange?.stats?.num_turns).toBe(1);
+  });
+
+  it("appends a resumed session to its existing file and replaces session_end", async () => {
+    await runSession({ session_id: SESSION_ID, turns: [[{ type: "text", text: "One" }]] }, ["first"]);
+    await runSession({ turns: [[{ type: "text", text: "Two" }], [{ type: "text", text: "Three" }]] }, ["second", "third"], {
+      resume: SESSION_ID,
+    });
+
+    const files = sessionFiles();
+    expect(files).toHaveLength(1);
+
+    const lines = readLines(files[0]);
+    expect(lines.map((line) => line.type)).toEqual(["session_start", "exchange", "exchange", "exchange", "session_end"]);
+    expect(lines.filter((line) => line.type === "exchange").map((line) => line.exchange)).toEqual([1, 2, 3]);
+    expect(lines[4].total_exchanges).toBe(3);
+    expect(lines[4].total_cost_usd).toBeCloseTo(0.003);
+  });
+
+  it("finds the existing file by the session id prefix, whatever its timestamp", async () => {
+    const file = `20240101_000000_${SESSION_ID.substring(0, 8)}.jsonl`;
+    const previous = [
+      { type: "session_start", session_id: SESSION_ID, ts: "2024-01-01T00:00:00.000Z", model: "claude-mock" },
+      { type: "exchange", session_id: SESSION_ID, exchange: 4, user_input: "old", messages: [], stats: { cost_usd: 0.5 } },
+      { type: "session_end", session_id: SESSION_ID, total_exchanges: 4 },
+    ];
+    fs.writeFileSync(path.join(sessionsDir, file), previous.map((line) => JSON.stringify(line)).join("\n") + "\n");
+
+    await runSession({ turns: [[{ type: "text", text: "Again" }]] }, ["new"], { resume: SESSION_ID });
+
+    expect(sessionFiles()).toEqual([file]);
+    const lines = readLines(file);
+    expect(lines.map((line) => line.type)).toEqual(["session_start", "exchange", "exchange", "session_end"]);
+    expect(lines[2]).toMatchObject({ exchange: 5, user_input: "new" });
+    expect(lines[3].total_cost_usd).toBeCloseTo(0.501);
+  });
+
+  it("keeps every line of a file that has no session_end (crashed run)", async () => {
+    const file = `20240101_000000_${SESSION_ID.substring(0, 8)}.jsonl`;
+    const previous = [
+      { type: "session_start", session_id: SESSION_ID, ts: "2024-01-01T00:00:00.000Z" },
+      { type: "exchange", session_id: SESSION_ID, exchange: 1, user_input: "old", messages: [] },
+    ];
+    fs.writeFileSync(path.join(sessionsDir, file), previous.map((line) => JSON.stringify(line)).join("\n") + "\n");
+
+    await runSession({ turns: [[{ type: "text", text: "Again" }]] }, ["new"], { resume: SESSION_ID });
+
+    const lines = readLines(file);
+    expect(lines.map((line) => line.type)).toEqual(["session_start", "exchange", "exchange", "session_end"]);
+    expect(lines[1].user_input).toBe("old");
+    expect(lines[2].exchange).toBe(2);
+  });
+
+  it("writes an interrupted exchange when the run throws before its result", async () => {
+    const logger = createSessionLogger({ sessionsDir });
+    const mockQuery = createMockQuery({
+      session_id: SESSION_ID,
+      turns: [[{ type: "text", text: "Working" }, { type: "throw", error: "CLI crashed" }]],
+    });
+
+    async function* prompts(): AsyncGenerator<SDKUserMessage> {
+      logger.logUserInput("go");
+      yield { type: "user", session_id: "", message: { role: "user", content: "go" }, parent_tool_use_id: null };
+    }
+
+    await expect(async () => {
+      for await (const message of mockQuery({ prompt: prompts() })) logger.log(message);
+    }).rejects.toThrow("CLI crashed");
+    logger.markInterrupted();
+    logger.close();
+
+    const lines = readLines(sessionFiles()[0]);
+    expect(lines.map((line) => line.type)).toEqual(["session_start", "exchange", "session_end"]);
+    expect(lines[1]).toMatchObject({ exchange: 1, interrupted: true });
+    expect(lines[1].stats).toBeUndefined();
+  });
+
+  it("redacts secrets in path_violation lines", async () => {
+    const logger = createSessionLogger({ sessionsDir });
+    const key = "sk-ant-api03-" + "a".repeat(24);
+
+    async function* prompts(): AsyncGenerator<SDKUserMessage> {
+      logger.logUserInput("read it");
+      yield { type: "user", session_id: "", message: { role: "user", content: "read it" }, parent_tool_use_id: null };
+    }
+
+    for await (const message of createMockQuery({ session_id: SESSION_ID, turns: [[{ type: "text", text: "No" }]] })({
+      prompt: prompts(),
+    })) {
+      logger.log(message);
+      if (message.type === "system") {
+        logger.logPathViolation({ tool: "Read", path: `/tmp/${key}`, resolved: `/tmp/${key}`, reason: `/tmp/${key} is outside` });
+      }
+    }
+    logger.close();
+
+    const content = fs.readFileSync(path.join(sessionsDir, sessionFiles()[0]), "utf-8");
+    expect(content).not.toContain(key);
+    expect(readLines(sessionFiles()[0]).find((line) => line.type === "path_violation")).toMatchObject({
+      tool: "Read",
+      path: "/tmp/[REDACTED:anthropic_key]",
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { createWorkspaceFiles } from "@/lib/workspace-files";
+
+const workspace = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "workspace-files-")));
+fs.mkdirSync(path.join(workspace, "src"));
+fs.writeFileSync(path.join(workspace, "src", "a.ts"), "export {};\n");
+fs.symlinkSync("/etc", path.join(workspace, "etc-link"));
+fs.symlinkSync(path.join(workspace, "missing.txt"), path.join(workspace, "dangling"));
+
+afterAll(() => {
+  fs.rmSync(workspace, { recursive: true, force: true });
+});
+
+describe("createWorkspaceFiles", () => {
+  it("lists the tree without symlinks that leave the workspace or point nowhere", () => {
+    const { entries, truncated } = createWorkspaceFiles(workspace).listTree();
+
+    expect(truncated).toBe(false);
+    expect(entries.map((entry) => `${entry.type} ${entry.path}`)).toEqual(["dir src", "file src/a.ts"]);
+  });
+
+  it("refuses paths outside the workspace", () => {
+    const files = createWorkspaceFiles(workspace);
+
+    expect(files.readFile("src/a.ts")?.content).toBe("export {};\n");
+    expect(files.readFile("../outside.txt")).toBeNull();
+    expect(files.readFile("etc-link/passwd")).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createWorkspaceManager } from "@/lib/workspaces";
+
+let rootDir: string;
+
+beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "workspaces-"));
+});
+
+afterEach(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+describe("createWorkspaceManager", () => {
+  it("keeps every binding when managers update the index in turn", () => {
+    const first = createWorkspaceManager({ rootDir });
+    const second = createWorkspaceManager({ rootDir });
+    const a = first.createWorkspace();
+    const b = second.createWorkspace();
+
+    first.bindSession("session-a", a);
+    second.bindSession("session-b", b);
+    first.bindSession("session-a2", a);
+
+    expect(second.findWorkspace("session-a")).toBe(a);
+    expect(second.findWorkspace("session-a2")).toBe(a);
+    expect(first.findWorkspace("session-b")).toBe(b);
+    expect(fs.readdirSync(rootDir).filter((name) => name.endsWith(".tmp") || name.endsWith(".lock"))).toEqual([]);
+  });
+
+  it("takes over a lock left behind by a crashed process", () => {
+    const manager = createWorkspaceManager({ rootDir });
+    const workspace = manager.createWorkspace();
+    const lockPath = path.join(rootDir, "index.json.lock");
+    fs.writeFileSync(lockPath, "");
+    const old = new Date(Date.now() - 60 * 1000);
+    fs.utimesSync(lockPath, old, old);
+
+    manager.bindSession("session-1", workspace);
+
+    expect(manager.findWorkspace("session-1")).toBe(workspace);
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it("forks into a copy of the parent's workspace", () => {
+    const manager = createWorkspaceManager({ rootDir });
+    const parent = manager.resolveWorkspace({});
+    fs.writeFileSync(path.join(parent, "notes.txt"), "original");
+    manager.bindSession("parent", parent);
+
+    const fork = manager.forkWorkspace("parent");
+    expect(fork).not.toBeNull();
+    expect(fork).not.toBe(parent);
+    fs.writeFileSync(path.join(fork!, "notes.txt"), "changed in the fork");
+
+    expect(fs.readFileSync(path.join(parent, "notes.txt"), "utf-8")).toBe("original");
+    expect(manager.forkWorkspace("unknown")).toBeNull();
+  });
+
+  it("removes expired workspaces from the index and the disk", () => {
+    const manager = createWorkspaceManager({ rootDir, maxAgeDays: 7 });
+    const workspace = manager.createWorkspace();
+    manager.bindSession("session-1", workspace);
+    const indexPath = path.join(rootDir, "index.json");
+    const index = JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+    index[path.basename(workspace)].last_used = "2020-01-01T00:00:00.000Z";
+    fs.writeFileSync(indexPath, JSON.stringify(index));
+
+    expect(manager.cleanupExpired(true)).toEqual([workspace]);
+    expect(fs.existsSync(workspace)).toBe(false);
+    expect(manager.findWorkspace("session-1")).toBeNull();
+  });
+});
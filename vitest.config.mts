@@ -0,0 +1,15 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.dirname(fileURLToPath(import.meta.url)) },
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    environment: "node",
+    // The route test changes the working directory, which worker threads don't allow
+    pool: "forks",
+  },
+});